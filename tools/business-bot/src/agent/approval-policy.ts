@@ -0,0 +1,98 @@
+import type { PendingApproval } from '../types';
+import { config } from '../config';
+
+export type ApproverRole = 'admin' | 'team';
+
+interface ApprovalRule {
+  roles: ApproverRole[];
+  twoPersonEligible?: boolean;
+}
+
+export const APPROVAL_POLICY: Record<string, ApprovalRule> = {
+  domain_register: { roles: ['admin'] },
+  dns_set: { roles: ['admin', 'team'] },
+  dns_apply_template: { roles: ['admin', 'team'] },
+  github_create_repo: { roles: ['admin', 'team'] },
+  github_create_repo_from_template: { roles: ['admin', 'team'] },
+  github_fork_repo: { roles: ['admin', 'team'] },
+  github_delete_repo: { roles: ['admin'], twoPersonEligible: true },
+  github_configure_pipeline_secrets: { roles: ['admin', 'team'] },
+  github_sync_template_config: { roles: ['admin', 'team'] },
+  discord_create_server: { roles: ['admin', 'team'] },
+  discord_delete_server: { roles: ['admin'], twoPersonEligible: true },
+  project_apply_plan: { roles: ['admin'] },
+  project_resume_provisioning: { roles: ['admin'] },
+  project_rollback_provisioning: { roles: ['admin'] },
+  project_archive: { roles: ['admin', 'team'] },
+  project_restore: { roles: ['admin', 'team'] },
+  project_cleanup: { roles: ['admin'], twoPersonEligible: true },
+  project_resume_cleanup: { roles: ['admin'] },
+  project_repair_drift: { roles: ['admin', 'team'] },
+  project_rotate_secrets: { roles: ['admin', 'team'] },
+  project_import: { roles: ['admin'] },
+};
+
+const DEFAULT_RULE: ApprovalRule = { roles: ['admin'] };
+
+export type ApprovalCheck =
+  | { allowed: false; reason: string }
+  | { allowed: true; requiredApprovers: number };
+
+export function getUserRoles(userId: string): ApproverRole[] {
+  const roles: ApproverRole[] = [];
+  if (config.discord.adminUserIds.includes(userId)) roles.push('admin');
+  if (config.discord.teamUserIds.includes(userId)) roles.push('team');
+  return roles;
+}
+
+export function getApprovalRule(toolName: string): ApprovalRule {
+  return APPROVAL_POLICY[toolName] ?? DEFAULT_RULE;
+}
+
+export function getRequiredApprovers(toolName: string): number {
+  const rule = getApprovalRule(toolName);
+  return rule.twoPersonEligible && config.approvals.requireTwoPersonForDestructive ? 2 : 1;
+}
+
+function describeRoles(roles: ApproverRole[]): string {
+  return roles.map((r) => (r === 'admin' ? 'an admin' : 'a team member')).join(' or ');
+}
+
+export function checkCanApprove(approval: PendingApproval, userId: string): ApprovalCheck {
+  const rule = getApprovalRule(approval.toolName);
+  const userRoles = getUserRoles(userId);
+
+  if (!rule.roles.some((role) => userRoles.includes(role))) {
+    return {
+      allowed: false,
+      reason: `Only ${describeRoles(rule.roles)} can approve this.`,
+    };
+  }
+
+  if (approval.signoffs.some((s) => s.userId === userId)) {
+    return {
+      allowed: false,
+      reason: 'You have already approved this — it needs a second person.',
+    };
+  }
+
+  return { allowed: true, requiredApprovers: getRequiredApprovers(approval.toolName) };
+}
+
+export function checkCanReject(approval: PendingApproval, userId: string): ApprovalCheck {
+  if (approval.requestedBy === userId) {
+    return { allowed: true, requiredApprovers: 1 };
+  }
+
+  const rule = getApprovalRule(approval.toolName);
+  const userRoles = getUserRoles(userId);
+
+  if (!rule.roles.some((role) => userRoles.includes(role))) {
+    return {
+      allowed: false,
+      reason: `Only the requester or ${describeRoles(rule.roles)} can reject this.`,
+    };
+  }
+
+  return { allowed: true, requiredApprovers: 1 };
+}
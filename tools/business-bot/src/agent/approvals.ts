@@ -0,0 +1,330 @@
+import type { MessageContext, AgentResult, PendingApproval } from '../types';
+import { extractApprovalIntent } from '../services/openai';
+import * as conversationStore from '../context/conversation-store';
+import * as approvalStore from '../context/approval-store';
+import { executeApprovedTool } from './tool-executor';
+import { checkCanApprove, checkCanReject } from './approval-policy';
+
+export type ApprovalDecision = 'approve' | 'reject';
+
+export type ApprovalButtonAction = ApprovalDecision | 'modify';
+
+export interface ApprovalButtonResult {
+  response: string;
+  ephemeral: boolean;
+  stillPending: boolean;
+}
+
+const APPROVAL_BUTTON_PREFIX = 'approval';
+const BUTTON_ACTIONS: ApprovalButtonAction[] = ['approve', 'reject', 'modify'];
+
+export type ApprovalCommand =
+  | { kind: 'list' }
+  | { kind: ApprovalDecision; approvalId: string };
+
+const APPROVE_BY_ID = /\b(?:approve|approved|yes|confirm|ok|go ahead with)\s+#?(a\d+)\b/i;
+const REJECT_BY_ID = /\b(?:reject|rejected|deny|cancel|no|decline)\s+#?(a\d+)\b/i;
+const LIST_PENDING = /^\s*(?:(?:list|show)\s+(?:the\s+)?(?:pending\s+)?approvals?|(?:what'?s|what is)\s+pending|pending(?:\s+approvals?)?)\s*\??\s*$/i;
+
+export function parseApprovalCommand(message: string): ApprovalCommand | null {
+  const rejectMatch = message.match(REJECT_BY_ID);
+  if (rejectMatch) {
+    return { kind: 'reject', approvalId: approvalStore.normalizeApprovalId(rejectMatch[1]) };
+  }
+
+  const approveMatch = message.match(APPROVE_BY_ID);
+  if (approveMatch) {
+    return { kind: 'approve', approvalId: approvalStore.normalizeApprovalId(approveMatch[1]) };
+  }
+
+  if (LIST_PENDING.test(message)) {
+    return { kind: 'list' };
+  }
+
+  return null;
+}
+
+export function summarizeApproval(approval: PendingApproval): string {
+  const { args } = approval;
+
+  switch (approval.toolName) {
+    case 'domain_register':
+      return `register domain ${args.domain}`;
+    case 'project_repair_drift':
+      return `repair drift on project ${args.projectId}`;
+    case 'project_rotate_secrets':
+      return `rotate secrets on project ${args.projectId}`;
+    case 'project_import':
+      return 'overwrite a project from an imported manifest';
+    case 'dns_set':
+      return `replace the DNS records of ${args.domain} (${(args.records as unknown[]).length} record(s))`;
+    case 'dns_apply_template':
+      return `apply DNS template(s) ${(args.templates as string[]).join(', ')} to ${args.domain}`;
+    case 'github_create_repo':
+    case 'github_create_repo_from_template':
+      return `create repository ${args.name}`;
+    case 'github_fork_repo':
+      return `fork ${args.owner}/${args.repo}`;
+    case 'github_delete_repo':
+      return `delete repository ${args.owner}/${args.repo}`;
+    case 'github_configure_pipeline_secrets':
+      return 'configure pipeline secrets';
+    case 'github_sync_template_config':
+      return `sync template config to project ${args.projectId}`;
+    case 'discord_create_server':
+      return `create Discord server ${args.name}`;
+    case 'discord_delete_server':
+      return `delete Discord server ${args.serverId}`;
+    case 'project_cleanup':
+      return `clean up project resources (${args.repoAction === 'delete' ? 'delete' : 'archive'} repositories)`;
+    case 'project_resume_cleanup':
+      return 'resume the project cleanup';
+    case 'project_apply_plan':
+      return 'apply the provisioning plan';
+    case 'project_resume_provisioning':
+      return 'resume provisioning';
+    case 'project_rollback_provisioning':
+      return 'roll back provisioning';
+    case 'project_archive':
+      return 'archive the project';
+    case 'project_restore':
+      return 'restore the archived project';
+    default:
+      return approval.toolName;
+  }
+}
+
+export function formatPendingApprovals(approvals: PendingApproval[]): string {
+  if (approvals.length === 0) {
+    return 'Nothing is waiting for approval here.';
+  }
+
+  const lines = approvals.map((a) => {
+    const minutesLeft = Math.max(1, Math.round((a.expiresAt - Date.now()) / 60000));
+    return `- **${a.id}** — ${summarizeApproval(a)} (requested by <@${a.requestedBy}>, expires in ${minutesLeft} min)`;
+  });
+
+  return `**Pending approvals:**\n${lines.join('\n')}\n\nReply \`approve <id>\` or \`reject <id>\`.`;
+}
+
+export function approvalButtonId(action: ApprovalButtonAction, approvalId: string): string {
+  return `${APPROVAL_BUTTON_PREFIX}:${action}:${approvalId}`;
+}
+
+export function parseApprovalButtonId(
+  customId: string
+): { action: ApprovalButtonAction; approvalId: string } | null {
+  const [prefix, action, approvalId] = customId.split(':');
+  if (prefix !== APPROVAL_BUTTON_PREFIX || !approvalId) return null;
+  if (!BUTTON_ACTIONS.includes(action as ApprovalButtonAction)) return null;
+
+  return { action: action as ApprovalButtonAction, approvalId: approvalStore.normalizeApprovalId(approvalId) };
+}
+
+function alreadyResolved(label: string): AgentResult {
+  return {
+    response: `${label} has already been resolved.`,
+    toolsUsed: [],
+    iterations: 1,
+  };
+}
+
+export async function resolveApproval(
+  approval: PendingApproval,
+  decision: ApprovalDecision,
+  actorId: string
+): Promise<AgentResult> {
+  const label = `**${approval.id}** (${summarizeApproval(approval)})`;
+
+  if (decision === 'reject') {
+    const check = checkCanReject(approval, actorId);
+    if (!check.allowed) {
+      return {
+        response: `<@${actorId}>, you can't reject ${label}. ${check.reason}`,
+        toolsUsed: [],
+        iterations: 1,
+      };
+    }
+
+    if (!approvalStore.markRejected(approval.id, actorId)) return alreadyResolved(label);
+
+    return {
+      response: `No problem, I've cancelled ${label}. What would you like to do instead?`,
+      toolsUsed: [],
+      iterations: 1,
+    };
+  }
+
+  const check = checkCanApprove(approval, actorId);
+  if (!check.allowed) {
+    return {
+      response: `<@${actorId}>, you can't approve ${label}. ${check.reason} It's still pending.`,
+      toolsUsed: [],
+      iterations: 1,
+    };
+  }
+
+  const signed = approvalStore.addSignoff(approval, actorId);
+  if (signed.signoffs.length < check.requiredApprovers) {
+    return {
+      response:
+        `Got it — ${signed.signoffs.length}/${check.requiredApprovers} approvals for ${label}. ` +
+        `Waiting for another admin to approve it.`,
+      toolsUsed: [],
+      iterations: 1,
+    };
+  }
+
+  // Claim the approval before running anything; whoever loses the race gets told it's already resolved.
+  if (!approvalStore.markApproved(approval.id, actorId)) return alreadyResolved(label);
+
+  const result = await executeApprovedTool(signed, actorId);
+
+  return {
+    response: result.success
+      ? `Approved ${label}. ${(result.data as { message?: string })?.message ?? 'Action completed successfully.'}`
+      : `Approved ${label}, but it failed: ${result.error}`,
+    toolsUsed: [approval.toolName],
+    iterations: 1,
+  };
+}
+
+export function requestApprovalChanges(approval: PendingApproval, actorId: string): AgentResult {
+  const label = `**${approval.id}** (${summarizeApproval(approval)})`;
+
+  const check = checkCanReject(approval, actorId);
+  if (!check.allowed) {
+    return {
+      response: `<@${actorId}>, you can't send ${label} back for changes. ${check.reason}`,
+      toolsUsed: [],
+      iterations: 1,
+    };
+  }
+
+  if (!approvalStore.markRejected(approval.id, actorId, 'Changes requested')) return alreadyResolved(label);
+
+  return {
+    response: `Okay, I've put ${label} on hold. What would you like to change? I'll propose an updated version.`,
+    toolsUsed: [],
+    iterations: 1,
+  };
+}
+
+function recordExchange(
+  contextKey: string,
+  userMessage: string,
+  response: string,
+  author: { authorId: string; authorName: string }
+): void {
+  conversationStore.addMessage(contextKey, 'user', userMessage, author.authorId, author.authorName);
+  conversationStore.addMessage(contextKey, 'assistant', response);
+}
+
+export async function handleApprovalButton(
+  action: ApprovalButtonAction,
+  approvalId: string,
+  author: { authorId: string; authorName: string }
+): Promise<ApprovalButtonResult> {
+  const approval = approvalStore.getApproval(approvalId);
+
+  if (!approval || approval.status !== 'pending' || approval.expiresAt <= Date.now()) {
+    return {
+      response: `Approval **${approvalId}** is no longer pending. It may have expired or already been handled.`,
+      ephemeral: true,
+      stillPending: false,
+    };
+  }
+
+  const check = action === 'approve'
+    ? checkCanApprove(approval, author.authorId)
+    : checkCanReject(approval, author.authorId);
+  if (!check.allowed) {
+    return { response: check.reason, ephemeral: true, stillPending: true };
+  }
+
+  const result = action === 'modify'
+    ? requestApprovalChanges(approval, author.authorId)
+    : await resolveApproval(approval, action, author.authorId);
+
+  const buttonLabel = action === 'modify' ? 'Modify' : action === 'approve' ? 'Approve' : 'Reject';
+  recordExchange(approval.contextKey, `[Clicked ${buttonLabel} on ${approval.id}]`, result.response, author);
+
+  return {
+    response: result.response,
+    ephemeral: false,
+    stillPending: approvalStore.getApproval(approval.id)?.status === 'pending',
+  };
+}
+
+export async function handleApprovalCommand(
+  approvalId: string,
+  author: { authorId: string; authorName: string }
+): Promise<AgentResult> {
+  const approval = approvalStore.getApproval(approvalId);
+
+  if (!approval || approval.status !== 'pending' || approval.expiresAt <= Date.now()) {
+    return {
+      response: `Approval **${approvalId}** is no longer pending. It may have expired or already been handled.`,
+      toolsUsed: [],
+      iterations: 1,
+    };
+  }
+
+  const result = await resolveApproval(approval, 'approve', author.authorId);
+  recordExchange(approval.contextKey, `/approve ${approval.id}`, result.response, author);
+  return result;
+}
+
+export async function handleApprovalMessage(
+  userMessage: string,
+  context: MessageContext
+): Promise<AgentResult | null> {
+  const contextKey = conversationStore.getContextKey(context.channelId, context.threadId);
+  const command = parseApprovalCommand(userMessage);
+
+  if (command?.kind === 'list') {
+    const response = formatPendingApprovals(approvalStore.listPendingApprovals(contextKey));
+    recordExchange(contextKey, userMessage, response, context);
+    return { response, toolsUsed: [], iterations: 1 };
+  }
+
+  if (command) {
+    const approval = approvalStore.getPendingApproval(contextKey, command.approvalId);
+
+    if (!approval) {
+      const response = `I couldn't find a pending approval **${command.approvalId}** in this conversation. It may have expired or already been handled.`;
+      recordExchange(contextKey, userMessage, response, context);
+      return { response, toolsUsed: [], iterations: 1 };
+    }
+
+    const result = await resolveApproval(approval, command.kind, context.authorId);
+    recordExchange(contextKey, userMessage, result.response, context);
+    return result;
+  }
+
+  const pending = approvalStore.listPendingApprovals(contextKey);
+  if (pending.length === 0) return null;
+
+  const approvalIntent = await extractApprovalIntent(userMessage);
+  const decided =
+    (approvalIntent.isApproval || approvalIntent.isRejection) &&
+    !approvalIntent.isConditional &&
+    approvalIntent.confidence > 0.7;
+  if (!decided) return null;
+
+  if (pending.length > 1) {
+    const response =
+      `There are ${pending.length} requests waiting, so I need to know which one you mean.\n\n` +
+      formatPendingApprovals(pending);
+    recordExchange(contextKey, userMessage, response, context);
+    return { response, toolsUsed: [], iterations: 1 };
+  }
+
+  const result = await resolveApproval(
+    pending[0],
+    approvalIntent.isApproval ? 'approve' : 'reject',
+    context.authorId
+  );
+  recordExchange(contextKey, userMessage, result.response, context);
+  return result;
+}
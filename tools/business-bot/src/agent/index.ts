@@ -1,6 +1,6 @@
 import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
 import type { MessageContext, AgentResult, BotState } from '../types';
-import { createChatCompletion, extractApprovalIntent } from '../services/openai';
+import { createChatCompletion } from '../services/openai';
 import { config } from '../config';
 import * as conversationStore from '../context/conversation-store';
 import * as projectStore from '../context/project-store';
@@ -9,12 +9,8 @@ import { getStateConfig } from '../state/types';
 import { routeMessage, shouldAutoTransition } from '../state/router';
 import { transition } from '../state/machine';
 import { buildSystemPrompt, buildContextSummary } from './system-prompt';
-import {
-  executeToolCall,
-  getPendingApproval,
-  clearPendingApproval,
-  executeApprovedTool,
-} from './tool-executor';
+import { executeToolCall } from './tool-executor';
+import { handleApprovalMessage } from './approvals';
 
 const MAX_ITERATIONS = 15;
 
@@ -24,40 +20,9 @@ export async function runAgent(
 ): Promise<AgentResult> {
   const contextKey = conversationStore.getContextKey(context.channelId, context.threadId);
 
-  const pendingApproval = getPendingApproval(contextKey);
-  if (pendingApproval) {
-    const approvalIntent = await extractApprovalIntent(userMessage);
-
-    if (approvalIntent.isApproval && approvalIntent.confidence > 0.7) {
-      const result = await executeApprovedTool(contextKey, pendingApproval, context.authorId);
-
-      conversationStore.addMessage(contextKey, 'user', userMessage, context.authorId, context.authorName);
-
-      const responseContent = result.success
-        ? `Approved! ${JSON.stringify(result.data)}`
-        : `Failed: ${result.error}`;
-
-      conversationStore.addMessage(contextKey, 'assistant', responseContent);
-
-      return {
-        response: result.success
-          ? `Done! ${(result.data as { message?: string })?.message ?? 'Action completed successfully.'}`
-          : `Sorry, that failed: ${result.error}`,
-        toolsUsed: [pendingApproval.toolName],
-        iterations: 1,
-      };
-    } else if (approvalIntent.isRejection && approvalIntent.confidence > 0.7) {
-      clearPendingApproval(contextKey);
-
-      conversationStore.addMessage(contextKey, 'user', userMessage, context.authorId, context.authorName);
-      conversationStore.addMessage(contextKey, 'assistant', 'Understood, I\'ve cancelled that action.');
-
-      return {
-        response: 'No problem, I\'ve cancelled that. What would you like to do instead?',
-        toolsUsed: [],
-        iterations: 1,
-      };
-    }
+  const approvalResult = await handleApprovalMessage(userMessage, context);
+  if (approvalResult) {
+    return approvalResult;
   }
 
   const messageWithContext = context.replyContext
@@ -70,7 +35,7 @@ export async function runAgent(
 
   if (currentState === 'idle') {
     currentState = 'chat';
-    conversationStore.setState(contextKey, 'chat');
+    conversationStore.setState(contextKey, 'chat', { trigger: 'user_message', actorId: context.authorId });
   }
 
   const conversationMessages = conversationStore.getMessagesForOpenAI(contextKey);
@@ -82,7 +47,12 @@ export async function runAgent(
 
   if (routeResult.stateChanged && routeResult.confidence > 0.7) {
     currentState = routeResult.newState;
-    conversationStore.setState(contextKey, currentState);
+    conversationStore.setState(contextKey, currentState, {
+      trigger: routeResult.trigger ?? 'user_message',
+      confidence: routeResult.confidence,
+      reasoning: routeResult.reasoning,
+      actorId: context.authorId,
+    });
   }
 
   const projectId = conversationStore.getProjectId(contextKey);
@@ -101,6 +71,7 @@ export async function runAgent(
   ];
 
   const toolsUsed: string[] = [];
+  const approvalIds: string[] = [];
   let iterations = 0;
   let finalResponse = '';
 
@@ -161,6 +132,9 @@ export async function runAgent(
       });
 
       if (result.requiresApproval) {
+        if (result.approvalId) {
+          approvalIds.push(result.approvalId);
+        }
         finalResponse = result.approvalPrompt ?? 'I need your approval to proceed.';
         iterations = MAX_ITERATIONS;
         break;
@@ -178,7 +152,10 @@ export async function runAgent(
   if (autoTransition) {
     newState = transition(currentState, autoTransition);
     if (newState !== currentState) {
-      conversationStore.setState(contextKey, newState);
+      conversationStore.setState(contextKey, newState, {
+        trigger: autoTransition,
+        toolsUsed: [...new Set(toolsUsed)],
+      });
     }
   }
 
@@ -189,18 +166,22 @@ export async function runAgent(
     toolsUsed: [...new Set(toolsUsed)],
     iterations: iterations + 1,
     newState,
+    approvalIds: approvalIds.length > 0 ? approvalIds : undefined,
   };
 }
 
 export async function handleMention(
   message: string,
   context: MessageContext
-): Promise<string> {
+): Promise<AgentResult> {
   try {
-    const result = await runAgent(message, context);
-    return result.response;
+    return await runAgent(message, context);
   } catch (error) {
     console.error('Agent error:', error);
-    return 'Sorry, I encountered an error processing your request. Please try again.';
+    return {
+      response: 'Sorry, I encountered an error processing your request. Please try again.',
+      toolsUsed: [],
+      iterations: 0,
+    };
   }
 }
@@ -0,0 +1,42 @@
+import type { ToolResult } from '../types';
+
+export const SCRUBBED = '<redacted>';
+
+// Last line of defence for tool output: anything shaped like a credential is masked before the result
+// goes back to the model or into Discord. Recognisable prefixes are kept so the output still says what
+// kind of secret was there.
+const SECRET_PATTERNS: Array<[RegExp, string]> = [
+  // Discord webhook URLs keep their ID, which is enough to tell webhooks apart
+  [/(https?:\/\/(?:[\w-]+\.)?discord(?:app)?\.com\/api(?:\/v\d+)?\/webhooks\/\d+\/)[\w-]+/g, `$1${SCRUBBED}`],
+  // Stripe secret and restricted keys, webhook signing secrets
+  [/\b((?:sk|rk)_(?:live|test)_)[A-Za-z0-9]{8,}/g, `$1${SCRUBBED}`],
+  [/\b(whsec_)[A-Za-z0-9+/=]{8,}/g, `$1${SCRUBBED}`],
+  // GitHub tokens
+  [/\b(gh[pousr]_)[A-Za-z0-9]{20,}/g, `$1${SCRUBBED}`],
+  [/\b(github_pat_)\w{20,}/g, `$1${SCRUBBED}`],
+  // Anthropic and OpenAI project keys, then legacy OpenAI keys; a bare "sk-" needs an unbroken
+  // alphanumeric body so words like "sk-learn" are left alone
+  [/\b(sk-(?:ant|proj)-)[\w-]{20,}/g, `$1${SCRUBBED}`],
+  [/\b(sk-)[A-Za-z0-9]{20,}/g, `$1${SCRUBBED}`],
+  // Tavily API keys
+  [/\b(tvly-)[A-Za-z0-9-]{16,}/g, `$1${SCRUBBED}`],
+  // Discord bot tokens: base64 user ID, timestamp and HMAC separated by dots
+  [/\b[\w-]{24,}\.[\w-]{6}\.[\w-]{27,}\b/g, SCRUBBED],
+];
+
+export function scrubSecrets(text: string): string {
+  return SECRET_PATTERNS.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), text);
+}
+
+function scrubValue(value: unknown): unknown {
+  if (typeof value === 'string') return scrubSecrets(value);
+  if (Array.isArray(value)) return value.map(scrubValue);
+  if (typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, scrubValue(entry)]));
+  }
+  return value;
+}
+
+export function scrubToolResult(result: ToolResult): ToolResult {
+  return scrubValue(result) as ToolResult;
+}
@@ -1,6 +1,10 @@
 import type { BotState, Project } from '../types';
 import { getStateConfig } from '../state/types';
 
+function formatResourceLine(label: string, entries: string[]): string {
+  return `- ${label}: ${entries.length > 0 ? entries.join(', ') : 'Not set up'}`;
+}
+
 export function buildSystemPrompt(
   state: BotState,
   activeProject?: Project | null
@@ -58,7 +62,7 @@ Wait for clear approval words: "yes", "go ahead", "approved", "do it", "confirme
 ## Core Capabilities
 1. **Business Planning**: Brainstorm ideas, develop strategies, create business plans
 2. **Market Research**: Research competitors, market size, trends using Tavily
-3. **Domain Management**: Search, check availability, register domains via Namecheap
+3. **Domain Management**: Search, check availability, register domains through the configured registrar (Namecheap by default)
 4. **Repository Management**: Create GitHub repos from our template with full agent pipeline
 5. **Discord Server Setup**: Create servers with channels AND auto-configured webhooks
 6. **Project Tracking**: Track projects through their lifecycle from idea to active
@@ -93,7 +97,7 @@ When setting up a new project from scratch:
 ### 3. Resource Cleanup Responsibility
 - Every resource you create can be cleaned up
 - Track all resources in the project
-- When cleaning up, confirm deletion for each resource type
+- When cleaning up a whole project, use project_cleanup so the user approves the full teardown plan once
 - Domains can't be "deleted" but can be marked for non-renewal
 
 ## Response Style
@@ -110,26 +114,38 @@ When setting up a new project from scratch:
 - \`tavily_market_research\` for comprehensive business analysis
 - Always summarize findings, don't dump raw results
 
-### Domain Tools (Namecheap)
+### Domain Tools
 - Search early in planning to ensure availability
 - Check multiple TLD variations (.com, .io, .dev, etc.)
 - Always show pricing before registration
+- If the user already owns a domain elsewhere, attach it with \`project_set_domain\` instead of registering a new one
+- To point a domain at Vercel, GitHub Pages, Google Workspace, Cloudflare or SES, use \`dns_apply_template\` rather than hand-writing records with \`dns_set\`; it keeps unrelated records and shows the diff for approval. \`dns_set\` replaces every record on the domain, so pass the complete set
 
 ### GitHub Tools
 - **Use \`github_create_repo_from_template\`** - creates repo with full agent pipeline
 - After creating, use \`github_scaffold_repo_config\` to configure secrets/variables
 - Discord webhooks from the project are auto-used for configuration
+- When the template gains new secrets or variables, or a template drift alert comes up, use \`github_sync_template_config\`; ask the user for any secret values it reports as missing and pass them in \`values\`
+- Projects can have several repos and domains (e.g. \`web\`/\`infra\`, \`prod\`/\`staging\`); pass \`resourceKey\` to name the entry, and record per-environment variables with \`project_set_repo_variables\`
 
 ### Discord Tools
 - \`discord_create_server\` - creates the server
-- \`discord_setup_channels\` - creates channels AND webhooks automatically
-- Webhooks for dev, product, pull-requests are stored in project
+- \`discord_setup_channels\` - applies the project's blueprint: roles, channels, permissions, webhooks and pins; safe to re-run, and \`dryRun\` previews the changes
+- Blueprints create Owner, Team, Observer and Agent Bots roles and give them to admins, team members, everyone else and bots, including people who join later; only bots post in #dev and #pull-requests
+- The default blueprint is \`standard\`; use \`discord_list_blueprints\` and \`project_set_discord_blueprint\` if the user wants a different layout or extra channels
+- Webhooks for the blueprint's webhook channels (dev, product, pull-requests by default) are stored in project
 - These webhooks are auto-used when configuring GitHub
 
 ### Project Tools
 - Create a project early in the planning process
+- If the domain, repo or Discord server already exist, use project_adopt instead of creating new ones; it only records them and marks the project active
 - Add ideas and research as you go
 - Use project_status to check resource health
+- Use project_check_drift when something may have been changed outside the bot (deleted webhooks, renamed repos or servers); offer project_repair_drift for findings that have a repair
+- If a webhook URL or API key may have leaked, or a rotation reminder comes up, use project_rotate_secrets; for API keys ask the user to regenerate the key first and pass the new value in \`values\`
+- Use project_get_costs to report spend to date and upcoming renewals
+- Use project_export / project_import to move a project to another bot instance; only use onConflict "overwrite" when the user asks to replace the existing project
+- Prefer project_archive over cleanup when the user wants to shut a project down but may come back to it; project_restore reverses it, and also brings back a project marked deleted before it is purged. project_set_status only switches between planning and active
 
 ### Stripe Tools
 - Connect Stripe accounts to projects for payment processing
@@ -148,8 +164,8 @@ When setting up a new project from scratch:
 **Description**: ${activeProject.description ?? 'No description'}
 
 **Resources**:
-${activeProject.resources.domain ? `- Domain: ${activeProject.resources.domain.name}` : '- Domain: Not set up'}
-${activeProject.resources.github ? `- GitHub: ${activeProject.resources.github.owner}/${activeProject.resources.github.repo}` : '- GitHub: Not set up'}
+${formatResourceLine('Domains', Object.entries(activeProject.resources.domains ?? {}).map(([key, d]) => `${d.name} (${key})`))}
+${formatResourceLine('GitHub', Object.entries(activeProject.resources.github ?? {}).map(([key, r]) => `${r.owner}/${r.repo} (${key})`))}
 ${activeProject.resources.discord ? `- Discord: ${activeProject.resources.discord.serverName}` : '- Discord: Not set up'}
 
 **Planning**:
@@ -1,68 +1,82 @@
-import { LRUCache } from 'lru-cache';
-import type { ToolResult, MessageContext, NamecheapDnsRecord } from '../types';
+import type {
+  ToolResult,
+  MessageContext,
+  DnsRecord,
+  PendingApproval,
+  SagaFailurePolicy,
+  RegistrarId,
+  DnsTemplateId,
+  DriftRepairAction,
+  DriftFinding,
+  ManifestFormat,
+  ManifestConflictMode,
+  CleanupRepoAction,
+} from '../types';
 import * as conversationStore from '../context/conversation-store';
 import * as projectStore from '../context/project-store';
+import * as approvalStore from '../context/approval-store';
 import { isToolAllowed } from '../state/types';
+import { scrubToolResult } from './scrub';
 
-import * as namecheapDomains from '../tools/namecheap/domains';
-import * as namecheapDns from '../tools/namecheap/dns';
+import * as domains from '../tools/domain/domains';
+import * as domainDns from '../tools/domain/dns';
+import * as domainTemplates from '../tools/domain/templates';
 import * as githubRepos from '../tools/github/repos';
 import * as githubSecrets from '../tools/github/secrets';
+import * as githubTemplateSync from '../tools/github/template-sync';
 import * as discordServers from '../tools/discord/servers';
+import * as discordBlueprints from '../tools/discord/blueprints';
 import * as tavilyResearch from '../tools/tavily/research';
 import * as projectLifecycle from '../tools/project/lifecycle';
+import * as projectPlan from '../tools/project/plan';
+import * as projectDrift from '../tools/project/drift';
+import * as projectAdopt from '../tools/project/adopt';
+import * as projectManifest from '../tools/project/manifest';
+import * as projectArchive from '../tools/project/archive';
+import * as projectRotation from '../tools/project/rotation';
+import * as projectCleanup from '../tools/project/cleanup';
+import * as stripeRevenue from '../tools/stripe/revenue';
 import * as sqlite from '../context/persistence/sqlite';
 import * as stripeService from '../services/stripe';
 
-interface PendingApproval {
-  toolName: string;
-  args: Record<string, unknown>;
-  prompt: string;
-  timestamp: number;
-}
-
-const APPROVAL_TIMEOUT_MS = 30 * 60 * 1000; // 30 minutes
-
-const pendingApprovals = new LRUCache<string, PendingApproval>({
-  max: 100,
-  ttl: APPROVAL_TIMEOUT_MS,
-});
-
-export function getPendingApproval(contextKey: string): PendingApproval | undefined {
-  const approval = pendingApprovals.get(contextKey);
-  if (!approval) return undefined;
-
-  const age = Date.now() - approval.timestamp;
-  if (age > APPROVAL_TIMEOUT_MS) {
-    pendingApprovals.delete(contextKey);
-    return undefined;
-  }
-
-  return approval;
-}
-
-export function clearPendingApproval(contextKey: string): void {
-  pendingApprovals.delete(contextKey);
-}
-
-export function setPendingApproval(
+function withPendingApproval(
   contextKey: string,
   toolName: string,
   args: Record<string, unknown>,
-  prompt: string
-): void {
-  pendingApprovals.set(contextKey, {
+  result: ToolResult,
+  requestedBy: string
+): ToolResult {
+  const { approvalArgs, ...rest } = result;
+  const approval = approvalStore.createApproval(
+    contextKey,
     toolName,
-    args,
-    prompt,
-    timestamp: Date.now(),
-  });
+    { ...args, ...approvalArgs },
+    result.approvalPrompt!,
+    requestedBy
+  );
+
+  return {
+    ...rest,
+    approvalId: approval.id,
+    approvalPrompt:
+      `${result.approvalPrompt}\n\n` +
+      `_Approval **${approval.id}** — use the buttons below, or reply \`approve ${approval.id}\` or \`reject ${approval.id}\`._`,
+  };
 }
 
+// Every tool result passes through the scrubber before it reaches the model or Discord.
 export async function executeToolCall(
   toolName: string,
   args: Record<string, unknown>,
   context: MessageContext
+): Promise<ToolResult> {
+  return scrubToolResult(await runToolCall(toolName, args, context));
+}
+
+async function runToolCall(
+  toolName: string,
+  args: Record<string, unknown>,
+  context: MessageContext
 ): Promise<ToolResult> {
   const contextKey = conversationStore.getContextKey(context.channelId, context.threadId);
   const currentState = conversationStore.getState(contextKey);
@@ -76,52 +90,80 @@ export async function executeToolCall(
 
   try {
     switch (toolName) {
-      case 'namecheap_search_domains':
-        return await namecheapDomains.searchDomains(
+      case 'domain_search':
+        return await domains.searchDomains(
           args.keyword as string,
-          args.tlds as string[] | undefined
+          args.tlds as string[] | undefined,
+          args.registrar as RegistrarId | undefined
         );
 
-      case 'namecheap_check_domain':
-        return await namecheapDomains.checkDomain(args.domain as string);
+      case 'domain_check':
+        return await domains.checkDomain(args.domain as string, args.registrar as RegistrarId | undefined);
 
-      case 'namecheap_get_pricing':
-        return await namecheapDomains.getDomainPricing(args.domain as string);
+      case 'domain_get_pricing':
+        return await domains.getDomainPricing(args.domain as string, args.registrar as RegistrarId | undefined);
 
-      case 'namecheap_list_domains':
-        return await namecheapDomains.listDomains();
+      case 'domain_list':
+        return await domains.listDomains(args.registrar as RegistrarId | undefined);
 
-      case 'namecheap_get_domain_info':
-        return await namecheapDomains.getDomainInfo(args.domain as string);
+      case 'domain_get_info':
+        return await domains.getDomainInfo(args.domain as string, args.registrar as RegistrarId | undefined);
 
-      case 'namecheap_register_domain': {
-        const hasApproval = projectStore.hasApproval(args.projectId as string, 'domain');
-        const result = await namecheapDomains.registerDomain(
+      case 'domain_register': {
+        const result = await domains.registerDomain(
           args.domain as string,
           args.projectId as string,
           (args.years as number) ?? 1,
-          hasApproval
+          false,
+          args.registrar as RegistrarId | undefined,
+          args.resourceKey as string | undefined
         );
 
         if (result.requiresApproval) {
-          setPendingApproval(contextKey, toolName, args, result.approvalPrompt!);
+          return withPendingApproval(contextKey, toolName, args, result, context.authorId);
         }
 
         return result;
       }
 
-      case 'namecheap_get_balance':
-        return await namecheapDomains.getAccountBalance();
+      case 'domain_get_balance':
+        return await domains.getAccountBalance(args.registrar as RegistrarId | undefined);
 
-      case 'namecheap_get_dns':
-        return await namecheapDns.getDnsRecords(args.domain as string);
+      case 'dns_get':
+        return await domainDns.getDnsRecords(args.domain as string, args.registrar as RegistrarId | undefined);
 
-      case 'namecheap_set_dns':
-        return await namecheapDns.setDnsRecords(
+      case 'dns_set': {
+        const result = await domainDns.setDnsRecords(
           args.domain as string,
-          args.records as NamecheapDnsRecord[]
+          args.records as DnsRecord[],
+          false,
+          args.registrar as RegistrarId | undefined
         );
 
+        if (result.requiresApproval) {
+          return withPendingApproval(contextKey, toolName, args, result, context.authorId);
+        }
+
+        return result;
+      }
+
+      case 'dns_apply_template': {
+        const result = await domainTemplates.applyDnsTemplates(
+          args.domain as string,
+          args.templates as DnsTemplateId[],
+          (args.params as Record<string, string>) ?? {},
+          context.authorId,
+          false,
+          args.registrar as RegistrarId | undefined
+        );
+
+        if (result.requiresApproval) {
+          return withPendingApproval(contextKey, toolName, args, result, context.authorId);
+        }
+
+        return result;
+      }
+
       case 'github_list_repos':
         return await githubRepos.listRepos(args.org as string | undefined);
 
@@ -129,55 +171,70 @@ export async function executeToolCall(
         return await githubRepos.getRepo(args.owner as string, args.repo as string);
 
       case 'github_create_repo': {
-        const hasApproval = projectStore.hasApproval(args.projectId as string, 'repo');
+        const hasApproval = projectStore.hasApproval(
+          args.projectId as string,
+          'repo',
+          args.resourceKey as string | undefined
+        );
         const result = await githubRepos.createRepo(
           args.name as string,
           args.projectId as string,
           {
             description: args.description as string | undefined,
             isPrivate: args.isPrivate as boolean | undefined,
+            resourceKey: args.resourceKey as string | undefined,
           },
           hasApproval
         );
 
         if (result.requiresApproval) {
-          setPendingApproval(contextKey, toolName, args, result.approvalPrompt!);
+          return withPendingApproval(contextKey, toolName, args, result, context.authorId);
         }
 
         return result;
       }
 
       case 'github_create_repo_from_template': {
-        const hasApproval = projectStore.hasApproval(args.projectId as string, 'repo');
+        const hasApproval = projectStore.hasApproval(
+          args.projectId as string,
+          'repo',
+          args.resourceKey as string | undefined
+        );
         const result = await githubRepos.createRepoFromTemplate(
           args.name as string,
           args.projectId as string,
           {
             description: args.description as string | undefined,
             isPrivate: args.isPrivate as boolean | undefined,
+            resourceKey: args.resourceKey as string | undefined,
           },
           hasApproval
         );
 
         if (result.requiresApproval) {
-          setPendingApproval(contextKey, toolName, args, result.approvalPrompt!);
+          return withPendingApproval(contextKey, toolName, args, result, context.authorId);
         }
 
         return result;
       }
 
       case 'github_fork_repo': {
-        const hasApproval = projectStore.hasApproval(args.projectId as string, 'repo');
+        const hasApproval = projectStore.hasApproval(
+          args.projectId as string,
+          'repo',
+          args.resourceKey as string | undefined
+        );
         const result = await githubRepos.forkRepo(
           args.owner as string,
           args.repo as string,
           args.projectId as string,
           args.newName as string | undefined,
-          hasApproval
+          hasApproval,
+          args.resourceKey as string | undefined
         );
 
         if (result.requiresApproval) {
-          setPendingApproval(contextKey, toolName, args, result.approvalPrompt!);
+          return withPendingApproval(contextKey, toolName, args, result, context.authorId);
         }
 
         return result;
@@ -191,7 +248,7 @@ export async function executeToolCall(
         );
 
         if (result.requiresApproval) {
-          setPendingApproval(contextKey, toolName, args, result.approvalPrompt!);
+          return withPendingApproval(contextKey, toolName, args, result, context.authorId);
         }
 
         return result;
@@ -281,11 +338,12 @@ export async function executeToolCall(
             discordTeamLeadUserId: args.discordTeamLeadUserId as string | undefined,
             appPublicDomain: args.appPublicDomain as string | undefined,
           },
-          false
+          false,
+          args.resourceKey as string | undefined
         );
 
         if (result.requiresApproval) {
-          setPendingApproval(contextKey, toolName, args, result.approvalPrompt!);
+          return withPendingApproval(contextKey, toolName, args, result, context.authorId);
         }
 
         return result;
@@ -294,12 +352,30 @@ export async function executeToolCall(
       case 'github_scaffold_repo_config':
         return await githubSecrets.scaffoldRepoFromTemplate(
           args.projectId as string,
-          (args.secretValues as Record<string, string>) ?? {}
+          (args.secretValues as Record<string, string>) ?? {},
+          args.resourceKey as string | undefined
         );
 
       case 'github_get_template_config':
         return await githubSecrets.getTemplateConfig();
 
+      case 'github_sync_template_config': {
+        const result = await githubTemplateSync.syncTemplateConfig(
+          args.projectId as string,
+          {
+            resourceKey: args.resourceKey as string | undefined,
+            values: args.values as Record<string, string> | undefined,
+          },
+          false
+        );
+
+        if (result.requiresApproval) {
+          return withPendingApproval(contextKey, toolName, args, result, context.authorId);
+        }
+
+        return result;
+      }
+
       case 'discord_list_servers':
         return await discordServers.listServers();
 
@@ -315,14 +391,17 @@ export async function executeToolCall(
         );
 
         if (result.requiresApproval) {
-          setPendingApproval(contextKey, toolName, args, result.approvalPrompt!);
+          return withPendingApproval(contextKey, toolName, args, result, context.authorId);
         }
 
         return result;
       }
 
       case 'discord_setup_channels':
-        return await discordServers.setupChannels(args.serverId as string);
+        return await discordServers.setupChannels(args.serverId as string, args.dryRun === true);
+
+      case 'discord_list_blueprints':
+        return await discordBlueprints.listBlueprints();
 
       case 'discord_invite_users':
         return await discordServers.inviteUsers(args.serverId as string, {
@@ -335,7 +414,7 @@ export async function executeToolCall(
         const result = await discordServers.deleteServer(args.serverId as string, false);
 
         if (result.requiresApproval) {
-          setPendingApproval(contextKey, toolName, args, result.approvalPrompt!);
+          return withPendingApproval(contextKey, toolName, args, result, context.authorId);
         }
 
         return result;
@@ -456,17 +535,207 @@ export async function executeToolCall(
       case 'project_set_status':
         return await projectLifecycle.setStatus(
           args.projectId as string,
-          args.status as 'planning' | 'active' | 'archived' | 'deleted'
+          args.status as 'planning' | 'active'
         );
 
       case 'project_status':
         return await projectLifecycle.getProjectStatus(args.projectId as string);
 
+      case 'project_adopt': {
+        const result = await projectAdopt.adoptProject(
+          {
+            projectId: args.projectId as string | undefined,
+            name: args.name as string | undefined,
+            description: args.description as string | undefined,
+            domain: args.domain as string | undefined,
+            registrar: args.registrar as RegistrarId | 'external' | undefined,
+            expiresAt: args.expiresAt as string | undefined,
+            repo: args.repo as string | undefined,
+            serverId: args.serverId as string | undefined,
+            resourceKey: args.resourceKey as string | undefined,
+          },
+          context.authorId,
+          context.threadId
+        );
+
+        if (result.success && result.data) {
+          conversationStore.setProjectId(contextKey, (result.data as { projectId: string }).projectId);
+        }
+
+        return result;
+      }
+
+      case 'project_export':
+        return await projectManifest.exportProject(
+          args.projectId as string,
+          args.format as ManifestFormat | undefined
+        );
+
+      case 'project_import': {
+        const result = await projectManifest.importProject(
+          args.manifest as string,
+          context.authorId,
+          args.onConflict as ManifestConflictMode | undefined,
+          false,
+          context.threadId
+        );
+
+        if (result.requiresApproval) {
+          return withPendingApproval(contextKey, toolName, args, result, context.authorId);
+        }
+
+        if (result.success && result.data) {
+          conversationStore.setProjectId(contextKey, (result.data as { projectId: string }).projectId);
+        }
+
+        return result;
+      }
+
+      case 'project_check_drift':
+        return await projectDrift.checkProjectDrift(args.projectId as string | undefined);
+
+      case 'project_rotate_secrets': {
+        const result = await projectRotation.rotateProjectSecrets(
+          args.projectId as string,
+          {
+            channels: args.channels as string[] | undefined,
+            values: args.values as Record<string, string> | undefined,
+          },
+          false
+        );
+
+        if (result.requiresApproval) {
+          return withPendingApproval(contextKey, toolName, args, result, context.authorId);
+        }
+
+        return result;
+      }
+
+      case 'project_repair_drift': {
+        const result = await projectDrift.repairProjectDrift(
+          args.projectId as string,
+          args.repairs as DriftRepairAction[] | undefined
+        );
+
+        if (result.requiresApproval) {
+          return withPendingApproval(contextKey, toolName, args, result, context.authorId);
+        }
+
+        return result;
+      }
+
+      case 'project_set_domain':
+        return await projectLifecycle.setProjectDomain(
+          args.projectId as string,
+          args.domain as string,
+          args.registrar as RegistrarId | 'external',
+          args.expiresAt as string | undefined,
+          args.resourceKey as string | undefined
+        );
+
+      case 'project_set_repo_variables':
+        return await projectLifecycle.setRepoVariables(
+          args.projectId as string,
+          args.resourceKey as string,
+          (args.variables as Record<string, string>) ?? {}
+        );
+
+      case 'project_set_discord_blueprint':
+        return await discordBlueprints.setProjectBlueprint(
+          args.projectId as string,
+          args.blueprint as string | undefined,
+          args.override as string | undefined
+        );
+
+      case 'project_get_costs':
+        return await projectLifecycle.getProjectCosts(args.projectId as string | undefined);
+
+      case 'project_plan_provisioning':
+        return await projectPlan.planProvisioning(args.projectId as string, context.authorId, {
+          domain: args.domain as string | undefined,
+          domainYears: args.domainYears as number | undefined,
+          discordServerName: args.discordServerName as string | undefined,
+          repoName: args.repoName as string | undefined,
+          repoDescription: args.repoDescription as string | undefined,
+          repoPrivate: args.repoPrivate as boolean | undefined,
+          useTemplate: args.useTemplate as boolean | undefined,
+          configureSecrets: args.configureSecrets as boolean | undefined,
+          dnsRecords: args.dnsRecords as DnsRecord[] | undefined,
+        });
+
+      case 'project_apply_plan': {
+        const result = await projectPlan.applyProvisioningPlan(
+          args.projectId as string,
+          false,
+          args.onFailure as SagaFailurePolicy | undefined
+        );
+
+        if (result.requiresApproval) {
+          return withPendingApproval(contextKey, toolName, args, result, context.authorId);
+        }
+
+        return result;
+      }
+
+      case 'project_resume_provisioning': {
+        const result = await projectPlan.resumeProvisioning(args.projectId as string, false);
+
+        if (result.requiresApproval) {
+          return withPendingApproval(contextKey, toolName, args, result, context.authorId);
+        }
+
+        return result;
+      }
+
+      case 'project_rollback_provisioning': {
+        const result = await projectPlan.rollbackProvisioning(args.projectId as string, false);
+
+        if (result.requiresApproval) {
+          return withPendingApproval(contextKey, toolName, args, result, context.authorId);
+        }
+
+        return result;
+      }
+
+      case 'project_archive': {
+        const result = await projectArchive.archiveProject(args.projectId as string, false);
+
+        if (result.requiresApproval) {
+          return withPendingApproval(contextKey, toolName, args, result, context.authorId);
+        }
+
+        return result;
+      }
+
+      case 'project_restore': {
+        const result = await projectArchive.restoreProject(args.projectId as string, false);
+
+        if (result.requiresApproval) {
+          return withPendingApproval(contextKey, toolName, args, result, context.authorId);
+        }
+
+        return result;
+      }
+
       case 'project_cleanup': {
-        const result = await projectLifecycle.cleanupProject(args.projectId as string);
+        const result = await projectCleanup.cleanupProject(
+          args.projectId as string,
+          false,
+          args.repoAction as CleanupRepoAction | undefined
+        );
+
+        if (result.requiresApproval) {
+          return withPendingApproval(contextKey, toolName, args, result, context.authorId);
+        }
+
+        return result;
+      }
+
+      case 'project_resume_cleanup': {
+        const result = await projectCleanup.resumeCleanup(args.projectId as string, false);
 
         if (result.requiresApproval) {
-          setPendingApproval(contextKey, toolName, args, result.approvalPrompt!);
+          return withPendingApproval(contextKey, toolName, args, result, context.authorId);
         }
 
         return result;
@@ -481,8 +750,8 @@ export async function executeToolCall(
           name: p.name,
           status: p.status,
           description: p.description,
-          hasGithub: !!p.resources.github,
-          hasDomain: !!p.resources.domain,
+          repoCount: Object.keys(p.resources.github ?? {}).length,
+          domainCount: Object.keys(p.resources.domains ?? {}).length,
           hasDiscord: !!p.resources.discord,
           ideaCount: p.planning.ideas.length,
           hasBusinessPlan: !!p.planning.businessPlan,
@@ -619,6 +888,7 @@ export async function executeToolCall(
               projectId: a.projectId,
               isLive: a.isLive,
               connectedAt: new Date(a.connectedAt).toISOString(),
+              ...(a.undecryptable ? { undecryptable: true, note: 'Key could not be decrypted; reconnect the account' } : {}),
             })),
           },
         };
@@ -803,24 +1073,8 @@ export async function executeToolCall(
         };
       }
 
-      case 'stripe_get_revenue': {
-        const account = sqlite.getStripeAccount(args.accountId as string);
-        if (!account) {
-          return { success: false, error: 'Stripe account not found' };
-        }
-
-        const stats = await stripeService.getRevenueStats(account.secretKey, {
-          days: args.days as number | undefined,
-        });
-
-        return {
-          success: true,
-          data: {
-            businessName: account.businessName,
-            ...stats,
-          },
-        };
-      }
+      case 'stripe_get_revenue':
+        return await stripeRevenue.getRevenue(args.accountId as string, args.days as number | undefined);
 
       case 'stripe_list_invoices': {
         const account = sqlite.getStripeAccount(args.accountId as string);
@@ -889,8 +1143,7 @@ export async function executeToolCall(
           data: {
             id: webhook.id,
             url: webhook.url,
-            secret: webhook.secret,
-            message: `Created webhook endpoint. IMPORTANT: Save this signing secret securely: ${webhook.secret}`,
+            message: 'Created webhook endpoint. Its signing secret is stored with the Stripe account.',
           },
         };
       }
@@ -958,40 +1211,115 @@ export async function executeToolCall(
   }
 }
 
+// Runs a tool whose approval the caller has already claimed with approvalStore.markApproved.
 export async function executeApprovedTool(
-  contextKey: string,
   approval: PendingApproval,
   approvedBy: string
 ): Promise<ToolResult> {
-  clearPendingApproval(contextKey);
+  let result: ToolResult;
+  try {
+    const args = approvalStore.resolveSecretArgs(approval);
+    result = scrubToolResult(await runApprovedTool({ ...approval, args }, approvedBy));
+  } catch (error) {
+    console.error(`Approved tool execution error (${approval.toolName}):`, error);
+    result = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Tool execution failed',
+    };
+  }
+
+  approvalStore.recordOutcome(approval.id, {
+    success: result.success,
+    message: (result.data as { message?: string } | undefined)?.message,
+    error: result.error,
+  });
+  approvalStore.releaseSecretArgs();
 
+  return result;
+}
+
+async function runApprovedTool(
+  approval: PendingApproval,
+  approvedBy: string
+): Promise<ToolResult> {
   const { toolName, args } = approval;
 
+  // Domain registrations are not remembered: each one spends money and gets its own approval.
   if (args.projectId) {
-    let resourceType: 'domain' | 'repo' | 'discord' | undefined;
+    let resourceType: 'repo' | 'discord' | undefined;
 
-    if (toolName.startsWith('namecheap_register')) {
-      resourceType = 'domain';
-    } else if (toolName.startsWith('github_create') || toolName.startsWith('github_fork')) {
+    if (toolName.startsWith('github_create') || toolName.startsWith('github_fork')) {
       resourceType = 'repo';
     } else if (toolName.startsWith('discord_create_server')) {
       resourceType = 'discord';
     }
 
     if (resourceType) {
-      projectStore.setApproval(args.projectId as string, resourceType, true, approvedBy);
+      projectStore.setApproval(
+        args.projectId as string,
+        resourceType,
+        true,
+        approvedBy,
+        args.resourceKey as string | undefined
+      );
     }
   }
 
   switch (toolName) {
-    case 'namecheap_register_domain':
-      return await namecheapDomains.registerDomain(
+    case 'domain_register':
+      return await domains.registerDomain(
         args.domain as string,
         args.projectId as string,
         (args.years as number) ?? 1,
+        true,
+        args.registrar as RegistrarId | undefined,
+        args.resourceKey as string | undefined
+      );
+
+    case 'project_import':
+      return await projectManifest.importProject(
+        args.manifest as string,
+        approval.requestedBy,
+        args.onConflict as ManifestConflictMode | undefined,
+        true
+      );
+
+    case 'project_rotate_secrets':
+      return await projectRotation.rotateProjectSecrets(
+        args.projectId as string,
+        {
+          channels: args.channels as string[] | undefined,
+          values: args.values as Record<string, string> | undefined,
+        },
         true
       );
 
+    case 'project_repair_drift':
+      return await projectDrift.repairProjectDrift(
+        args.projectId as string,
+        args.repairs as DriftRepairAction[] | undefined,
+        true,
+        args.approvedFindings as DriftFinding[] | undefined
+      );
+
+    case 'dns_set':
+      return await domainDns.setDnsRecords(
+        args.domain as string,
+        args.records as DnsRecord[],
+        true,
+        args.registrar as RegistrarId | undefined
+      );
+
+    case 'dns_apply_template':
+      return await domainTemplates.applyDnsTemplates(
+        args.domain as string,
+        args.templates as DnsTemplateId[],
+        (args.params as Record<string, string>) ?? {},
+        approvedBy,
+        true,
+        args.registrar as RegistrarId | undefined
+      );
+
     case 'github_create_repo':
       return await githubRepos.createRepo(
         args.name as string,
@@ -999,6 +1327,19 @@ export async function executeApprovedTool(
         {
           description: args.description as string | undefined,
           isPrivate: args.isPrivate as boolean | undefined,
+          resourceKey: args.resourceKey as string | undefined,
+        },
+        true
+      );
+
+    case 'github_create_repo_from_template':
+      return await githubRepos.createRepoFromTemplate(
+        args.name as string,
+        args.projectId as string,
+        {
+          description: args.description as string | undefined,
+          isPrivate: args.isPrivate as boolean | undefined,
+          resourceKey: args.resourceKey as string | undefined,
         },
         true
       );
@@ -1009,7 +1350,8 @@ export async function executeApprovedTool(
         args.repo as string,
         args.projectId as string,
         args.newName as string | undefined,
-        true
+        true,
+        args.resourceKey as string | undefined
       );
 
     case 'github_delete_repo':
@@ -1029,6 +1371,16 @@ export async function executeApprovedTool(
     case 'discord_delete_server':
       return await discordServers.deleteServer(args.serverId as string, true);
 
+    case 'github_sync_template_config':
+      return await githubTemplateSync.syncTemplateConfig(
+        args.projectId as string,
+        {
+          resourceKey: args.resourceKey as string | undefined,
+          values: args.values as Record<string, string> | undefined,
+        },
+        true
+      );
+
     case 'github_configure_pipeline_secrets':
       return await githubSecrets.configurePipelineSecrets(
         args.projectId as string,
@@ -1049,9 +1401,40 @@ export async function executeApprovedTool(
           // E2E Testing
           appPublicDomain: args.appPublicDomain as string | undefined,
         },
-        true
+        true,
+        args.resourceKey as string | undefined
       );
 
+    case 'project_apply_plan':
+      return await projectPlan.applyProvisioningPlan(
+        args.projectId as string,
+        true,
+        args.onFailure as SagaFailurePolicy | undefined,
+        args.planFingerprint as string | undefined
+      );
+
+    case 'project_resume_provisioning':
+      return await projectPlan.resumeProvisioning(args.projectId as string, true);
+
+    case 'project_rollback_provisioning':
+      return await projectPlan.rollbackProvisioning(args.projectId as string, true);
+
+    case 'project_archive':
+      return await projectArchive.archiveProject(args.projectId as string, true);
+
+    case 'project_restore':
+      return await projectArchive.restoreProject(args.projectId as string, true);
+
+    case 'project_cleanup':
+      return await projectCleanup.cleanupProject(
+        args.projectId as string,
+        true,
+        args.repoAction as CleanupRepoAction | undefined
+      );
+
+    case 'project_resume_cleanup':
+      return await projectCleanup.resumeCleanup(args.projectId as string, true);
+
     default:
       return {
         success: false,
@@ -0,0 +1,31 @@
+import {
+  SlashCommandBuilder,
+  type ChatInputCommandInteraction,
+} from 'discord.js';
+import * as approvalStore from '../context/approval-store';
+import { formatPendingApprovals, handleApprovalCommand } from '../agent/approvals';
+import type { SlashCommand } from './types';
+import { getInteractionContextKey } from './context';
+
+const data = new SlashCommandBuilder()
+  .setName('approve')
+  .setDescription('Approve a pending request, or list what is waiting here')
+  .addStringOption((option) =>
+    option.setName('id').setDescription('Approval ID, e.g. A12')
+  );
+
+async function execute(interaction: ChatInputCommandInteraction): Promise<string> {
+  const id = interaction.options.getString('id');
+
+  if (!id) {
+    return formatPendingApprovals(approvalStore.listPendingApprovals(getInteractionContextKey(interaction)));
+  }
+
+  const result = await handleApprovalCommand(approvalStore.normalizeApprovalId(id), {
+    authorId: interaction.user.id,
+    authorName: interaction.user.displayName ?? interaction.user.username,
+  });
+  return result.response;
+}
+
+export const approveCommand: SlashCommand = { data, execute };
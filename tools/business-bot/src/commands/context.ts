@@ -0,0 +1,35 @@
+import type { ChatInputCommandInteraction } from 'discord.js';
+import type { ToolResult } from '../types';
+import * as conversationStore from '../context/conversation-store';
+import { isToolAllowed } from '../state/types';
+import { scrubToolResult } from '../agent/scrub';
+
+export function getInteractionContextKey(interaction: ChatInputCommandInteraction): string {
+  const channel = interaction.channel;
+  if (channel?.isThread()) {
+    return conversationStore.getContextKey(channel.parentId ?? channel.id, channel.id);
+  }
+  return conversationStore.getContextKey(interaction.channelId);
+}
+
+export async function runTool(
+  interaction: ChatInputCommandInteraction,
+  toolName: string,
+  run: () => Promise<ToolResult>
+): Promise<ToolResult> {
+  const state = conversationStore.getState(getInteractionContextKey(interaction));
+
+  if (!isToolAllowed(state, toolName)) {
+    return {
+      success: false,
+      error: `\`${toolName}\` isn't available while this thread is in ${state} mode.`,
+    };
+  }
+
+  // Slash-command replies go straight to Discord, so they get the same masking as the agent's tool calls
+  return scrubToolResult(await run());
+}
+
+export function formatFailure(result: ToolResult): string {
+  return `Something went wrong: ${result.error ?? 'unknown error'}`;
+}
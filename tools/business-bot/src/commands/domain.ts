@@ -0,0 +1,74 @@
+import {
+  SlashCommandBuilder,
+  type ChatInputCommandInteraction,
+} from 'discord.js';
+import * as domains from '../tools/domain/domains';
+import * as domainDns from '../tools/domain/dns';
+import type { SlashCommand } from './types';
+import { runTool, formatFailure } from './context';
+
+const data = new SlashCommandBuilder()
+  .setName('domain')
+  .setDescription('Look up domains and DNS')
+  .addSubcommand((sub) =>
+    sub
+      .setName('search')
+      .setDescription('Check which domains are available for a keyword')
+      .addStringOption((option) =>
+        option.setName('keyword').setDescription('Name to search for').setRequired(true)
+      )
+      .addStringOption((option) =>
+        option.setName('tlds').setDescription('Comma-separated TLDs, e.g. com,io,dev')
+      )
+  )
+  .addSubcommand((sub) =>
+    sub
+      .setName('dns')
+      .setDescription('Show the DNS records for a domain')
+      .addStringOption((option) =>
+        option.setName('domain').setDescription('Domain name').setRequired(true)
+      )
+  );
+
+async function searchDomains(interaction: ChatInputCommandInteraction): Promise<string> {
+  const keyword = interaction.options.getString('keyword', true);
+  const tlds = interaction.options
+    .getString('tlds')
+    ?.split(',')
+    .map((tld) => tld.trim().replace(/^\./, ''))
+    .filter(Boolean);
+
+  const result = await runTool(interaction, 'domain_search', () =>
+    domains.searchDomains(keyword, tlds && tlds.length > 0 ? tlds : undefined)
+  );
+  if (!result.success) return formatFailure(result);
+
+  const { available, unavailable } = result.data as { available: string[]; unavailable: string[] };
+  return [
+    `**Domain search: ${keyword}**`,
+    `Available: ${available.length > 0 ? available.join(', ') : 'none'}`,
+    `Taken: ${unavailable.length > 0 ? unavailable.join(', ') : 'none'}`,
+  ].join('\n');
+}
+
+async function getDns(interaction: ChatInputCommandInteraction): Promise<string> {
+  const domain = interaction.options.getString('domain', true);
+  const result = await runTool(interaction, 'dns_get', () => domainDns.getDnsRecords(domain));
+  if (!result.success) return formatFailure(result);
+
+  const { records } = result.data as {
+    records: Array<{ name: string; type: string; value: string; ttl?: number; priority?: number }>;
+  };
+  if (records.length === 0) return `No DNS records found for ${domain}.`;
+
+  const lines = records.map(
+    (r) => `${r.type.padEnd(6)} ${r.name.padEnd(12)} ${r.value}${r.priority !== undefined ? ` (priority ${r.priority})` : ''}`
+  );
+  return `**DNS for ${domain}:**\n\`\`\`\n${lines.join('\n')}\n\`\`\``;
+}
+
+async function execute(interaction: ChatInputCommandInteraction): Promise<string> {
+  return interaction.options.getSubcommand() === 'dns' ? getDns(interaction) : searchDomains(interaction);
+}
+
+export const domainCommand: SlashCommand = { data, execute };
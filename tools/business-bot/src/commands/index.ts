@@ -0,0 +1,31 @@
+import type { ChatInputCommandInteraction } from 'discord.js';
+import { config } from '../config';
+import type { SlashCommand } from './types';
+import { stateCommand } from './state';
+import { projectCommand } from './project';
+import { domainCommand } from './domain';
+import { stripeCommand } from './stripe';
+import { approveCommand } from './approve';
+
+export const commands: SlashCommand[] = [
+  projectCommand,
+  domainCommand,
+  stripeCommand,
+  approveCommand,
+  stateCommand,
+];
+
+export function getCommand(name: string): SlashCommand | undefined {
+  return commands.find((command) => command.data.name === name);
+}
+
+export async function handleCommand(
+  command: SlashCommand,
+  interaction: ChatInputCommandInteraction
+): Promise<string> {
+  if (command.adminOnly && !config.discord.adminUserIds.includes(interaction.user.id)) {
+    return 'Only admins can use this command.';
+  }
+
+  return command.execute(interaction);
+}
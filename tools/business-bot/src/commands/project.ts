@@ -0,0 +1,178 @@
+import {
+  SlashCommandBuilder,
+  type ChatInputCommandInteraction,
+} from 'discord.js';
+import * as projectLifecycle from '../tools/project/lifecycle';
+import * as projectDrift from '../tools/project/drift';
+import type { Project } from '../types';
+import type { SlashCommand } from './types';
+import { runTool, formatFailure } from './context';
+
+const PROJECT_STATUSES: Project['status'][] = ['planning', 'active', 'archived', 'deleted'];
+
+const data = new SlashCommandBuilder()
+  .setName('project')
+  .setDescription('Look up projects')
+  .addSubcommand((sub) =>
+    sub
+      .setName('list')
+      .setDescription('List projects')
+      .addStringOption((option) =>
+        option
+          .setName('status')
+          .setDescription('Only show projects with this status')
+          .addChoices(...PROJECT_STATUSES.map((status) => ({ name: status, value: status })))
+      )
+  )
+  .addSubcommand((sub) =>
+    sub
+      .setName('get')
+      .setDescription('Show a project and its resources')
+      .addStringOption((option) =>
+        option.setName('id').setDescription('Project ID').setRequired(true)
+      )
+  )
+  .addSubcommand((sub) =>
+    sub
+      .setName('status')
+      .setDescription('Check the live health of a project')
+      .addStringOption((option) =>
+        option.setName('id').setDescription('Project ID').setRequired(true)
+      )
+  )
+  .addSubcommand((sub) =>
+    sub
+      .setName('drift')
+      .setDescription('Compare recorded resources with the real domain, repository and Discord server')
+      .addStringOption((option) =>
+        option.setName('id').setDescription('Project ID (default: every project with resources)')
+      )
+  );
+
+async function listProjects(interaction: ChatInputCommandInteraction): Promise<string> {
+  const status = interaction.options.getString('status') as Project['status'] | null;
+  const result = await runTool(interaction, 'project_list', () =>
+    projectLifecycle.listProjects(status ?? undefined)
+  );
+  if (!result.success) return formatFailure(result);
+
+  const { projects } = result.data as {
+    projects: Array<{ id: string; name: string; status: string; updatedAt: string }>;
+  };
+  if (projects.length === 0) {
+    return status ? `No ${status} projects.` : 'No projects yet.';
+  }
+
+  const lines = projects.map((p) => `- **${p.name}** (\`${p.id}\`) — ${p.status}, updated ${p.updatedAt.slice(0, 10)}`);
+  return `**Projects${status ? ` (${status})` : ''}:**\n${lines.join('\n')}`;
+}
+
+async function getProject(interaction: ChatInputCommandInteraction): Promise<string> {
+  const projectId = interaction.options.getString('id', true);
+  const result = await runTool(interaction, 'project_get', () => projectLifecycle.getProject(projectId));
+  if (!result.success) return formatFailure(result);
+
+  const project = result.data as {
+    id: string;
+    name: string;
+    description?: string;
+    status: string;
+    resources: {
+      domains: Record<string, { name: string; registrar: string; expiresAt: string | null }>;
+      github: Record<string, { repo: string; url: string }>;
+      discord: { serverName: string; serverId: string } | null;
+    };
+    planning: { ideaCount: number; researchCount: number; hasBusinessPlan: boolean };
+  };
+
+  const { domains, github, discord } = project.resources;
+  const domainList = Object.entries(domains).map(
+    ([key, domain]) =>
+      `${domain.name} (${key}) via ${domain.registrar}${domain.expiresAt ? `, expires ${domain.expiresAt.slice(0, 10)}` : ''}`
+  );
+  const repoList = Object.entries(github).map(([key, repo]) => `[${repo.repo}](${repo.url}) (${key})`);
+  const lines = [
+    `**${project.name}** (\`${project.id}\`) — ${project.status}`,
+    ...(project.description ? [project.description] : []),
+    '',
+    `Domains: ${domainList.length > 0 ? domainList.join(', ') : 'none'}`,
+    `GitHub: ${repoList.length > 0 ? repoList.join(', ') : 'none'}`,
+    `Discord: ${discord ? discord.serverName : 'none'}`,
+    `Planning: ${project.planning.ideaCount} idea(s), ${project.planning.researchCount} research note(s), ` +
+      `${project.planning.hasBusinessPlan ? 'business plan written' : 'no business plan'}`,
+  ];
+  return lines.join('\n');
+}
+
+type ResourceHealth = { healthy?: boolean; error?: string; drift?: string[] };
+
+async function getProjectStatus(interaction: ChatInputCommandInteraction): Promise<string> {
+  const projectId = interaction.options.getString('id', true);
+  const result = await runTool(interaction, 'project_status', () =>
+    projectLifecycle.getProjectStatus(projectId)
+  );
+  if (!result.success) return formatFailure(result);
+
+  const status = result.data as {
+    name: string;
+    status: string;
+    health: string;
+    resources: {
+      domains?: Record<string, ResourceHealth>;
+      github?: Record<string, ResourceHealth>;
+      discord?: ResourceHealth;
+    };
+    provisioning: { status: string; steps: string } | null;
+    costs: { spentToDate: number; spentThisMonth: number; currency: string };
+  };
+
+  const { domains, github, discord } = status.resources;
+  const checked: Array<[string, ResourceHealth]> = [
+    ...Object.entries(domains ?? {}).map(([key, r]): [string, ResourceHealth] => [`domain (${key})`, r]),
+    ...Object.entries(github ?? {}).map(([key, r]): [string, ResourceHealth] => [`github (${key})`, r]),
+    ...(discord ? [['discord', discord] as [string, ResourceHealth]] : []),
+  ];
+
+  const resourceLines = checked.map(
+    ([name, r]) =>
+      `- ${r.healthy === false ? '❌' : '✅'} ${name}${r.error ? ` — ${r.error}` : ''}` +
+      (r.drift ?? []).map((d) => `\n  - ${d}`).join('')
+  );
+
+  const lines = [
+    `**${status.name}** — ${status.status}, ${status.health}`,
+    resourceLines.length > 0 ? resourceLines.join('\n') : '_No resources yet._',
+    `Spent: ${status.costs.spentThisMonth.toFixed(2)} ${status.costs.currency} this month, ` +
+      `${status.costs.spentToDate.toFixed(2)} ${status.costs.currency} to date`,
+  ];
+  if (status.provisioning) {
+    lines.push(`Provisioning: ${status.provisioning.status}\n${status.provisioning.steps}`);
+  }
+  return lines.join('\n');
+}
+
+async function checkDrift(interaction: ChatInputCommandInteraction): Promise<string> {
+  const projectId = interaction.options.getString('id') ?? undefined;
+  const result = await runTool(interaction, 'project_check_drift', () => projectDrift.checkProjectDrift(projectId));
+  if (!result.success) return formatFailure(result);
+
+  const { summary, availableRepairs } = result.data as { summary: string; availableRepairs: string[] };
+  return availableRepairs.length > 0
+    ? `${summary}\n\n_Ask me to repair drift to fix the items marked with a repair._`
+    : summary;
+}
+
+async function execute(interaction: ChatInputCommandInteraction): Promise<string> {
+  switch (interaction.options.getSubcommand()) {
+    case 'get':
+      return getProject(interaction);
+    case 'status':
+      return getProjectStatus(interaction);
+    case 'drift':
+      return checkDrift(interaction);
+    default:
+      return listProjects(interaction);
+  }
+}
+
+export const projectCommand: SlashCommand = { data, execute };
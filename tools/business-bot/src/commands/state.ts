@@ -0,0 +1,83 @@
+import {
+  SlashCommandBuilder,
+  type ChatInputCommandInteraction,
+} from 'discord.js';
+import * as conversationStore from '../context/conversation-store';
+import { formatStateInfo, getAllStates } from '../state/machine';
+import type { BotState, StateTransitionRecord } from '../types';
+import type { SlashCommand } from './types';
+import { getInteractionContextKey } from './context';
+
+const RECENT_TRANSITIONS = 10;
+
+const data = new SlashCommandBuilder()
+  .setName('state')
+  .setDescription("Inspect or override this thread's conversation state")
+  .addSubcommand((sub) =>
+    sub.setName('show').setDescription('Show the current state and recent transitions')
+  )
+  .addSubcommand((sub) =>
+    sub
+      .setName('set')
+      .setDescription('Force this thread into a state')
+      .addStringOption((option) =>
+        option
+          .setName('state')
+          .setDescription('State to switch to')
+          .setRequired(true)
+          .addChoices(...getAllStates().map((state) => ({ name: state, value: state })))
+      )
+  );
+
+function formatTransition(t: StateTransitionRecord): string {
+  const when = `<t:${Math.floor(t.createdAt / 1000)}:R>`;
+  const details: string[] = [];
+
+  if (t.confidence !== undefined) details.push(`confidence ${Math.round(t.confidence * 100)}%`);
+  if (t.toolsUsed.length > 0) details.push(`tools: ${t.toolsUsed.join(', ')}`);
+  if (t.actorId) details.push(`by <@${t.actorId}>`);
+
+  let line = `- ${when} ${t.from} → **${t.to}** (${t.trigger}${details.length > 0 ? `; ${details.join('; ')}` : ''})`;
+  if (t.reasoning) line += `\n  _${t.reasoning}_`;
+  return line;
+}
+
+export function formatStateReport(contextKey: string): string {
+  const state = conversationStore.getState(contextKey);
+  const transitions = conversationStore.getTransitions(contextKey, RECENT_TRANSITIONS);
+
+  const history = transitions.length > 0
+    ? transitions.map(formatTransition).join('\n')
+    : '_No transitions recorded yet._';
+
+  return `${formatStateInfo(state)}\n\n**Recent transitions:**\n${history}`;
+}
+
+async function execute(interaction: ChatInputCommandInteraction): Promise<string> {
+  const contextKey = getInteractionContextKey(interaction);
+
+  if (interaction.options.getSubcommand() === 'set') {
+    const state = interaction.options.getString('state', true) as BotState;
+    const previous = conversationStore.getState(contextKey);
+
+    if (previous === state) {
+      return `This thread is already in **${state}**.`;
+    }
+
+    conversationStore.setState(contextKey, state, {
+      trigger: 'forced',
+      actorId: interaction.user.id,
+    });
+
+    return `Moved this thread from **${previous}** to **${state}**.\n\n${formatStateInfo(state)}`;
+  }
+
+  return formatStateReport(contextKey);
+}
+
+export const stateCommand: SlashCommand = {
+  data,
+  adminOnly: true,
+  ephemeral: true,
+  execute,
+};
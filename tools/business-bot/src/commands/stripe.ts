@@ -0,0 +1,67 @@
+import {
+  SlashCommandBuilder,
+  type ChatInputCommandInteraction,
+} from 'discord.js';
+import * as sqlite from '../context/persistence/sqlite';
+import * as stripeRevenue from '../tools/stripe/revenue';
+import type { SlashCommand } from './types';
+import { runTool, formatFailure } from './context';
+
+const data = new SlashCommandBuilder()
+  .setName('stripe')
+  .setDescription('Look up Stripe figures')
+  .addSubcommand((sub) =>
+    sub
+      .setName('revenue')
+      .setDescription('Show revenue for a connected Stripe account')
+      .addStringOption((option) =>
+        option.setName('account').setDescription('Stripe account ID (optional if only one is connected)')
+      )
+      .addIntegerOption((option) =>
+        option.setName('days').setDescription('Days to look back (default 30)').setMinValue(1).setMaxValue(365)
+      )
+  );
+
+async function getRevenue(interaction: ChatInputCommandInteraction): Promise<string> {
+  let accountId = interaction.options.getString('account');
+  const days = interaction.options.getInteger('days') ?? undefined;
+
+  if (!accountId) {
+    const accounts = sqlite.listStripeAccounts();
+    if (accounts.length === 0) return 'No Stripe accounts are connected.';
+    if (accounts.length > 1) {
+      const lines = accounts.map((a) =>
+        `- \`${a.accountId}\` — ${a.businessName}${a.label ? ` (${a.label})` : ''}${a.undecryptable ? ' ⚠️ key unreadable, reconnect it' : ''}`
+      );
+      return `Several Stripe accounts are connected; pick one with \`account\`:\n${lines.join('\n')}`;
+    }
+    accountId = accounts[0].accountId;
+  }
+
+  const result = await runTool(interaction, 'stripe_get_revenue', () =>
+    stripeRevenue.getRevenue(accountId!, days)
+  );
+  if (!result.success) return formatFailure(result);
+
+  const stats = result.data as {
+    businessName?: string;
+    totalRevenue: number;
+    currency: string;
+    transactionCount: number;
+    averageTransaction: number;
+    periodStart: string;
+    periodEnd: string;
+  };
+
+  return [
+    `**Revenue for ${stats.businessName ?? accountId}** (${stats.periodStart.slice(0, 10)} → ${stats.periodEnd.slice(0, 10)})`,
+    `Total: ${stats.totalRevenue.toFixed(2)} ${stats.currency}`,
+    `Transactions: ${stats.transactionCount} (average ${stats.averageTransaction.toFixed(2)} ${stats.currency})`,
+  ].join('\n');
+}
+
+async function execute(interaction: ChatInputCommandInteraction): Promise<string> {
+  return getRevenue(interaction);
+}
+
+export const stripeCommand: SlashCommand = { data, execute };
@@ -0,0 +1,14 @@
+import type {
+  ChatInputCommandInteraction,
+  RESTPostAPIChatInputApplicationCommandsJSONBody,
+} from 'discord.js';
+
+export interface SlashCommand {
+  data: {
+    name: string;
+    toJSON(): RESTPostAPIChatInputApplicationCommandsJSONBody;
+  };
+  adminOnly?: boolean;
+  ephemeral?: boolean;
+  execute(interaction: ChatInputCommandInteraction): Promise<string>;
+}
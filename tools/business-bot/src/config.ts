@@ -1,3 +1,6 @@
+import * as path from 'path';
+import type { RegistrarId } from './types';
+
 function requireEnv(name: string): string {
   const value = process.env[name];
   if (!value) {
@@ -55,6 +58,23 @@ export const config = {
     },
   },
 
+  approvals: {
+    get requireTwoPersonForDestructive(): boolean {
+      return optionalEnv('APPROVAL_REQUIRE_TWO_PERSON') === 'true';
+    },
+  },
+
+  budget: {
+    get globalMonthlyLimit(): number | undefined {
+      const value = optionalEnv('BUDGET_GLOBAL_MONTHLY_USD');
+      return value ? parseFloat(value) : undefined;
+    },
+    get projectMonthlyLimit(): number | undefined {
+      const value = optionalEnv('BUDGET_PROJECT_MONTHLY_USD');
+      return value ? parseFloat(value) : undefined;
+    },
+  },
+
   openai: {
     get apiKey(): string {
       return requireEnv('OPENAI_API_KEY');
@@ -63,6 +83,29 @@ export const config = {
     routerModel: 'gpt-4o-mini',
   },
 
+  registrar: {
+    get defaultId(): RegistrarId {
+      return (optionalEnv('DOMAIN_REGISTRAR') ?? 'namecheap') as RegistrarId;
+    },
+  },
+
+  jobs: {
+    get alertChannelId(): string | undefined {
+      return optionalEnv('BOT_ALERT_CHANNEL_ID');
+    },
+    get domainExpiryIntervalHours(): number {
+      return parseFloat(optionalEnv('DOMAIN_EXPIRY_CHECK_INTERVAL_HOURS') ?? '12');
+    },
+    // How long a project marked deleted is kept (and can be restored) before it is purged from SQLite
+    get deletedProjectRetentionDays(): number {
+      return parseFloat(optionalEnv('PROJECT_DELETED_RETENTION_DAYS') ?? '30');
+    },
+    // Webhooks and repository secrets older than this are flagged for rotation
+    get secretMaxAgeDays(): number {
+      return parseFloat(optionalEnv('SECRET_MAX_AGE_DAYS') ?? '90');
+    },
+  },
+
   namecheap: {
     get apiUser(): string {
       return requireEnv('NAMECHEAP_API_USER');
@@ -101,5 +144,29 @@ export const config = {
     sqlitePath:
       optionalEnv('BOT_SQLITE_PATH') ??
       './data/business-bot.sqlite',
+    // Where cleanup writes a project's manifest before tearing it down
+    get exportsDir(): string {
+      return optionalEnv('BOT_EXPORTS_DIR') ??
+        path.join(path.dirname(config.persistence.sqlitePath), 'exports');
+    },
+  },
+
+  encryption: {
+    get masterKey(): string | undefined {
+      return optionalEnv('BOT_ENCRYPTION_KEY');
+    },
+    get masterKeyVersion(): number {
+      return parseInt(optionalEnv('BOT_ENCRYPTION_KEY_VERSION') ?? '1', 10);
+    },
+    get previousKeys(): string[] {
+      return optionalEnvList('BOT_ENCRYPTION_PREVIOUS_KEYS');
+    },
+    get keyfilePath(): string | undefined {
+      return optionalEnv('BOT_ENCRYPTION_KEYFILE');
+    },
+    // Older installs generated the keyfile next to the database; still read, never created
+    get legacyKeyfilePath(): string {
+      return path.join(path.dirname(config.persistence.sqlitePath), 'master.key');
+    },
   },
 } as const;
@@ -0,0 +1,117 @@
+import type { PendingApproval, ApprovalOutcome } from '../types';
+import * as sqlite from './persistence/sqlite';
+
+const APPROVAL_TIMEOUT_MS = 30 * 60 * 1000; // 30 minutes
+
+// Arguments that carry secret values. They are kept in project_secrets until the approval runs, and the
+// approval itself only records a reference to them.
+const SECRET_ARGS: Record<string, string[]> = {
+  project_rotate_secrets: ['values'],
+  github_sync_template_config: ['values'],
+};
+
+function nextApprovalId(): string {
+  return `A${sqlite.getMaxApprovalNumber() + 1}`;
+}
+
+export function normalizeApprovalId(id: string): string {
+  return id.trim().replace(/^#/, '').toUpperCase();
+}
+
+export function createApproval(
+  contextKey: string,
+  toolName: string,
+  args: Record<string, unknown>,
+  prompt: string,
+  requestedBy: string
+): PendingApproval {
+  const now = Date.now();
+  const id = nextApprovalId();
+
+  const approval: PendingApproval = {
+    id,
+    contextKey,
+    toolName,
+    args: stashSecretArgs(id, toolName, args),
+    prompt,
+    requestedBy,
+    status: 'pending',
+    createdAt: now,
+    expiresAt: now + APPROVAL_TIMEOUT_MS,
+    signoffs: [],
+  };
+
+  sqlite.saveApproval(approval);
+
+  return approval;
+}
+
+function stashSecretArgs(id: string, toolName: string, args: Record<string, unknown>): Record<string, unknown> {
+  const names = (SECRET_ARGS[toolName] ?? []).filter((name) => args[name] !== undefined);
+  if (names.length === 0 || typeof args.projectId !== 'string') return args;
+
+  const secret = Object.fromEntries(names.map((name) => [name, args[name]]));
+  const rest = Object.fromEntries(Object.entries(args).filter(([name]) => !names.includes(name)));
+  const secretArgsRef = sqlite.saveProjectSecret(args.projectId, 'approval_args', id, JSON.stringify(secret));
+
+  return { ...rest, secretArgsRef };
+}
+
+// The approval's arguments with any stashed secret arguments put back, for running the approved tool.
+export function resolveSecretArgs(approval: PendingApproval): Record<string, unknown> {
+  const { secretArgsRef, ...args } = approval.args;
+  if (typeof secretArgsRef !== 'string') return approval.args;
+
+  const secret = sqlite.loadProjectSecret(secretArgsRef);
+  if (secret === null) {
+    throw new Error(`The secret values for approval ${approval.id} are no longer available; request it again`);
+  }
+
+  return { ...args, ...(JSON.parse(secret) as Record<string, unknown>) };
+}
+
+export function releaseSecretArgs(): void {
+  sqlite.deleteResolvedApprovalSecrets();
+}
+
+export function getApproval(id: string): PendingApproval | null {
+  return sqlite.loadApproval(normalizeApprovalId(id));
+}
+
+export function getPendingApproval(contextKey: string, id: string): PendingApproval | undefined {
+  const normalizedId = normalizeApprovalId(id);
+  return listPendingApprovals(contextKey).find((a) => a.id === normalizedId);
+}
+
+export function listPendingApprovals(contextKey?: string): PendingApproval[] {
+  sqlite.expirePendingApprovals();
+  return sqlite.loadPendingApprovals(contextKey);
+}
+
+export function addSignoff(approval: PendingApproval, userId: string): PendingApproval {
+  if (approval.signoffs.some((s) => s.userId === userId)) {
+    return approval;
+  }
+
+  const signoffs = [...approval.signoffs, { userId, approvedAt: Date.now() }];
+  sqlite.updateApprovalSignoffs(approval.id, signoffs);
+
+  return { ...approval, signoffs };
+}
+
+export function markApproved(id: string, approverId: string): boolean {
+  return sqlite.resolveApproval(id, 'approved', approverId);
+}
+
+export function markRejected(id: string, rejectedBy: string, message = 'Rejected'): boolean {
+  const rejected = sqlite.resolveApproval(id, 'rejected', rejectedBy, {
+    success: false,
+    message,
+  });
+  releaseSecretArgs();
+  return rejected;
+}
+
+export function recordOutcome(id: string, outcome: ApprovalOutcome): boolean {
+  return sqlite.recordApprovalOutcome(id, outcome);
+}
@@ -1,5 +1,11 @@
 import { LRUCache } from 'lru-cache';
-import type { ConversationMessage, ConversationContext, BotState } from '../types';
+import type {
+  ConversationMessage,
+  ConversationContext,
+  BotState,
+  StateTransitionDetails,
+  StateTransitionRecord,
+} from '../types';
 import * as sqlite from './persistence/sqlite';
 
 const MAX_MESSAGES_PER_CONTEXT = 50;
@@ -71,9 +77,12 @@ export function addMessage(
 export function setState(
   contextKey: string,
   state: BotState,
+  transition: StateTransitionDetails,
   projectId?: string
 ): void {
   const context = getConversationContext(contextKey);
+  const previous = context.state;
+
   context.state = state;
   if (projectId !== undefined) {
     context.projectId = projectId;
@@ -82,6 +91,14 @@ export function setState(
   contextCache.set(contextKey, context);
 
   sqlite.saveConversationState(contextKey, state, context.projectId);
+
+  if (previous !== state) {
+    sqlite.saveStateTransition(contextKey, previous, state, transition);
+  }
+}
+
+export function getTransitions(contextKey: string, limit = 10): StateTransitionRecord[] {
+  return sqlite.loadStateTransitions(contextKey, limit);
 }
 
 export function getState(contextKey: string): BotState {
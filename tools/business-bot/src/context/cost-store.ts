@@ -0,0 +1,90 @@
+import type { ProjectCost } from '../types';
+import { config } from '../config';
+import * as sqlite from './persistence/sqlite';
+
+export interface BudgetCheck {
+  allowed: boolean;
+  reason?: string;
+  projectSpent: number;
+  globalSpent: number;
+}
+
+export interface ProjectCostSummary {
+  projectId: string;
+  spentToDate: number;
+  spentThisMonth: number;
+  projectedAnnualRenewals: number;
+  upcomingRenewals: Array<{ resource: string; renewsAt: number; amount: number }>;
+  currency: string;
+}
+
+export function startOfMonth(now = Date.now()): number {
+  const date = new Date(now);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+}
+
+export function recordCost(cost: Omit<ProjectCost, 'id'>): number {
+  return sqlite.saveProjectCost(cost);
+}
+
+export function listCosts(projectId?: string): ProjectCost[] {
+  return sqlite.loadProjectCosts(projectId);
+}
+
+export function checkBudget(projectId: string, amount: number): BudgetCheck {
+  const since = startOfMonth();
+  const projectSpent = sqlite.sumProjectCostsSince(since, projectId);
+  const globalSpent = sqlite.sumProjectCostsSince(since);
+
+  const projectLimit = config.budget.projectMonthlyLimit;
+  if (projectLimit !== undefined && projectSpent + amount > projectLimit) {
+    return {
+      allowed: false,
+      reason: `This would bring the project's spend this month to $${(projectSpent + amount).toFixed(2)}, over its $${projectLimit.toFixed(2)} monthly budget.`,
+      projectSpent,
+      globalSpent,
+    };
+  }
+
+  const globalLimit = config.budget.globalMonthlyLimit;
+  if (globalLimit !== undefined && globalSpent + amount > globalLimit) {
+    return {
+      allowed: false,
+      reason: `This would bring total spend this month to $${(globalSpent + amount).toFixed(2)}, over the $${globalLimit.toFixed(2)} global monthly budget.`,
+      projectSpent,
+      globalSpent,
+    };
+  }
+
+  return { allowed: true, projectSpent, globalSpent };
+}
+
+export function hasBudgetLimits(): boolean {
+  return config.budget.projectMonthlyLimit !== undefined || config.budget.globalMonthlyLimit !== undefined;
+}
+
+export function summarizeProjectCosts(projectId: string): ProjectCostSummary {
+  const costs = listCosts(projectId);
+  const monthStart = startOfMonth();
+
+  // Only the latest ledger entry per resource describes its current renewal.
+  const latestByResource = new Map<string, ProjectCost>();
+  for (const cost of costs) {
+    if (cost.renewsAt !== undefined && cost.renewalAmount !== undefined) {
+      latestByResource.set(cost.resource, cost);
+    }
+  }
+
+  const upcomingRenewals = [...latestByResource.values()]
+    .map((c) => ({ resource: c.resource, renewsAt: c.renewsAt!, amount: c.renewalAmount! }))
+    .sort((a, b) => a.renewsAt - b.renewsAt);
+
+  return {
+    projectId,
+    spentToDate: costs.reduce((sum, c) => sum + c.amount, 0),
+    spentThisMonth: costs.filter((c) => c.incurredAt >= monthStart).reduce((sum, c) => sum + c.amount, 0),
+    projectedAnnualRenewals: upcomingRenewals.reduce((sum, r) => sum + r.amount, 0),
+    upcomingRenewals,
+    currency: costs[0]?.currency ?? 'USD',
+  };
+}
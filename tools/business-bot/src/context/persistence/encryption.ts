@@ -0,0 +1,175 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { config } from '../../config';
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+
+// Rows written before encryption existed carry version 0 and are plain base64.
+export const LEGACY_KEY_VERSION = 0;
+
+interface MasterKeyring {
+  currentVersion: number;
+  keys: Map<number, Buffer>;
+}
+
+interface KeyfileContents {
+  currentVersion: number;
+  keys: Record<string, string>;
+}
+
+let keyring: MasterKeyring | null = null;
+
+function decodeKey(encoded: string, source: string): Buffer {
+  const key = Buffer.from(encoded.trim(), 'base64');
+  if (key.length !== KEY_LENGTH) {
+    throw new Error(`${source} must be a base64-encoded ${KEY_LENGTH}-byte key`);
+  }
+  return key;
+}
+
+function loadKeyringFromEnv(masterKey: string): MasterKeyring {
+  const currentVersion = config.encryption.masterKeyVersion;
+  if (!Number.isInteger(currentVersion) || currentVersion <= LEGACY_KEY_VERSION) {
+    throw new Error('BOT_ENCRYPTION_KEY_VERSION must be a positive integer');
+  }
+
+  const keys = new Map<number, Buffer>();
+
+  for (const entry of config.encryption.previousKeys) {
+    const separator = entry.indexOf(':');
+    const version = parseInt(entry.substring(0, separator), 10);
+    if (separator === -1 || !Number.isInteger(version)) {
+      throw new Error('BOT_ENCRYPTION_PREVIOUS_KEYS entries must use the format <version>:<base64 key>');
+    }
+    keys.set(version, decodeKey(entry.substring(separator + 1), `BOT_ENCRYPTION_PREVIOUS_KEYS (v${version})`));
+  }
+
+  keys.set(currentVersion, decodeKey(masterKey, 'BOT_ENCRYPTION_KEY'));
+
+  return { currentVersion, keys };
+}
+
+function isInsideDir(file: string, dir: string): boolean {
+  const relative = path.relative(path.resolve(dir), path.resolve(file));
+  return !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+function loadKeyringFromKeyfile(keyfilePath: string): MasterKeyring {
+  const dataDir = path.dirname(config.persistence.sqlitePath);
+  const nextToDatabase = isInsideDir(keyfilePath, dataDir);
+
+  if (!fs.existsSync(keyfilePath)) {
+    // A key stored with the database ends up in the same backups and volumes
+    if (nextToDatabase) {
+      throw new Error(
+        `Refusing to generate a master keyfile inside the database directory (${dataDir}). ` +
+        'Point BOT_ENCRYPTION_KEYFILE somewhere else or set BOT_ENCRYPTION_KEY.'
+      );
+    }
+
+    const dir = path.dirname(keyfilePath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    const initial: KeyfileContents = {
+      currentVersion: 1,
+      keys: { '1': crypto.randomBytes(KEY_LENGTH).toString('base64') },
+    };
+    fs.writeFileSync(keyfilePath, JSON.stringify(initial, null, 2), { mode: 0o600 });
+    console.log(`[Encryption] Generated new master keyfile at ${keyfilePath}`);
+  } else if (nextToDatabase) {
+    console.warn(
+      `[Encryption] Master keyfile ${keyfilePath} sits in the database directory; ` +
+      'move it elsewhere and set BOT_ENCRYPTION_KEYFILE, or switch to BOT_ENCRYPTION_KEY'
+    );
+  }
+
+  const contents = JSON.parse(fs.readFileSync(keyfilePath, 'utf-8')) as KeyfileContents;
+  const keys = new Map<number, Buffer>();
+
+  for (const [version, encoded] of Object.entries(contents.keys ?? {})) {
+    keys.set(parseInt(version, 10), decodeKey(encoded, `Keyfile key v${version}`));
+  }
+
+  if (!keys.has(contents.currentVersion)) {
+    throw new Error(`Keyfile ${keyfilePath} has no key for current version ${contents.currentVersion}`);
+  }
+
+  return { currentVersion: contents.currentVersion, keys };
+}
+
+function getKeyring(): MasterKeyring {
+  if (!keyring) {
+    const { masterKey, keyfilePath, legacyKeyfilePath } = config.encryption;
+    if (masterKey) {
+      keyring = loadKeyringFromEnv(masterKey);
+    } else if (keyfilePath) {
+      keyring = loadKeyringFromKeyfile(keyfilePath);
+    } else if (fs.existsSync(legacyKeyfilePath)) {
+      keyring = loadKeyringFromKeyfile(legacyKeyfilePath);
+    } else {
+      throw new Error(
+        'No encryption key configured: set BOT_ENCRYPTION_KEY, or BOT_ENCRYPTION_KEYFILE ' +
+        'to a path outside the database directory'
+      );
+    }
+  }
+  return keyring;
+}
+
+export function getCurrentKeyVersion(): number {
+  return getKeyring().currentVersion;
+}
+
+export function encryptSecret(
+  plaintext: string,
+  associatedData: string
+): { ciphertext: string; keyVersion: number } {
+  const { currentVersion, keys } = getKeyring();
+  const key = keys.get(currentVersion)!;
+
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(Buffer.from(associatedData));
+
+  const encrypted = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+
+  return {
+    ciphertext: [iv, tag, encrypted].map((part) => part.toString('base64')).join('.'),
+    keyVersion: currentVersion,
+  };
+}
+
+export function decryptSecret(
+  ciphertext: string,
+  keyVersion: number,
+  associatedData: string
+): string {
+  if (keyVersion === LEGACY_KEY_VERSION) {
+    return Buffer.from(ciphertext, 'base64').toString('utf-8');
+  }
+
+  const key = getKeyring().keys.get(keyVersion);
+  if (!key) {
+    throw new Error(`No master key available for key version ${keyVersion}`);
+  }
+
+  const [iv, tag, encrypted] = ciphertext.split('.').map((part) => Buffer.from(part, 'base64'));
+  if (!iv || !tag || !encrypted) {
+    throw new Error('Malformed encrypted value');
+  }
+
+  try {
+    const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+    decipher.setAAD(Buffer.from(associatedData));
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf-8');
+  } catch {
+    throw new Error(`Failed to decrypt value with key version ${keyVersion}`);
+  }
+}
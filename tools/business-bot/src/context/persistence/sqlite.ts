@@ -1,6 +1,27 @@
 import Database from 'better-sqlite3';
-import type { ConversationMessage, Project, BotState } from '../../types';
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  ConversationMessage,
+  Project,
+  BotState,
+  PendingApproval,
+  ApprovalStatus,
+  ApprovalOutcome,
+  ApprovalSignoff,
+  ProjectCost,
+  ProjectCostCategory,
+  ProjectDomainResource,
+  ProjectGitHubResource,
+  StateTransitionDetails,
+  StateTransitionRecord,
+} from '../../types';
 import { config } from '../../config';
+import {
+  encryptSecret,
+  decryptSecret,
+  getCurrentKeyVersion,
+  LEGACY_KEY_VERSION,
+} from './encryption';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -44,6 +65,22 @@ export function initDatabase(): Database.Database {
       last_activity INTEGER NOT NULL
     );
 
+    CREATE TABLE IF NOT EXISTS state_transitions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      context_key TEXT NOT NULL,
+      from_state TEXT NOT NULL,
+      to_state TEXT NOT NULL,
+      trigger TEXT NOT NULL,
+      confidence REAL,
+      reasoning TEXT,
+      tools_used_json TEXT NOT NULL DEFAULT '[]',
+      actor_id TEXT,
+      created_at INTEGER NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_state_transitions_context
+      ON state_transitions(context_key, created_at);
+
     CREATE TABLE IF NOT EXISTS projects (
       id TEXT PRIMARY KEY,
       name TEXT NOT NULL,
@@ -90,6 +127,7 @@ export function initDatabase(): Database.Database {
       account_id TEXT PRIMARY KEY,
       project_id TEXT,
       secret_key_encrypted TEXT NOT NULL,
+      key_version INTEGER NOT NULL DEFAULT 0,
       business_name TEXT NOT NULL,
       label TEXT,
       is_live INTEGER NOT NULL DEFAULT 0,
@@ -100,11 +138,105 @@ export function initDatabase(): Database.Database {
 
     CREATE INDEX IF NOT EXISTS idx_stripe_accounts_project
       ON stripe_accounts(project_id);
+
+    CREATE TABLE IF NOT EXISTS pending_approvals (
+      id TEXT PRIMARY KEY,
+      context_key TEXT NOT NULL,
+      tool_name TEXT NOT NULL,
+      args_json TEXT NOT NULL DEFAULT '{}',
+      prompt TEXT NOT NULL,
+      requested_by TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending',
+      created_at INTEGER NOT NULL,
+      expires_at INTEGER NOT NULL,
+      approver_id TEXT,
+      resolved_at INTEGER,
+      outcome_json TEXT,
+      signoffs_json TEXT NOT NULL DEFAULT '[]'
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_pending_approvals_context
+      ON pending_approvals(context_key, status);
+    CREATE INDEX IF NOT EXISTS idx_pending_approvals_status
+      ON pending_approvals(status, expires_at);
+
+    CREATE TABLE IF NOT EXISTS project_costs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      project_id TEXT NOT NULL,
+      category TEXT NOT NULL,
+      resource TEXT NOT NULL,
+      amount REAL NOT NULL,
+      currency TEXT NOT NULL DEFAULT 'USD',
+      incurred_at INTEGER NOT NULL,
+      renews_at INTEGER,
+      renewal_amount REAL,
+      reference TEXT
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_project_costs_project
+      ON project_costs(project_id, incurred_at);
+    CREATE INDEX IF NOT EXISTS idx_project_costs_incurred
+      ON project_costs(incurred_at);
+
+    CREATE TABLE IF NOT EXISTS sent_alerts (
+      alert_key TEXT PRIMARY KEY,
+      project_id TEXT,
+      channel_id TEXT,
+      sent_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS project_snapshots (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      project_id TEXT NOT NULL,
+      reason TEXT NOT NULL,
+      snapshot_json TEXT NOT NULL,
+      created_at INTEGER NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_project_snapshots_project
+      ON project_snapshots(project_id, created_at);
+
+    CREATE TABLE IF NOT EXISTS project_secrets (
+      id TEXT PRIMARY KEY,
+      project_id TEXT NOT NULL,
+      kind TEXT NOT NULL,
+      name TEXT NOT NULL,
+      value_encrypted TEXT NOT NULL,
+      key_version INTEGER NOT NULL,
+      created_at INTEGER NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_project_secrets_project
+      ON project_secrets(project_id);
   `);
 
+  ensureColumn(db, 'stripe_accounts', 'key_version', 'INTEGER NOT NULL DEFAULT 0');
+  ensureColumn(db, 'pending_approvals', 'signoffs_json', "TEXT NOT NULL DEFAULT '[]'");
+  ensureColumn(db, 'pending_approvals', 'args_key_version', 'INTEGER');
+  migrateProjectResources(db);
+  ensureColumn(db, 'projects', 'deleted_at', 'INTEGER');
+  // Projects deleted before deleted_at existed start their retention period from their last update.
+  db.prepare(`UPDATE projects SET deleted_at = updated_at WHERE status = 'deleted' AND deleted_at IS NULL`).run();
+  reencryptStripeAccounts(db);
+  reencryptApprovalArgs(db);
+  migrateWebhookUrls(db);
+  reencryptProjectSecrets(db);
+
   return db;
 }
 
+function ensureColumn(
+  database: Database.Database,
+  table: string,
+  column: string,
+  definition: string
+): void {
+  const columns = database.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+  if (!columns.some((c) => c.name === column)) {
+    database.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
 export function getDatabase(): Database.Database {
   if (!db) {
     return initDatabase();
@@ -216,6 +348,69 @@ export function loadConversationState(
   };
 }
 
+export function saveStateTransition(
+  contextKey: string,
+  from: BotState,
+  to: BotState,
+  details: StateTransitionDetails
+): void {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    INSERT INTO state_transitions
+    (context_key, from_state, to_state, trigger, confidence, reasoning, tools_used_json, actor_id, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  stmt.run(
+    contextKey,
+    from,
+    to,
+    details.trigger,
+    details.confidence ?? null,
+    details.reasoning ?? null,
+    JSON.stringify(details.toolsUsed ?? []),
+    details.actorId ?? null,
+    Date.now()
+  );
+}
+
+export function loadStateTransitions(contextKey: string, limit = 10): StateTransitionRecord[] {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    SELECT id, context_key, from_state, to_state, trigger, confidence, reasoning, tools_used_json, actor_id, created_at
+    FROM state_transitions
+    WHERE context_key = ?
+    ORDER BY created_at DESC, id DESC
+    LIMIT ?
+  `);
+
+  const rows = stmt.all(contextKey, limit) as Array<{
+    id: number;
+    context_key: string;
+    from_state: string;
+    to_state: string;
+    trigger: string;
+    confidence: number | null;
+    reasoning: string | null;
+    tools_used_json: string;
+    actor_id: string | null;
+    created_at: number;
+  }>;
+
+  return rows.map((row) => ({
+    id: row.id,
+    contextKey: row.context_key,
+    from: row.from_state as BotState,
+    to: row.to_state as BotState,
+    trigger: row.trigger,
+    confidence: row.confidence ?? undefined,
+    reasoning: row.reasoning ?? undefined,
+    toolsUsed: JSON.parse(row.tools_used_json),
+    actorId: row.actor_id ?? undefined,
+    createdAt: row.created_at,
+  }));
+}
+
 export function pruneOldMessages(maxAgeMs = 7 * 24 * 60 * 60 * 1000): number {
   const db = getDatabase();
   const cutoff = Date.now() - maxAgeMs;
@@ -230,8 +425,8 @@ export function saveProject(project: Project): void {
   const db = getDatabase();
   const stmt = db.prepare(`
     INSERT OR REPLACE INTO projects
-    (id, name, description, status, created_at, updated_at, created_by, resources_json, planning_json)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    (id, name, description, status, created_at, updated_at, created_by, resources_json, planning_json, deleted_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `);
 
   stmt.run(
@@ -243,14 +438,69 @@ export function saveProject(project: Project): void {
     project.updatedAt,
     project.createdBy,
     JSON.stringify(project.resources),
-    JSON.stringify(project.planning)
+    JSON.stringify(project.planning),
+    project.deletedAt ?? null
   );
 }
 
+// Projects saved before named collections had a single domain and repository; they become the "main" entry.
+const LEGACY_RESOURCE_KEY = 'main';
+
+function normalizeProjectResources(raw: Record<string, unknown>): Project['resources'] {
+  const { domain, github, ...rest } = raw as {
+    domain?: ProjectDomainResource;
+    github?: ProjectGitHubResource | Record<string, ProjectGitHubResource>;
+  } & Project['resources'];
+  const resources: Project['resources'] = { ...rest };
+
+  if (domain) {
+    resources.domains = { [LEGACY_RESOURCE_KEY]: domain, ...resources.domains };
+  }
+
+  if (github) {
+    resources.github =
+      typeof (github as ProjectGitHubResource).owner === 'string'
+        ? { [LEGACY_RESOURCE_KEY]: github as ProjectGitHubResource }
+        : (github as Record<string, ProjectGitHubResource>);
+  }
+
+  // Domains recorded before registrars were tracked were all registered through Namecheap.
+  for (const entry of Object.values(resources.domains ?? {})) {
+    if (!entry.registrar) {
+      entry.registrar = 'namecheap';
+    }
+  }
+
+  return resources;
+}
+
+function parseProjectResources(json: string): Project['resources'] {
+  return normalizeProjectResources(JSON.parse(json) as Record<string, unknown>);
+}
+
+function migrateProjectResources(database: Database.Database): void {
+  const rows = database.prepare(`
+    SELECT id, resources_json FROM projects
+    WHERE json_type(resources_json, '$.domain') IS NOT NULL
+       OR json_type(resources_json, '$.github.owner') IS NOT NULL
+  `).all() as Array<{ id: string; resources_json: string }>;
+
+  if (rows.length === 0) return;
+
+  const update = database.prepare(`UPDATE projects SET resources_json = ? WHERE id = ?`);
+  database.transaction(() => {
+    for (const row of rows) {
+      update.run(JSON.stringify(parseProjectResources(row.resources_json)), row.id);
+    }
+  })();
+
+  console.log(`[SQLite] Migrated ${rows.length} project(s) to named resource collections`);
+}
+
 export function loadProject(id: string): Project | null {
   const db = getDatabase();
   const stmt = db.prepare(`
-    SELECT id, name, description, status, created_at, updated_at, created_by, resources_json, planning_json
+    SELECT id, name, description, status, created_at, updated_at, created_by, resources_json, planning_json, deleted_at
     FROM projects
     WHERE id = ?
   `);
@@ -265,6 +515,7 @@ export function loadProject(id: string): Project | null {
     created_by: string;
     resources_json: string;
     planning_json: string;
+    deleted_at: number | null;
   } | undefined;
 
   if (!row) return null;
@@ -277,8 +528,9 @@ export function loadProject(id: string): Project | null {
     createdAt: row.created_at,
     updatedAt: row.updated_at,
     createdBy: row.created_by,
-    resources: JSON.parse(row.resources_json),
+    resources: parseProjectResources(row.resources_json),
     planning: JSON.parse(row.planning_json),
+    deletedAt: row.deleted_at ?? undefined,
   };
 }
 
@@ -290,14 +542,14 @@ export function loadAllProjects(
 
   if (status) {
     stmt = db.prepare(`
-      SELECT id, name, description, status, created_at, updated_at, created_by, resources_json, planning_json
+      SELECT id, name, description, status, created_at, updated_at, created_by, resources_json, planning_json, deleted_at
       FROM projects
       WHERE status = ?
       ORDER BY updated_at DESC
     `);
   } else {
     stmt = db.prepare(`
-      SELECT id, name, description, status, created_at, updated_at, created_by, resources_json, planning_json
+      SELECT id, name, description, status, created_at, updated_at, created_by, resources_json, planning_json, deleted_at
       FROM projects
       ORDER BY updated_at DESC
     `);
@@ -313,6 +565,7 @@ export function loadAllProjects(
     created_by: string;
     resources_json: string;
     planning_json: string;
+    deleted_at: number | null;
   }>;
 
   return rows.map((row) => ({
@@ -323,13 +576,15 @@ export function loadAllProjects(
     createdAt: row.created_at,
     updatedAt: row.updated_at,
     createdBy: row.created_by,
-    resources: JSON.parse(row.resources_json),
+    resources: parseProjectResources(row.resources_json),
     planning: JSON.parse(row.planning_json),
+    deletedAt: row.deleted_at ?? undefined,
   }));
 }
 
 export function deleteProject(id: string): boolean {
   const db = getDatabase();
+  db.prepare(`DELETE FROM project_secrets WHERE project_id = ?`).run(id);
   const stmt = db.prepare(`DELETE FROM projects WHERE id = ?`);
   const result = stmt.run(id);
   return result.changes > 0;
@@ -338,7 +593,7 @@ export function deleteProject(id: string): boolean {
 export function findProjectByThreadId(threadId: string): Project | null {
   const db = getDatabase();
   const stmt = db.prepare(`
-    SELECT id, name, description, status, created_at, updated_at, created_by, resources_json, planning_json
+    SELECT id, name, description, status, created_at, updated_at, created_by, resources_json, planning_json, deleted_at
     FROM projects
     WHERE json_extract(planning_json, '$.threadId') = ?
   `);
@@ -353,6 +608,7 @@ export function findProjectByThreadId(threadId: string): Project | null {
     created_by: string;
     resources_json: string;
     planning_json: string;
+    deleted_at: number | null;
   } | undefined;
 
   if (!row) return null;
@@ -365,8 +621,9 @@ export function findProjectByThreadId(threadId: string): Project | null {
     createdAt: row.created_at,
     updatedAt: row.updated_at,
     createdBy: row.created_by,
-    resources: JSON.parse(row.resources_json),
+    resources: parseProjectResources(row.resources_json),
     planning: JSON.parse(row.planning_json),
+    deletedAt: row.deleted_at ?? undefined,
   };
 }
 
@@ -538,7 +795,7 @@ export function getOwnedThreadsByGuild(
 export function findProjectByServerId(serverId: string): Project | null {
   const db = getDatabase();
   const stmt = db.prepare(`
-    SELECT id, name, description, status, created_at, updated_at, created_by, resources_json, planning_json
+    SELECT id, name, description, status, created_at, updated_at, created_by, resources_json, planning_json, deleted_at
     FROM projects
     WHERE json_extract(resources_json, '$.discord.serverId') = ?
   `);
@@ -553,6 +810,7 @@ export function findProjectByServerId(serverId: string): Project | null {
     created_by: string;
     resources_json: string;
     planning_json: string;
+    deleted_at: number | null;
   } | undefined;
 
   if (!row) return null;
@@ -565,8 +823,9 @@ export function findProjectByServerId(serverId: string): Project | null {
     createdAt: row.created_at,
     updatedAt: row.updated_at,
     createdBy: row.created_by,
-    resources: JSON.parse(row.resources_json),
+    resources: parseProjectResources(row.resources_json),
     planning: JSON.parse(row.planning_json),
+    deletedAt: row.deleted_at ?? undefined,
   };
 }
 
@@ -580,28 +839,84 @@ export interface StripeAccountRecord {
   connectedAt: number;
   connectedBy: string;
   webhookSecrets: Record<string, string>;
+  // Set by listStripeAccounts when the stored key can't be decrypted; secretKey is then empty
+  undecryptable?: boolean;
+}
+
+function stripeKeyContext(accountId: string): string {
+  return `stripe_accounts:${accountId}`;
 }
 
-function encryptKey(key: string): string {
-  return Buffer.from(key).toString('base64');
+function decryptStripeKey(row: {
+  account_id: string;
+  secret_key_encrypted: string;
+  key_version: number;
+}): string {
+  return decryptSecret(row.secret_key_encrypted, row.key_version, stripeKeyContext(row.account_id));
 }
 
-function decryptKey(encrypted: string): string {
-  return Buffer.from(encrypted, 'base64').toString('utf-8');
+function reencryptStripeAccounts(database: Database.Database): void {
+  const currentVersion = getCurrentKeyVersion();
+  const rows = database.prepare(`
+    SELECT account_id, secret_key_encrypted, key_version
+    FROM stripe_accounts
+    WHERE key_version != ?
+  `).all(currentVersion) as Array<{
+    account_id: string;
+    secret_key_encrypted: string;
+    key_version: number;
+  }>;
+
+  if (rows.length === 0) return;
+
+  const update = database.prepare(`
+    UPDATE stripe_accounts
+    SET secret_key_encrypted = ?, key_version = ?
+    WHERE account_id = ?
+  `);
+
+  let migrated = 0;
+  const migrate = database.transaction(() => {
+    for (const row of rows) {
+      try {
+        const { ciphertext, keyVersion } = encryptSecret(
+          decryptStripeKey(row),
+          stripeKeyContext(row.account_id)
+        );
+        update.run(ciphertext, keyVersion, row.account_id);
+        migrated++;
+      } catch (error) {
+        console.error(`[SQLite] Could not re-encrypt Stripe key for ${row.account_id}:`, error);
+      }
+    }
+  });
+  migrate();
+
+  const fromLegacy = rows.filter((r) => r.key_version === LEGACY_KEY_VERSION).length;
+  console.log(
+    `[SQLite] Re-encrypted ${migrated}/${rows.length} Stripe keys with key version ${currentVersion}` +
+    (fromLegacy > 0 ? ` (${fromLegacy} legacy)` : '')
+  );
 }
 
 export function saveStripeAccount(account: StripeAccountRecord): void {
   const db = getDatabase();
   const stmt = db.prepare(`
     INSERT OR REPLACE INTO stripe_accounts
-    (account_id, project_id, secret_key_encrypted, business_name, label, is_live, connected_at, connected_by, webhook_secrets_json)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    (account_id, project_id, secret_key_encrypted, key_version, business_name, label, is_live, connected_at, connected_by, webhook_secrets_json)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `);
 
+  const { ciphertext, keyVersion } = encryptSecret(
+    account.secretKey,
+    stripeKeyContext(account.accountId)
+  );
+
   stmt.run(
     account.accountId,
     account.projectId ?? null,
-    encryptKey(account.secretKey),
+    ciphertext,
+    keyVersion,
     account.businessName,
     account.label ?? null,
     account.isLive ? 1 : 0,
@@ -614,7 +929,7 @@ export function saveStripeAccount(account: StripeAccountRecord): void {
 export function getStripeAccount(accountId: string): StripeAccountRecord | null {
   const db = getDatabase();
   const stmt = db.prepare(`
-    SELECT account_id, project_id, secret_key_encrypted, business_name, label, is_live, connected_at, connected_by, webhook_secrets_json
+    SELECT account_id, project_id, secret_key_encrypted, key_version, business_name, label, is_live, connected_at, connected_by, webhook_secrets_json
     FROM stripe_accounts
     WHERE account_id = ?
   `);
@@ -623,6 +938,7 @@ export function getStripeAccount(accountId: string): StripeAccountRecord | null
     account_id: string;
     project_id: string | null;
     secret_key_encrypted: string;
+    key_version: number;
     business_name: string;
     label: string | null;
     is_live: number;
@@ -633,10 +949,18 @@ export function getStripeAccount(accountId: string): StripeAccountRecord | null
 
   if (!row) return null;
 
+  let secretKey: string;
+  try {
+    secretKey = decryptStripeKey(row);
+  } catch (error) {
+    console.error(`[SQLite] Refusing to load Stripe account ${row.account_id}:`, error);
+    throw new Error(`Stripe key for ${row.account_id} could not be decrypted. Reconnect the account.`);
+  }
+
   return {
     accountId: row.account_id,
     projectId: row.project_id ?? undefined,
-    secretKey: decryptKey(row.secret_key_encrypted),
+    secretKey,
     businessName: row.business_name,
     label: row.label ?? undefined,
     isLive: row.is_live === 1,
@@ -654,6 +978,7 @@ export function listStripeAccounts(projectId?: string): StripeAccountRecord[] {
     account_id: string;
     project_id: string | null;
     secret_key_encrypted: string;
+    key_version: number;
     business_name: string;
     label: string | null;
     is_live: number;
@@ -664,7 +989,7 @@ export function listStripeAccounts(projectId?: string): StripeAccountRecord[] {
 
   if (projectId) {
     stmt = db.prepare(`
-      SELECT account_id, project_id, secret_key_encrypted, business_name, label, is_live, connected_at, connected_by, webhook_secrets_json
+      SELECT account_id, project_id, secret_key_encrypted, key_version, business_name, label, is_live, connected_at, connected_by, webhook_secrets_json
       FROM stripe_accounts
       WHERE project_id = ?
       ORDER BY connected_at DESC
@@ -672,24 +997,36 @@ export function listStripeAccounts(projectId?: string): StripeAccountRecord[] {
     rows = stmt.all(projectId) as typeof rows;
   } else {
     stmt = db.prepare(`
-      SELECT account_id, project_id, secret_key_encrypted, business_name, label, is_live, connected_at, connected_by, webhook_secrets_json
+      SELECT account_id, project_id, secret_key_encrypted, key_version, business_name, label, is_live, connected_at, connected_by, webhook_secrets_json
       FROM stripe_accounts
       ORDER BY connected_at DESC
     `);
     rows = stmt.all() as typeof rows;
   }
 
-  return rows.map((row) => ({
-    accountId: row.account_id,
-    projectId: row.project_id ?? undefined,
-    secretKey: decryptKey(row.secret_key_encrypted),
-    businessName: row.business_name,
-    label: row.label ?? undefined,
-    isLive: row.is_live === 1,
-    connectedAt: row.connected_at,
-    connectedBy: row.connected_by,
-    webhookSecrets: JSON.parse(row.webhook_secrets_json),
-  }));
+  return rows.map((row) => {
+    let secretKey = '';
+    let undecryptable = false;
+    try {
+      secretKey = decryptStripeKey(row);
+    } catch (error) {
+      console.error(`[SQLite] Stripe key for ${row.account_id} could not be decrypted:`, error);
+      undecryptable = true;
+    }
+
+    return {
+      accountId: row.account_id,
+      projectId: row.project_id ?? undefined,
+      secretKey,
+      businessName: row.business_name,
+      label: row.label ?? undefined,
+      isLive: row.is_live === 1,
+      connectedAt: row.connected_at,
+      connectedBy: row.connected_by,
+      webhookSecrets: JSON.parse(row.webhook_secrets_json),
+      ...(undecryptable ? { undecryptable } : {}),
+    };
+  });
 }
 
 export function updateStripeWebhookSecret(
@@ -719,3 +1056,479 @@ export function deleteStripeAccount(accountId: string): boolean {
   const result = stmt.run(accountId);
   return result.changes > 0;
 }
+
+interface ApprovalRow {
+  id: string;
+  context_key: string;
+  tool_name: string;
+  args_json: string;
+  prompt: string;
+  requested_by: string;
+  status: string;
+  created_at: number;
+  expires_at: number;
+  approver_id: string | null;
+  resolved_at: number | null;
+  outcome_json: string | null;
+  signoffs_json: string;
+  args_key_version: number | null;
+}
+
+const APPROVAL_COLUMNS = `
+  id, context_key, tool_name, args_json, prompt, requested_by, status,
+  created_at, expires_at, approver_id, resolved_at, outcome_json, signoffs_json, args_key_version
+`;
+
+// Tool arguments can carry API keys and webhook URLs, so they are encrypted like Stripe keys.
+// A NULL key version marks arguments stored as plain JSON by earlier releases.
+function approvalArgsContext(id: string): string {
+  return `pending_approvals:${id}`;
+}
+
+function decryptApprovalArgs(row: Pick<ApprovalRow, 'id' | 'args_json' | 'args_key_version'>): string {
+  return row.args_key_version === null
+    ? row.args_json
+    : decryptSecret(row.args_json, row.args_key_version, approvalArgsContext(row.id));
+}
+
+function reencryptApprovalArgs(database: Database.Database): void {
+  const currentVersion = getCurrentKeyVersion();
+  const rows = database.prepare(`
+    SELECT id, args_json, args_key_version
+    FROM pending_approvals
+    WHERE args_key_version IS NULL OR args_key_version != ?
+  `).all(currentVersion) as Array<Pick<ApprovalRow, 'id' | 'args_json' | 'args_key_version'>>;
+
+  if (rows.length === 0) return;
+
+  const update = database.prepare(`UPDATE pending_approvals SET args_json = ?, args_key_version = ? WHERE id = ?`);
+  let migrated = 0;
+  database.transaction(() => {
+    for (const row of rows) {
+      try {
+        const { ciphertext, keyVersion } = encryptSecret(decryptApprovalArgs(row), approvalArgsContext(row.id));
+        update.run(ciphertext, keyVersion, row.id);
+        migrated++;
+      } catch (error) {
+        console.error(`[SQLite] Could not re-encrypt arguments of approval ${row.id}:`, error);
+      }
+    }
+  })();
+
+  console.log(`[SQLite] Encrypted ${migrated}/${rows.length} approval argument sets with key version ${currentVersion}`);
+}
+
+// Approvals whose arguments can't be decrypted are left out rather than run with missing arguments.
+function mapApprovalRow(row: ApprovalRow): PendingApproval | null {
+  let args: Record<string, unknown>;
+  try {
+    args = JSON.parse(decryptApprovalArgs(row));
+  } catch (error) {
+    console.error(`[SQLite] Skipping approval ${row.id}; its arguments could not be decrypted:`, error);
+    return null;
+  }
+
+  return {
+    id: row.id,
+    contextKey: row.context_key,
+    toolName: row.tool_name,
+    args,
+    prompt: row.prompt,
+    requestedBy: row.requested_by,
+    status: row.status as ApprovalStatus,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+    signoffs: JSON.parse(row.signoffs_json),
+    approverId: row.approver_id ?? undefined,
+    resolvedAt: row.resolved_at ?? undefined,
+    outcome: row.outcome_json ? JSON.parse(row.outcome_json) : undefined,
+  };
+}
+
+export function saveApproval(approval: PendingApproval): void {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    INSERT INTO pending_approvals
+    (id, context_key, tool_name, args_json, args_key_version, prompt, requested_by, status, created_at, expires_at, approver_id, resolved_at, outcome_json, signoffs_json)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const { ciphertext, keyVersion } = encryptSecret(JSON.stringify(approval.args), approvalArgsContext(approval.id));
+
+  stmt.run(
+    approval.id,
+    approval.contextKey,
+    approval.toolName,
+    ciphertext,
+    keyVersion,
+    approval.prompt,
+    approval.requestedBy,
+    approval.status,
+    approval.createdAt,
+    approval.expiresAt,
+    approval.approverId ?? null,
+    approval.resolvedAt ?? null,
+    approval.outcome ? JSON.stringify(approval.outcome) : null,
+    JSON.stringify(approval.signoffs)
+  );
+}
+
+// Highest N among approval IDs of the form AN. Unlike a row count it never goes backwards when rows are removed.
+export function getMaxApprovalNumber(): number {
+  const db = getDatabase();
+  const row = db
+    .prepare(`SELECT COALESCE(MAX(CAST(SUBSTR(id, 2) AS INTEGER)), 0) as max FROM pending_approvals`)
+    .get() as { max: number };
+  return row.max;
+}
+
+export function loadApproval(id: string): PendingApproval | null {
+  const db = getDatabase();
+  const stmt = db.prepare(`SELECT ${APPROVAL_COLUMNS} FROM pending_approvals WHERE id = ?`);
+  const row = stmt.get(id) as ApprovalRow | undefined;
+  return row ? mapApprovalRow(row) : null;
+}
+
+export function loadPendingApprovals(contextKey?: string): PendingApproval[] {
+  const db = getDatabase();
+  let rows: ApprovalRow[];
+
+  if (contextKey) {
+    const stmt = db.prepare(`
+      SELECT ${APPROVAL_COLUMNS}
+      FROM pending_approvals
+      WHERE status = 'pending' AND context_key = ?
+      ORDER BY created_at DESC
+    `);
+    rows = stmt.all(contextKey) as ApprovalRow[];
+  } else {
+    const stmt = db.prepare(`
+      SELECT ${APPROVAL_COLUMNS}
+      FROM pending_approvals
+      WHERE status = 'pending'
+      ORDER BY created_at DESC
+    `);
+    rows = stmt.all() as ApprovalRow[];
+  }
+
+  return rows.map(mapApprovalRow).filter((approval): approval is PendingApproval => approval !== null);
+}
+
+export function resolveApproval(
+  id: string,
+  status: Exclude<ApprovalStatus, 'pending'>,
+  approverId?: string,
+  outcome?: ApprovalOutcome
+): boolean {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    UPDATE pending_approvals
+    SET status = ?, approver_id = ?, resolved_at = ?, outcome_json = ?
+    WHERE id = ? AND status = 'pending'
+  `);
+
+  const result = stmt.run(
+    status,
+    approverId ?? null,
+    Date.now(),
+    outcome ? JSON.stringify(outcome) : null,
+    id
+  );
+  // Only the first resolution wins, so a double click or a racing approver can't run the tool twice.
+  return result.changes === 1;
+}
+
+export function updateApprovalSignoffs(id: string, signoffs: ApprovalSignoff[]): boolean {
+  const db = getDatabase();
+  const stmt = db.prepare(`UPDATE pending_approvals SET signoffs_json = ? WHERE id = ?`);
+  const result = stmt.run(JSON.stringify(signoffs), id);
+  return result.changes > 0;
+}
+
+export function recordApprovalOutcome(id: string, outcome: ApprovalOutcome): boolean {
+  const db = getDatabase();
+  const stmt = db.prepare(`UPDATE pending_approvals SET outcome_json = ? WHERE id = ?`);
+  const result = stmt.run(JSON.stringify(outcome), id);
+  return result.changes > 0;
+}
+
+export function expirePendingApprovals(now = Date.now()): number {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    UPDATE pending_approvals
+    SET status = 'expired', resolved_at = ?
+    WHERE status = 'pending' AND expires_at <= ?
+  `);
+  const result = stmt.run(now, now);
+  if (result.changes > 0) deleteResolvedApprovalSecrets();
+  return result.changes;
+}
+
+interface ProjectCostRow {
+  id: number;
+  project_id: string;
+  category: string;
+  resource: string;
+  amount: number;
+  currency: string;
+  incurred_at: number;
+  renews_at: number | null;
+  renewal_amount: number | null;
+  reference: string | null;
+}
+
+const PROJECT_COST_COLUMNS = `
+  id, project_id, category, resource, amount, currency,
+  incurred_at, renews_at, renewal_amount, reference
+`;
+
+function mapProjectCostRow(row: ProjectCostRow): ProjectCost {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    category: row.category as ProjectCostCategory,
+    resource: row.resource,
+    amount: row.amount,
+    currency: row.currency,
+    incurredAt: row.incurred_at,
+    renewsAt: row.renews_at ?? undefined,
+    renewalAmount: row.renewal_amount ?? undefined,
+    reference: row.reference ?? undefined,
+  };
+}
+
+export function saveProjectCost(cost: Omit<ProjectCost, 'id'>): number {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    INSERT INTO project_costs
+    (project_id, category, resource, amount, currency, incurred_at, renews_at, renewal_amount, reference)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const result = stmt.run(
+    cost.projectId,
+    cost.category,
+    cost.resource,
+    cost.amount,
+    cost.currency,
+    cost.incurredAt,
+    cost.renewsAt ?? null,
+    cost.renewalAmount ?? null,
+    cost.reference ?? null
+  );
+  return Number(result.lastInsertRowid);
+}
+
+export function loadProjectCosts(projectId?: string): ProjectCost[] {
+  const db = getDatabase();
+  let rows: ProjectCostRow[];
+
+  if (projectId) {
+    const stmt = db.prepare(`
+      SELECT ${PROJECT_COST_COLUMNS} FROM project_costs
+      WHERE project_id = ?
+      ORDER BY incurred_at ASC
+    `);
+    rows = stmt.all(projectId) as ProjectCostRow[];
+  } else {
+    const stmt = db.prepare(`SELECT ${PROJECT_COST_COLUMNS} FROM project_costs ORDER BY incurred_at ASC`);
+    rows = stmt.all() as ProjectCostRow[];
+  }
+
+  return rows.map(mapProjectCostRow);
+}
+
+export function sumProjectCostsSince(since: number, projectId?: string): number {
+  const db = getDatabase();
+  let row: { total: number | null };
+
+  if (projectId) {
+    row = db.prepare(`
+      SELECT SUM(amount) as total FROM project_costs
+      WHERE incurred_at >= ? AND project_id = ?
+    `).get(since, projectId) as { total: number | null };
+  } else {
+    row = db.prepare(`
+      SELECT SUM(amount) as total FROM project_costs
+      WHERE incurred_at >= ?
+    `).get(since) as { total: number | null };
+  }
+
+  return row.total ?? 0;
+}
+
+export function hasSentAlert(alertKey: string): boolean {
+  const db = getDatabase();
+  const row = db.prepare('SELECT 1 FROM sent_alerts WHERE alert_key = ?').get(alertKey);
+  return row !== undefined;
+}
+
+export function recordSentAlert(alertKey: string, projectId?: string, channelId?: string): void {
+  const db = getDatabase();
+  db.prepare(`
+    INSERT OR IGNORE INTO sent_alerts (alert_key, project_id, channel_id, sent_at)
+    VALUES (?, ?, ?, ?)
+  `).run(alertKey, projectId ?? null, channelId ?? null, Date.now());
+}
+
+export function saveProjectSnapshot(projectId: string, reason: string, project: Project): number {
+  const db = getDatabase();
+  const result = db.prepare(`
+    INSERT INTO project_snapshots (project_id, reason, snapshot_json, created_at)
+    VALUES (?, ?, ?, ?)
+  `).run(projectId, reason, JSON.stringify(project), Date.now());
+  return Number(result.lastInsertRowid);
+}
+
+// Removes deleted projects whose retention period ended before the cutoff, along with their
+// snapshots, secrets and alert records. The cost ledger is kept, and Stripe accounts are unlinked rather than removed.
+export function purgeDeletedProjects(deletedBefore: number): Array<{ id: string; name: string }> {
+  const db = getDatabase();
+  const rows = db.prepare(`
+    SELECT id, name FROM projects WHERE status = 'deleted' AND deleted_at IS NOT NULL AND deleted_at < ?
+  `).all(deletedBefore) as Array<{ id: string; name: string }>;
+
+  if (rows.length === 0) return [];
+
+  const statements = [
+    db.prepare(`DELETE FROM project_snapshots WHERE project_id = ?`),
+    db.prepare(`DELETE FROM project_resources WHERE project_id = ?`),
+    db.prepare(`DELETE FROM project_secrets WHERE project_id = ?`),
+    db.prepare(`DELETE FROM sent_alerts WHERE project_id = ?`),
+    db.prepare(`UPDATE stripe_accounts SET project_id = NULL WHERE project_id = ?`),
+    db.prepare(`DELETE FROM projects WHERE id = ?`),
+  ];
+
+  db.transaction(() => {
+    for (const row of rows) {
+      for (const stmt of statements) stmt.run(row.id);
+    }
+  })();
+
+  return rows;
+}
+
+// approval_args rows hold secret tool arguments of a pending approval, keyed by the approval ID in `name`.
+export type ProjectSecretKind = 'discord_webhook' | 'approval_args';
+
+function projectSecretContext(id: string): string {
+  return `project_secrets:${id}`;
+}
+
+function insertProjectSecret(
+  database: Database.Database,
+  projectId: string,
+  kind: ProjectSecretKind,
+  name: string,
+  value: string
+): string {
+  const id = uuidv4();
+  const { ciphertext, keyVersion } = encryptSecret(value, projectSecretContext(id));
+  database.prepare(`
+    INSERT INTO project_secrets (id, project_id, kind, name, value_encrypted, key_version, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).run(id, projectId, kind, name, ciphertext, keyVersion, Date.now());
+  return id;
+}
+
+// Returns the new secret's ID, which is what project records store in place of the value.
+export function saveProjectSecret(projectId: string, kind: ProjectSecretKind, name: string, value: string): string {
+  return insertProjectSecret(getDatabase(), projectId, kind, name, value);
+}
+
+export function loadProjectSecret(id: string): string | null {
+  const db = getDatabase();
+  const row = db.prepare(`
+    SELECT value_encrypted, key_version FROM project_secrets WHERE id = ?
+  `).get(id) as { value_encrypted: string; key_version: number } | undefined;
+
+  if (!row) return null;
+
+  try {
+    return decryptSecret(row.value_encrypted, row.key_version, projectSecretContext(id));
+  } catch (error) {
+    console.error(`[SQLite] Could not decrypt project secret ${id}:`, error);
+    return null;
+  }
+}
+
+// Secret arguments are only needed while an approval can still run.
+export function deleteResolvedApprovalSecrets(): number {
+  const db = getDatabase();
+  return db.prepare(`
+    DELETE FROM project_secrets
+    WHERE kind = 'approval_args'
+      AND name NOT IN (SELECT id FROM pending_approvals WHERE status = 'pending')
+  `).run().changes;
+}
+
+export function deleteProjectSecrets(ids: string[]): number {
+  const db = getDatabase();
+  const stmt = db.prepare(`DELETE FROM project_secrets WHERE id = ?`);
+  let deleted = 0;
+  db.transaction(() => {
+    for (const id of ids) deleted += stmt.run(id).changes;
+  })();
+  return deleted;
+}
+
+function reencryptProjectSecrets(database: Database.Database): void {
+  const currentVersion = getCurrentKeyVersion();
+  const rows = database.prepare(`
+    SELECT id, value_encrypted, key_version FROM project_secrets WHERE key_version != ?
+  `).all(currentVersion) as Array<{ id: string; value_encrypted: string; key_version: number }>;
+
+  if (rows.length === 0) return;
+
+  const update = database.prepare(`UPDATE project_secrets SET value_encrypted = ?, key_version = ? WHERE id = ?`);
+  let migrated = 0;
+  database.transaction(() => {
+    for (const row of rows) {
+      try {
+        const value = decryptSecret(row.value_encrypted, row.key_version, projectSecretContext(row.id));
+        const { ciphertext, keyVersion } = encryptSecret(value, projectSecretContext(row.id));
+        update.run(ciphertext, keyVersion, row.id);
+        migrated++;
+      } catch (error) {
+        console.error(`[SQLite] Could not re-encrypt project secret ${row.id}:`, error);
+      }
+    }
+  })();
+
+  console.log(`[SQLite] Re-encrypted ${migrated}/${rows.length} project secrets with key version ${currentVersion}`);
+}
+
+// Webhook URLs used to be stored in plain text on the Discord resource. They move into project_secrets,
+// and the copies kept in snapshots are dropped since the snapshots can't reference the new rows.
+function migrateWebhookUrls(database: Database.Database): void {
+  const rows = database.prepare(`
+    SELECT id, resources_json FROM projects
+    WHERE json_type(resources_json, '$.discord.webhooks') IS NOT NULL
+  `).all() as Array<{ id: string; resources_json: string }>;
+
+  const update = database.prepare(`UPDATE projects SET resources_json = ? WHERE id = ?`);
+  const scrubSnapshots = database.prepare(`
+    UPDATE project_snapshots
+    SET snapshot_json = json_remove(snapshot_json, '$.resources.discord.webhooks')
+    WHERE json_type(snapshot_json, '$.resources.discord.webhooks') IS NOT NULL
+  `);
+
+  const snapshots = database.transaction(() => {
+    for (const row of rows) {
+      const resources = JSON.parse(row.resources_json) as Record<string, unknown> & {
+        discord: { webhooks: Record<string, string>; webhookRefs?: Record<string, string> };
+      };
+      const { webhooks, ...discord } = resources.discord;
+      const webhookRefs: Record<string, string> = { ...discord.webhookRefs };
+      for (const [channel, url] of Object.entries(webhooks)) {
+        webhookRefs[channel] = insertProjectSecret(database, row.id, 'discord_webhook', channel, url);
+      }
+      update.run(JSON.stringify({ ...resources, discord: { ...discord, webhookRefs } }), row.id);
+    }
+    return scrubSnapshots.run().changes;
+  })();
+
+  if (rows.length > 0 || snapshots > 0) {
+    console.log(`[SQLite] Moved webhook URLs of ${rows.length} project(s) into project_secrets; scrubbed ${snapshots} snapshot(s)`);
+  }
+}
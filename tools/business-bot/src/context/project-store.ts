@@ -1,6 +1,17 @@
 import { LRUCache } from 'lru-cache';
 import { v4 as uuidv4 } from 'uuid';
-import type { Project, ProjectPlanning } from '../types';
+import type {
+  Project,
+  ProjectPlanning,
+  ProjectDomainResource,
+  ProjectGitHubResource,
+  AppliedDnsTemplate,
+  ProvisioningPlan,
+  SagaLog,
+  ProjectCleanupRun,
+  ProjectDiscordBlueprint,
+  DiscordMemberGroup,
+} from '../types';
 import * as sqlite from './persistence/sqlite';
 
 const PROJECT_CACHE_TTL_MS = 30 * 60 * 1000; // 30 minutes
@@ -94,6 +105,13 @@ export function updateProject(
   return updated;
 }
 
+// Writes a complete project as-is, keeping its ID; used when importing a manifest.
+export function saveProject(project: Project): Project {
+  sqlite.saveProject(project);
+  projectCache.set(project.id, project);
+  return project;
+}
+
 export function deleteProject(id: string): boolean {
   projectCache.delete(id);
   return sqlite.deleteProject(id);
@@ -129,9 +147,10 @@ export function addResearch(projectId: string, research: string): Project | null
 
 export function setApproval(
   projectId: string,
-  resourceType: 'domain' | 'repo' | 'discord',
+  resourceType: 'repo' | 'discord',
   approved: boolean,
-  approvedBy: string
+  approvedBy: string,
+  resourceKey?: string
 ): Project | null {
   const project = getProject(projectId);
   if (!project) return null;
@@ -144,6 +163,7 @@ export function setApproval(
         approved,
         approvedBy,
         approvedAt: Date.now(),
+        ...(resourceType === 'repo' ? { resourceKey: resourceKey ?? DEFAULT_RESOURCE_KEY } : {}),
       },
     },
   };
@@ -153,35 +173,129 @@ export function setApproval(
 
 export function hasApproval(
   projectId: string,
-  resourceType: 'domain' | 'repo' | 'discord'
+  resourceType: 'repo' | 'discord',
+  resourceKey?: string
 ): boolean {
   const project = getProject(projectId);
   if (!project) return false;
 
-  const approval = project.planning.approvals[resourceType];
-  return approval?.approved === true;
+  if (resourceType === 'repo') {
+    const approval = project.planning.approvals.repo;
+    return (
+      approval?.approved === true &&
+      (approval.resourceKey ?? DEFAULT_RESOURCE_KEY) === (resourceKey ?? DEFAULT_RESOURCE_KEY)
+    );
+  }
+
+  return project.planning.approvals.discord?.approved === true;
+}
+
+export const DEFAULT_RESOURCE_KEY = 'main';
+
+export function getDomainEntries(project: Project): Array<[string, ProjectDomainResource]> {
+  return Object.entries(project.resources.domains ?? {});
+}
+
+export function getRepoEntries(project: Project): Array<[string, ProjectGitHubResource]> {
+  return Object.entries(project.resources.github ?? {});
+}
+
+// Without a key, returns the "main" entry, or the first one when there's no "main".
+export function getDomain(project: Project, key?: string): ProjectDomainResource | undefined {
+  const domains = project.resources.domains ?? {};
+  return key ? domains[key] : domains[DEFAULT_RESOURCE_KEY] ?? Object.values(domains)[0];
+}
+
+export function getRepo(project: Project, key?: string): ProjectGitHubResource | undefined {
+  const repos = project.resources.github ?? {};
+  return key ? repos[key] : repos[DEFAULT_RESOURCE_KEY] ?? Object.values(repos)[0];
+}
+
+export function hasResources(project: Project): boolean {
+  return getDomainEntries(project).length > 0 || getRepoEntries(project).length > 0 || Boolean(project.resources.discord);
+}
+
+export function findProjectByDomain(domain: string): { project: Project; key: string } | null {
+  const name = domain.toLowerCase();
+  for (const project of listProjects()) {
+    if (project.status === 'deleted') continue;
+    const entry = getDomainEntries(project).find(([, d]) => d.name.toLowerCase() === name);
+    if (entry) return { project, key: entry[0] };
+  }
+  return null;
+}
+
+export function findProjectByRepo(fullName: string): { project: Project; key: string } | null {
+  const name = fullName.toLowerCase();
+  for (const project of listProjects()) {
+    if (project.status === 'deleted') continue;
+    const entry = getRepoEntries(project).find(([, r]) => `${r.owner}/${r.repo}`.toLowerCase() === name);
+    if (entry) return { project, key: entry[0] };
+  }
+  return null;
 }
 
 export function setDomainResource(
   projectId: string,
   domain: {
     name: string;
+    registrar: ProjectDomainResource['registrar'];
     registeredAt: number;
     expiresAt: number;
     autoRenew?: boolean;
-  }
+  },
+  key = DEFAULT_RESOURCE_KEY
 ): Project | null {
   const project = getProject(projectId);
   if (!project) return null;
 
+  const existing = project.resources.domains?.[key];
+
   return updateProject(projectId, {
     resources: {
       ...project.resources,
-      domain: {
-        name: domain.name,
-        registeredAt: domain.registeredAt,
-        expiresAt: domain.expiresAt,
-        autoRenew: domain.autoRenew ?? false,
+      domains: {
+        ...project.resources.domains,
+        [key]: {
+          name: domain.name,
+          registrar: domain.registrar,
+          registeredAt: domain.registeredAt,
+          expiresAt: domain.expiresAt,
+          autoRenew: domain.autoRenew ?? false,
+          // Templates describe records on this domain, so they only survive re-linking the same name.
+          dnsTemplates: existing?.name === domain.name ? existing.dnsTemplates : undefined,
+        },
+      },
+    },
+  });
+}
+
+export function addDnsTemplates(
+  projectId: string,
+  domainName: string,
+  templates: AppliedDnsTemplate[]
+): Project | null {
+  const project = getProject(projectId);
+  if (!project) return null;
+
+  const entry = getDomainEntries(project).find(([, d]) => d.name.toLowerCase() === domainName.toLowerCase());
+  if (!entry) return null;
+  const [key, domain] = entry;
+
+  const replaced = new Set(templates.map((t) => t.template));
+
+  return updateProject(projectId, {
+    resources: {
+      ...project.resources,
+      domains: {
+        ...project.resources.domains,
+        [key]: {
+          ...domain,
+          dnsTemplates: [
+            ...(domain.dnsTemplates ?? []).filter((t) => !replaced.has(t.template)),
+            ...templates,
+          ],
+        },
       },
     },
   });
@@ -195,20 +309,72 @@ export function setGitHubResource(
     url: string;
     forkedFrom?: string;
     isPrivate?: boolean;
-  }
+    variables?: Record<string, string>;
+  },
+  key = DEFAULT_RESOURCE_KEY
 ): Project | null {
   const project = getProject(projectId);
   if (!project) return null;
 
+  const existing = project.resources.github?.[key];
+
   return updateProject(projectId, {
     resources: {
       ...project.resources,
       github: {
-        owner: github.owner,
-        repo: github.repo,
-        url: github.url,
-        forkedFrom: github.forkedFrom,
-        isPrivate: github.isPrivate ?? false,
+        ...project.resources.github,
+        [key]: {
+          owner: github.owner,
+          repo: github.repo,
+          url: github.url,
+          forkedFrom: github.forkedFrom,
+          isPrivate: github.isPrivate ?? false,
+          variables: github.variables ?? existing?.variables,
+          // Secret timestamps belong to the repository, so they only survive re-linking the same one.
+          secretsSetAt:
+            existing?.owner === github.owner && existing.repo === github.repo ? existing.secretsSetAt : undefined,
+        },
+      },
+    },
+  });
+}
+
+export function setRepoVariables(
+  projectId: string,
+  key: string,
+  variables: Record<string, string>
+): Project | null {
+  const project = getProject(projectId);
+  const repo = project?.resources.github?.[key];
+  if (!project || !repo) return null;
+
+  return updateProject(projectId, {
+    resources: {
+      ...project.resources,
+      github: {
+        ...project.resources.github,
+        [key]: { ...repo, variables: { ...repo.variables, ...variables } },
+      },
+    },
+  });
+}
+
+export function recordSecretsSet(
+  projectId: string,
+  key: string,
+  names: string[],
+  at = Date.now()
+): Project | null {
+  const project = getProject(projectId);
+  const repo = project?.resources.github?.[key];
+  if (!project || !repo || names.length === 0) return project;
+
+  return updateProject(projectId, {
+    resources: {
+      ...project.resources,
+      github: {
+        ...project.resources.github,
+        [key]: { ...repo, secretsSetAt: { ...repo.secretsSetAt, ...Object.fromEntries(names.map((name) => [name, at])) } },
       },
     },
   });
@@ -222,12 +388,17 @@ export function setDiscordResource(
     inviteUrl?: string;
     channels?: string[];
     channelIds?: Record<string, string>;
-    webhooks?: Record<string, string>;
+    webhookRefs?: Record<string, string>;
+    roleIds?: Record<string, string>;
+    memberRoles?: Partial<Record<DiscordMemberGroup, string>>;
   }
 ): Project | null {
   const project = getProject(projectId);
   if (!project) return null;
 
+  const kept = new Set(Object.values(discord.webhookRefs ?? {}));
+  dropWebhookSecrets(project, (id) => !kept.has(id));
+
   return updateProject(projectId, {
     resources: {
       ...project.resources,
@@ -237,17 +408,58 @@ export function setDiscordResource(
         inviteUrl: discord.inviteUrl,
         channels: discord.channels ?? [],
         channelIds: discord.channelIds,
-        webhooks: discord.webhooks,
+        webhookRefs: discord.webhookRefs,
+        roleIds: discord.roleIds,
+        memberRoles: discord.memberRoles,
       },
     },
   });
 }
 
+function dropWebhookSecrets(project: Project, shouldDrop: (id: string) => boolean = () => true): void {
+  const ids = Object.values(project.resources.discord?.webhookRefs ?? {}).filter(shouldDrop);
+  if (ids.length > 0) sqlite.deleteProjectSecrets(ids);
+}
+
+export function getWebhookUrl(project: Project, channel: string): string | undefined {
+  const id = project.resources.discord?.webhookRefs?.[channel];
+  return (id && sqlite.loadProjectSecret(id)) || undefined;
+}
+
+// Webhook URLs by channel, decrypted from project_secrets. Only for code that has to hand the URL on.
+export function getWebhookUrls(project: Project): Record<string, string> {
+  const urls: Record<string, string> = {};
+  for (const channel of Object.keys(project.resources.discord?.webhookRefs ?? {})) {
+    const url = getWebhookUrl(project, channel);
+    if (url) urls[channel] = url;
+  }
+  return urls;
+}
+
+// Stores webhook URLs for the given channels, replacing any earlier URL for the same channel.
+export function setWebhookUrls(projectId: string, urls: Record<string, string>): Project | null {
+  const project = getProject(projectId);
+  const discord = project?.resources.discord;
+  if (!project || !discord) return null;
+
+  const webhookRefs = { ...discord.webhookRefs };
+  for (const [channel, url] of Object.entries(urls)) {
+    if (getWebhookUrl(project, channel) === url) continue;
+    webhookRefs[channel] = sqlite.saveProjectSecret(projectId, 'discord_webhook', channel, url);
+  }
+
+  return setDiscordResource(projectId, { ...discord, webhookRefs });
+}
+
 export function setProjectStatus(
   projectId: string,
   status: Project['status']
 ): Project | null {
-  return updateProject(projectId, { status });
+  const project = getProject(projectId);
+  if (!project) return null;
+
+  const deletedAt = status === 'deleted' ? project.deletedAt ?? Date.now() : undefined;
+  return updateProject(projectId, { status, deletedAt });
 }
 
 export function setBusinessPlan(
@@ -265,6 +477,118 @@ export function setBusinessPlan(
   return updateProject(projectId, { planning });
 }
 
+export function setProvisioningPlan(
+  projectId: string,
+  provisioningPlan: ProvisioningPlan | undefined
+): Project | null {
+  const project = getProject(projectId);
+  if (!project) return null;
+
+  const planning: ProjectPlanning = {
+    ...project.planning,
+    provisioningPlan,
+  };
+
+  return updateProject(projectId, { planning });
+}
+
+export function setProvisioningLog(
+  projectId: string,
+  provisioningLog: SagaLog | undefined
+): Project | null {
+  const project = getProject(projectId);
+  if (!project) return null;
+
+  const planning: ProjectPlanning = {
+    ...project.planning,
+    provisioningLog,
+  };
+
+  return updateProject(projectId, { planning });
+}
+
+export function setArchiveLog(
+  projectId: string,
+  archiveLog: SagaLog | undefined
+): Project | null {
+  const project = getProject(projectId);
+  if (!project) return null;
+
+  const planning: ProjectPlanning = {
+    ...project.planning,
+    archiveLog,
+  };
+
+  return updateProject(projectId, { planning });
+}
+
+export function setDiscordBlueprint(
+  projectId: string,
+  discordBlueprint: ProjectDiscordBlueprint | undefined
+): Project | null {
+  const project = getProject(projectId);
+  if (!project) return null;
+
+  const planning: ProjectPlanning = {
+    ...project.planning,
+    discordBlueprint,
+  };
+
+  return updateProject(projectId, { planning });
+}
+
+export function setCleanupRun(
+  projectId: string,
+  cleanup: ProjectCleanupRun | undefined
+): Project | null {
+  const project = getProject(projectId);
+  if (!project) return null;
+
+  const planning: ProjectPlanning = {
+    ...project.planning,
+    cleanup,
+  };
+
+  return updateProject(projectId, { planning });
+}
+
+export function purgeDeletedProjects(deletedBefore: number): Array<{ id: string; name: string }> {
+  const purged = sqlite.purgeDeletedProjects(deletedBefore);
+  for (const { id } of purged) {
+    projectCache.delete(id);
+  }
+  return purged;
+}
+
+// With a key, removes one entry from the domains or github collection; otherwise clears the whole resource.
+export function clearResource(
+  projectId: string,
+  resourceType: keyof Project['resources'],
+  key?: string
+): Project | null {
+  const project = getProject(projectId);
+  if (!project) return null;
+
+  if (key && resourceType !== 'discord') {
+    const { [key]: _removed, ...remaining } = project.resources[resourceType] ?? {};
+    return updateProject(projectId, {
+      resources: {
+        ...project.resources,
+        [resourceType]: Object.keys(remaining).length > 0 ? remaining : undefined,
+      },
+    });
+  }
+
+  if (resourceType === 'discord') dropWebhookSecrets(project);
+
+  return updateProject(projectId, {
+    resources: {
+      ...project.resources,
+      [resourceType]: undefined,
+    },
+  });
+}
+
 export function getActiveProjects(): Project[] {
   return listProjects('active');
 }
@@ -275,8 +599,5 @@ export function getPlanningProjects(): Project[] {
 
 export function getProjectsWithResources(): Project[] {
   const allProjects = listProjects();
-  return allProjects.filter((p) => {
-    const { resources } = p;
-    return resources.domain || resources.github || resources.discord;
-  });
+  return allProjects.filter(hasResources);
 }
@@ -7,14 +7,23 @@ import {
   ThreadChannel,
   ChannelType,
   EmbedBuilder,
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  type ButtonInteraction,
+  type ChatInputCommandInteraction,
   type GuildMember,
 } from 'discord.js';
 import { config, validateConfig } from './config';
 import { initDatabase, closeDatabase, isOwnedThread, saveOwnedThread } from './context/persistence/sqlite';
 import { hydrateFromDatabase } from './context/conversation-store';
-import { setDiscordClient } from './tools/discord/servers';
+import * as approvalStore from './context/approval-store';
+import { setDiscordClient, assignMemberRole } from './tools/discord/servers';
 import { handleMention } from './agent';
+import { approvalButtonId, parseApprovalButtonId, handleApprovalButton } from './agent/approvals';
 import * as projectStore from './context/project-store';
+import { commands, getCommand, handleCommand } from './commands';
+import { startJobs, stopJobs } from './jobs';
 import type { MessageContext, Project } from './types';
 
 const client = new Client({
@@ -157,15 +166,19 @@ async function handleMessage(message: Message): Promise<void> {
       await message.channel.sendTyping();
     }
 
-    const response = await handleMention(content, context);
+    const result = await handleMention(content, context);
+    const [firstBatch = [], ...moreBatches] = batchApprovalIds(result.approvalIds ?? []);
 
-    if (response.length > 2000) {
-      const chunks = splitMessage(response, 2000);
-      for (const chunk of chunks) {
-        await message.reply(chunk);
-      }
-    } else {
-      await message.reply(response);
+    const chunks = result.response.length > 2000
+      ? splitMessage(result.response, 2000)
+      : [result.response];
+
+    for (let i = 0; i < chunks.length; i++) {
+      const isLast = i === chunks.length - 1;
+      await message.reply({ content: chunks[i], components: isLast ? buildApprovalButtons(firstBatch) : [] });
+    }
+    for (const batch of moreBatches) {
+      await message.reply({ content: `Buttons for ${batch.join(', ')}:`, components: buildApprovalButtons(batch) });
     }
   } catch (error) {
     console.error('Error handling message:', error);
@@ -225,6 +238,129 @@ function splitMessage(content: string, maxLength: number): string[] {
   return chunks;
 }
 
+// A message holds at most five rows of buttons, one row per approval.
+const APPROVALS_PER_MESSAGE = 5;
+
+function batchApprovalIds(approvalIds: string[]): string[][] {
+  const batches: string[][] = [];
+  for (let i = 0; i < approvalIds.length; i += APPROVALS_PER_MESSAGE) {
+    batches.push(approvalIds.slice(i, i + APPROVALS_PER_MESSAGE));
+  }
+  return batches;
+}
+
+function buildApprovalButtons(approvalIds: string[]): ActionRowBuilder<ButtonBuilder>[] {
+  return approvalIds.map((id) =>
+    new ActionRowBuilder<ButtonBuilder>().addComponents(
+      new ButtonBuilder()
+        .setCustomId(approvalButtonId('approve', id))
+        .setLabel(`Approve ${id}`)
+        .setStyle(ButtonStyle.Success),
+      new ButtonBuilder()
+        .setCustomId(approvalButtonId('reject', id))
+        .setLabel('Reject')
+        .setStyle(ButtonStyle.Danger),
+      new ButtonBuilder()
+        .setCustomId(approvalButtonId('modify', id))
+        .setLabel('Modify')
+        .setStyle(ButtonStyle.Secondary)
+    )
+  );
+}
+
+// Each button row belongs to one approval; its first button's ID says which.
+function approvalIdsOnMessage(interaction: ButtonInteraction): string[] {
+  return interaction.message.components.flatMap((row) => {
+    const button = 'components' in row ? row.components[0] : undefined;
+    const customId = button && 'customId' in button ? button.customId : null;
+    const approvalId = customId ? parseApprovalButtonId(customId)?.approvalId : undefined;
+    return approvalId ? [approvalId] : [];
+  });
+}
+
+async function handleApprovalInteraction(interaction: ButtonInteraction): Promise<void> {
+  const parsed = parseApprovalButtonId(interaction.customId);
+  if (!parsed) return;
+
+  await interaction.deferUpdate();
+
+  const result = await handleApprovalButton(parsed.action, parsed.approvalId, {
+    authorId: interaction.user.id,
+    authorName: interaction.user.displayName ?? interaction.user.username,
+  });
+
+  if (!result.stillPending) {
+    // Keep the rows of the other approvals on this message that are still waiting.
+    const remaining = approvalIdsOnMessage(interaction).filter(
+      (id) => id !== parsed.approvalId && approvalStore.getApproval(id)?.status === 'pending'
+    );
+    await interaction.editReply({ components: buildApprovalButtons(remaining) });
+  }
+
+  for (const chunk of splitMessage(result.response, 2000)) {
+    await interaction.followUp({ content: chunk, ephemeral: result.ephemeral });
+  }
+}
+
+async function handleCommandInteraction(interaction: ChatInputCommandInteraction): Promise<void> {
+  const command = getCommand(interaction.commandName);
+  if (!command) {
+    await interaction.reply({ content: `Unknown command: /${interaction.commandName}`, ephemeral: true });
+    return;
+  }
+
+  const ephemeral = command.ephemeral ?? false;
+  await interaction.deferReply({ ephemeral });
+
+  // Once deferred, the reply has to be edited or the user is left looking at "thinking…".
+  try {
+    const response = await handleCommand(command, interaction);
+    const chunks = splitMessage(response, 2000);
+
+    await interaction.editReply({ content: chunks[0] });
+    for (const chunk of chunks.slice(1)) {
+      await interaction.followUp({ content: chunk, ephemeral });
+    }
+  } catch (error) {
+    console.error(`[BusinessBot] /${interaction.commandName} failed:`, error);
+    await interaction.editReply({ content: 'Sorry, I encountered an error. Please try again.' });
+  }
+}
+
+async function registerCommands(): Promise<void> {
+  if (!client.application) return;
+
+  await client.application.commands.set(commands.map((command) => command.data.toJSON()));
+  console.log(`[BusinessBot] Registered ${commands.length} slash command(s)`);
+}
+
+async function announceOutstandingApprovals(): Promise<void> {
+  const outstanding = approvalStore.listPendingApprovals();
+
+  for (const approval of outstanding) {
+    try {
+      const channel = await client.channels.fetch(approval.contextKey);
+      if (!channel || !channel.isTextBased() || !('send' in channel)) continue;
+
+      const minutesLeft = Math.max(1, Math.round((approval.expiresAt - Date.now()) / 60000));
+
+      await channel.send({
+        content:
+          `I restarted, but approval **${approval.id}** is still waiting on you (expires in ${minutesLeft} min):\n\n` +
+          `${approval.prompt}\n\n` +
+          `_Use the buttons below, or reply \`approve ${approval.id}\` or \`reject ${approval.id}\`._`,
+        components: buildApprovalButtons([approval.id]),
+      });
+    } catch (error) {
+      console.error(`[BusinessBot] Failed to re-announce approval ${approval.id}:`, error);
+    }
+  }
+
+  if (outstanding.length > 0) {
+    console.log(`[BusinessBot] Re-announced ${outstanding.length} outstanding approval(s)`);
+  }
+}
+
 client.once(Events.ClientReady, async (readyClient) => {
   console.log(`[BusinessBot] Logged in as ${readyClient.user.tag}`);
 
@@ -237,6 +373,12 @@ client.once(Events.ClientReady, async (readyClient) => {
 
     setDiscordClient(client);
     console.log('[BusinessBot] Discord client registered for tools');
+
+    await registerCommands();
+
+    await announceOutstandingApprovals();
+
+    startJobs(client);
   } catch (error) {
     console.error('[BusinessBot] Initialization error:', error);
   }
@@ -253,6 +395,18 @@ client.on(Events.MessageCreate, async (message) => {
   }
 });
 
+client.on(Events.InteractionCreate, async (interaction) => {
+  try {
+    if (interaction.isChatInputCommand()) {
+      await handleCommandInteraction(interaction);
+    } else if (interaction.isButton()) {
+      await handleApprovalInteraction(interaction);
+    }
+  } catch (error) {
+    console.error('[BusinessBot] Interaction handler error:', error);
+  }
+});
+
 function buildProductBotOnboardingEmbed(project: Project): EmbedBuilder {
   const embed = new EmbedBuilder()
     .setColor(0x57F287)
@@ -279,18 +433,22 @@ function buildProductBotOnboardingEmbed(project: Project): EmbedBuilder {
     });
   }
 
-  if (project.resources.github) {
+  const repos = Object.entries(project.resources.github ?? {});
+  if (repos.length > 0) {
     embed.addFields({
-      name: 'Repository',
-      value: `[${project.resources.github.owner}/${project.resources.github.repo}](${project.resources.github.url})`,
+      name: repos.length > 1 ? 'Repositories' : 'Repository',
+      value: repos
+        .map(([key, repo]) => `[${repo.owner}/${repo.repo}](${repo.url})${repos.length > 1 ? ` (${key})` : ''}`)
+        .join('\n'),
       inline: true,
     });
   }
 
-  if (project.resources.domain) {
+  const domains = Object.entries(project.resources.domains ?? {});
+  if (domains.length > 0) {
     embed.addFields({
-      name: 'Domain',
-      value: project.resources.domain.name,
+      name: domains.length > 1 ? 'Domains' : 'Domain',
+      value: domains.map(([key, domain]) => `${domain.name}${domains.length > 1 ? ` (${key})` : ''}`).join('\n'),
       inline: true,
     });
   }
@@ -350,6 +508,13 @@ async function handleProductBotJoin(member: GuildMember): Promise<void> {
 }
 
 client.on(Events.GuildMemberAdd, async (member) => {
+  try {
+    const role = await assignMemberRole(member);
+    if (role) console.log(`[BusinessBot] Gave ${member.user.tag} the ${role} role in ${member.guild.name}`);
+  } catch (error) {
+    console.error('[BusinessBot] Failed to assign member role:', error);
+  }
+
   try {
     await handleProductBotJoin(member);
   } catch (error) {
@@ -360,6 +525,8 @@ client.on(Events.GuildMemberAdd, async (member) => {
 async function shutdown(signal: string): Promise<void> {
   console.log(`\n[BusinessBot] Received ${signal}, shutting down gracefully...`);
 
+  stopJobs();
+
   try {
     closeDatabase();
     console.log('[BusinessBot] Database closed');
@@ -0,0 +1,155 @@
+import { config } from '../config';
+import type { OwnedDomain, Project, ProjectDomainResource, RegistrarId } from '../types';
+import * as projectStore from '../context/project-store';
+import * as sqlite from '../context/persistence/sqlite';
+import { getRegistrar, listRegistrarIds } from '../services/registrar';
+import type { ScheduledJob, SendAlert } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const EXPIRY_ALERT_DAYS = [60, 30, 7];
+
+interface OwnedEntry {
+  registrar: RegistrarId;
+  owned: OwnedDomain;
+}
+
+export interface DomainExpiryReport {
+  alertsSent: number;
+  untracked: string[];
+  failedRegistrars: RegistrarId[];
+}
+
+// Returns the tightest threshold the domain has crossed, e.g. 30 when 12 days are left.
+export function expiryThreshold(daysLeft: number): number | undefined {
+  return [...EXPIRY_ALERT_DAYS].sort((a, b) => a - b).find((days) => daysLeft <= days);
+}
+
+async function loadOwnedDomains(): Promise<{ owned: Map<string, OwnedEntry>; failed: RegistrarId[] }> {
+  const owned = new Map<string, OwnedEntry>();
+  const failed: RegistrarId[] = [];
+
+  for (const registrar of listRegistrarIds()) {
+    try {
+      for (const domain of await getRegistrar(registrar).listDomains()) {
+        owned.set(domain.domain.toLowerCase(), { registrar, owned: domain });
+      }
+    } catch (error) {
+      console.error(`[Jobs] Failed to list domains from ${registrar}:`, error);
+      failed.push(registrar);
+    }
+  }
+
+  return { owned, failed };
+}
+
+// The registrar is the source of truth for expiry and auto-renew; keep the project copy in step.
+function syncDomainResource(
+  project: Project,
+  key: string,
+  domain: ProjectDomainResource,
+  entry: OwnedEntry
+): ProjectDomainResource {
+  const expiresAt = Date.parse(entry.owned.expires);
+  if (Number.isNaN(expiresAt)) return domain;
+  if (domain.expiresAt === expiresAt && domain.autoRenew === entry.owned.autoRenew) return domain;
+
+  const updated = projectStore.setDomainResource(
+    project.id,
+    {
+      name: domain.name,
+      registrar: domain.registrar,
+      registeredAt: domain.registeredAt,
+      expiresAt,
+      autoRenew: entry.owned.autoRenew,
+    },
+    key
+  );
+  return (updated && projectStore.getDomain(updated, key)) ?? domain;
+}
+
+export async function checkDomainExpiry(send: SendAlert, now = Date.now()): Promise<DomainExpiryReport> {
+  const { owned, failed } = await loadOwnedDomains();
+  const alertChannelId = config.jobs.alertChannelId;
+  const tracked = new Set<string>();
+  let alertsSent = 0;
+
+  const entries = projectStore
+    .listProjects()
+    .filter((p) => p.status !== 'deleted')
+    .flatMap((p) => projectStore.getDomainEntries(p).map(([key, domain]) => ({ project: p, key, domain })));
+
+  for (const { project, key, domain: stored } of entries) {
+    const name = stored.name.toLowerCase();
+    tracked.add(name);
+
+    const entry = owned.get(name);
+    const domain = entry ? syncDomainResource(project, key, stored, entry) : stored;
+
+    const { expiresAt, autoRenew } = domain;
+    if (autoRenew || !expiresAt) continue;
+
+    const daysLeft = Math.ceil((expiresAt - now) / DAY_MS);
+    const threshold = expiryThreshold(daysLeft);
+    if (threshold === undefined) continue;
+
+    const alertKey = `domain_expiry:${name}:${expiresAt}:${threshold}`;
+    if (sqlite.hasSentAlert(alertKey)) continue;
+
+    const channelId = project.planning.threadId ?? alertChannelId;
+    if (!channelId) {
+      console.warn(`[Jobs] ${domain.name} expires in ${daysLeft} day(s) but there is nowhere to send the alert`);
+      continue;
+    }
+
+    const when = daysLeft > 0 ? `expires in **${daysLeft} day(s)**` : '**has expired**';
+    try {
+      await send(
+        channelId,
+        `⏰ **${domain.name}** (project **${project.name}**) ${when} on ${new Date(expiresAt).toISOString().slice(0, 10)} ` +
+          `and auto-renew is off. Renew it with ${domain.registrar === 'external' ? 'its registrar' : domain.registrar} ` +
+          'or turn on auto-renew.'
+      );
+      sqlite.recordSentAlert(alertKey, project.id, channelId);
+      alertsSent++;
+    } catch (error) {
+      console.error(`[Jobs] Failed to send expiry alert for ${domain.name}:`, error);
+    }
+  }
+
+  const untracked = [...owned.keys()].filter((name) => !tracked.has(name)).sort();
+  const unannounced = untracked.filter((name) => !sqlite.hasSentAlert(`untracked_domain:${name}`));
+
+  if (unannounced.length > 0) {
+    if (alertChannelId) {
+      await send(
+        alertChannelId,
+        `🔎 These domains are registered but not tracked by any project:\n` +
+          unannounced.map((name) => `- ${name} (${owned.get(name)!.registrar})`).join('\n') +
+          '\n\nAttach them with `project_set_domain`, or let them lapse.'
+      );
+      for (const name of unannounced) {
+        sqlite.recordSentAlert(`untracked_domain:${name}`, undefined, alertChannelId);
+      }
+      alertsSent++;
+    } else {
+      console.warn(`[Jobs] Untracked domains (set BOT_ALERT_CHANNEL_ID to be alerted): ${unannounced.join(', ')}`);
+    }
+  }
+
+  return { alertsSent, untracked, failedRegistrars: failed };
+}
+
+export const domainExpiryJob: ScheduledJob = {
+  name: 'domain-expiry',
+  get intervalMs() {
+    return config.jobs.domainExpiryIntervalHours * 60 * 60 * 1000;
+  },
+  async run(send, now) {
+    const report = await checkDomainExpiry(send, now);
+    console.log(
+      `[Jobs] Domain expiry check: ${report.alertsSent} alert(s), ${report.untracked.length} untracked domain(s)` +
+        (report.failedRegistrars.length > 0 ? `, failed: ${report.failedRegistrars.join(', ')}` : '')
+    );
+  },
+};
@@ -0,0 +1,48 @@
+import type { Client } from 'discord.js';
+import type { ScheduledJob, SendAlert } from './types';
+import { domainExpiryJob } from './domain-expiry';
+import { projectRetentionJob } from './project-retention';
+import { secretRotationJob } from './secret-rotation';
+import { templateConfigJob } from './template-config';
+
+export const jobs: ScheduledJob[] = [domainExpiryJob, projectRetentionJob, secretRotationJob, templateConfigJob];
+
+const timers: NodeJS.Timeout[] = [];
+const running = new Set<string>();
+
+async function runJob(job: ScheduledJob, send: SendAlert): Promise<void> {
+  // A slow registrar can make a run outlast its interval; skip rather than overlap.
+  if (running.has(job.name)) return;
+
+  running.add(job.name);
+  try {
+    await job.run(send, Date.now());
+  } catch (error) {
+    console.error(`[Jobs] ${job.name} failed:`, error);
+  } finally {
+    running.delete(job.name);
+  }
+}
+
+export function startJobs(client: Client): void {
+  const send: SendAlert = async (channelId, content) => {
+    const channel = await client.channels.fetch(channelId);
+    if (!channel || !channel.isTextBased() || !('send' in channel)) {
+      throw new Error(`Channel ${channelId} can't receive alerts`);
+    }
+    await channel.send(content);
+  };
+
+  for (const job of jobs) {
+    void runJob(job, send);
+    timers.push(setInterval(() => void runJob(job, send), job.intervalMs));
+  }
+
+  console.log(`[Jobs] Scheduled ${jobs.length} job(s): ${jobs.map((j) => j.name).join(', ')}`);
+}
+
+export function stopJobs(): void {
+  for (const timer of timers.splice(0)) {
+    clearInterval(timer);
+  }
+}
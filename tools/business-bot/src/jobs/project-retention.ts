@@ -0,0 +1,34 @@
+import { config } from '../config';
+import * as projectStore from '../context/project-store';
+import type { ScheduledJob, SendAlert } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Purges projects that have been marked deleted for longer than the retention period.
+export async function purgeExpiredProjects(
+  send: SendAlert,
+  now: number
+): Promise<Array<{ id: string; name: string }>> {
+  const cutoff = now - config.jobs.deletedProjectRetentionDays * DAY_MS;
+  const purged = projectStore.purgeDeletedProjects(cutoff);
+
+  const channelId = config.jobs.alertChannelId;
+  if (purged.length > 0 && channelId) {
+    await send(
+      channelId,
+      `🗑️ Purged ${purged.length} deleted project(s) past the ${config.jobs.deletedProjectRetentionDays}-day retention period: ` +
+        purged.map((p) => `**${p.name}**`).join(', ')
+    );
+  }
+
+  return purged;
+}
+
+export const projectRetentionJob: ScheduledJob = {
+  name: 'project-retention',
+  intervalMs: DAY_MS,
+  async run(send, now) {
+    const purged = await purgeExpiredProjects(send, now);
+    console.log(`[Jobs] Project retention: purged ${purged.length} project(s)`);
+  },
+};
@@ -0,0 +1,58 @@
+import { config } from '../config';
+import * as projectStore from '../context/project-store';
+import * as sqlite from '../context/persistence/sqlite';
+import { listSecretAges } from '../tools/project/rotation';
+import type { ScheduledJob, SendAlert } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Sends one reminder per project for the secrets past the maximum age, and again only when that set changes.
+export async function remindStaleSecrets(send: SendAlert, now: number): Promise<number> {
+  const maxAgeDays = config.jobs.secretMaxAgeDays;
+  const cutoff = now - maxAgeDays * DAY_MS;
+  let alertsSent = 0;
+
+  const projects = projectStore.listProjects().filter((p) => p.status !== 'deleted' && p.status !== 'archived');
+
+  for (const project of projects) {
+    const stale = listSecretAges(project)
+      .filter((secret) => secret.setAt < cutoff)
+      .sort((a, b) => a.setAt - b.setAt);
+    if (stale.length === 0) continue;
+
+    const alertKey = `secret_age:${project.id}:${stale.map((s) => `${s.label}@${s.setAt}`).join(',')}`;
+    if (sqlite.hasSentAlert(alertKey)) continue;
+
+    const channelId = project.planning.threadId ?? config.jobs.alertChannelId;
+    if (!channelId) {
+      console.warn(`[Jobs] ${project.name} has ${stale.length} secret(s) to rotate but there is nowhere to send the reminder`);
+      continue;
+    }
+
+    try {
+      await send(
+        channelId,
+        `🔑 **${project.name}** has secrets older than ${maxAgeDays} days:\n` +
+          stale
+            .map((s) => `- ${s.label} (set ${new Date(s.setAt).toISOString().slice(0, 10)}, ${Math.floor((now - s.setAt) / DAY_MS)} days ago)`)
+            .join('\n') +
+          '\n\nAsk me to rotate them with `project_rotate_secrets`.'
+      );
+      sqlite.recordSentAlert(alertKey, project.id, channelId);
+      alertsSent++;
+    } catch (error) {
+      console.error(`[Jobs] Failed to send secret rotation reminder for ${project.name}:`, error);
+    }
+  }
+
+  return alertsSent;
+}
+
+export const secretRotationJob: ScheduledJob = {
+  name: 'secret-rotation',
+  intervalMs: DAY_MS,
+  async run(send, now) {
+    const sent = await remindStaleSecrets(send, now);
+    console.log(`[Jobs] Secret rotation check: ${sent} reminder(s)`);
+  },
+};
@@ -0,0 +1,59 @@
+import { config } from '../config';
+import * as projectStore from '../context/project-store';
+import * as sqlite from '../context/persistence/sqlite';
+import { loadTemplateConfig, diffTemplateConfig, differsFromTemplate, formatTemplateDiff } from '../tools/github/template-sync';
+import type { ScheduledJob, SendAlert } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Posts each project's repos whose secret or variable names differ from the template, and again only when the
+// differences change.
+export async function checkTemplateConfig(send: SendAlert): Promise<number> {
+  const projects = projectStore
+    .listProjects()
+    .filter((p) => p.status !== 'deleted' && p.status !== 'archived' && projectStore.getRepoEntries(p).length > 0);
+  if (projects.length === 0) return 0;
+
+  const template = await loadTemplateConfig();
+  let alertsSent = 0;
+
+  for (const project of projects) {
+    const diffs = (await diffTemplateConfig(project, template)).filter(differsFromTemplate);
+    if (diffs.length === 0) continue;
+
+    const report = diffs.map(formatTemplateDiff);
+    const missing = diffs.some((d) => d.missingSecrets.length > 0 || d.missingVariables.length > 0);
+    const alertKey = `template_config:${project.id}:${report.join('|')}`;
+    if (sqlite.hasSentAlert(alertKey)) continue;
+
+    const channelId = project.planning.threadId ?? config.jobs.alertChannelId;
+    if (!channelId) {
+      console.warn(`[Jobs] ${project.name} differs from the template but there is nowhere to send the alert`);
+      continue;
+    }
+
+    try {
+      await send(
+        channelId,
+        `🧩 **${project.name}** has drifted from the template ${config.github.templateRepo}:\n` +
+          report.map((line) => `- ${line}`).join('\n') +
+          (missing ? '\n\nAsk me to add the missing entries with `github_sync_template_config`.' : '')
+      );
+      sqlite.recordSentAlert(alertKey, project.id, channelId);
+      alertsSent++;
+    } catch (error) {
+      console.error(`[Jobs] Failed to send template config alert for ${project.name}:`, error);
+    }
+  }
+
+  return alertsSent;
+}
+
+export const templateConfigJob: ScheduledJob = {
+  name: 'template-config',
+  intervalMs: DAY_MS,
+  async run(send) {
+    const sent = await checkTemplateConfig(send);
+    console.log(`[Jobs] Template config check: ${sent} alert(s)`);
+  },
+};
@@ -0,0 +1,7 @@
+export type SendAlert = (channelId: string, content: string) => Promise<void>;
+
+export interface ScheduledJob {
+  name: string;
+  intervalMs: number;
+  run(send: SendAlert, now: number): Promise<void>;
+}
@@ -0,0 +1,190 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  NamecheapApiError,
+  classifyNamecheapError,
+  parseApiResponse,
+  parseDomainCheck,
+  parseDomainList,
+  parseDomainInfo,
+  parseDomainCreate,
+  parseDnsHosts,
+  parseTldPrice,
+} from '../namecheap-response';
+import { parseXml, findAll } from '../xml';
+
+function fixture(name: string): string {
+  return fs.readFileSync(path.join(__dirname, 'fixtures', 'namecheap', name), 'utf8');
+}
+
+function captureError(fn: () => unknown): NamecheapApiError {
+  try {
+    fn();
+  } catch (error) {
+    if (error instanceof NamecheapApiError) return error;
+    throw error;
+  }
+  throw new Error('Expected a NamecheapApiError');
+}
+
+describe('namecheap-response', () => {
+  describe('parseDomainCheck', () => {
+    test('returns every result regardless of attribute order', () => {
+      const results = parseDomainCheck(fixture('domains-check.xml'));
+
+      expect(results.map((r) => [r.domain, r.available])).toEqual([
+        ['acmewidgets.com', false],
+        ['acmewidgets.io', true],
+        ['acme.dev', true],
+      ]);
+    });
+
+    test('carries premium pricing from the check response', () => {
+      const premium = parseDomainCheck(fixture('domains-check.xml')).find((r) => r.domain === 'acme.dev');
+
+      expect(premium).toMatchObject({ price: 1288, icannFee: 0.2, currency: 'USD' });
+    });
+
+    test('leaves standard names unpriced', () => {
+      const standard = parseDomainCheck(fixture('domains-check.xml')).find((r) => r.domain === 'acmewidgets.io');
+
+      expect(standard?.price).toBeUndefined();
+    });
+  });
+
+  describe('parseDomainList', () => {
+    test('parses domains and paging', () => {
+      const page = parseDomainList(fixture('domains-getList.xml'));
+
+      expect(page.totalItems).toBe(2);
+      expect(page.currentPage).toBe(1);
+      expect(page.pageSize).toBe(100);
+      expect(page.domains).toEqual([
+        {
+          domain: 'acmewidgets.io',
+          created: '03/14/2025',
+          expires: '03/14/2026',
+          isExpired: false,
+          isLocked: false,
+          autoRenew: true,
+          whoisGuard: 'ENABLED',
+        },
+        {
+          domain: 'old-idea.net',
+          created: '01/02/2023',
+          expires: '01/02/2025',
+          isExpired: true,
+          isLocked: true,
+          autoRenew: false,
+          whoisGuard: 'NOTPRESENT',
+        },
+      ]);
+    });
+  });
+
+  describe('parseDomainInfo', () => {
+    test('reads dates from DomainDetails and nameservers from DnsDetails', () => {
+      expect(parseDomainInfo(fixture('domains-getInfo.xml'), 'acmewidgets.io')).toEqual({
+        domain: 'acmewidgets.io',
+        created: '03/14/2025',
+        expires: '03/14/2026',
+        status: 'Ok',
+        nameservers: ['dns1.registrar-servers.com', 'dns2.registrar-servers.com'],
+      });
+    });
+  });
+
+  describe('parseDnsHosts', () => {
+    test('parses every host record and decodes entities', () => {
+      const records = parseDnsHosts(fixture('dns-getHosts.xml'));
+
+      expect(records).toHaveLength(4);
+      expect(records[0]).toEqual({ hostName: '@', type: 'A', address: '76.76.21.21', ttl: 1800, mxPref: undefined });
+      expect(records[3].address).toBe('v=spf1 include:spf.privateemail.com & ~all');
+    });
+
+    test('keeps MX preference only on MX records', () => {
+      const records = parseDnsHosts(fixture('dns-getHosts.xml'));
+      const mx = records.find((r) => r.type === 'MX');
+
+      expect(mx).toEqual({ hostName: '@', type: 'MX', address: 'mx1.privateemail.com.', ttl: 3600, mxPref: 5 });
+      expect(records.filter((r) => r.type !== 'MX').every((r) => r.mxPref === undefined)).toBe(true);
+    });
+  });
+
+  describe('parseDomainCreate', () => {
+    test('parses the registration result', () => {
+      expect(parseDomainCreate(fixture('domains-create.xml'), 'acmewidgets.io')).toEqual({
+        success: true,
+        domain: 'acmewidgets.io',
+        orderId: '8812345',
+        transactionId: '17654321',
+        chargedAmount: 34.98,
+      });
+    });
+  });
+
+  describe('parseTldPrice', () => {
+    test('picks the one-year price even when it is not listed first', () => {
+      expect(parseTldPrice(fixture('users-getPricing.xml'), 'io')).toEqual({ price: 34.98, icannFee: 0.2 });
+    });
+
+    test('returns nothing for a TLD missing from the response', () => {
+      expect(parseTldPrice(fixture('users-getPricing.xml'), 'com')).toEqual({});
+    });
+  });
+
+  describe('errors', () => {
+    test('identifies a non-whitelisted IP', () => {
+      const error = captureError(() => parseApiResponse(fixture('error-ip-not-whitelisted.xml')));
+
+      expect(error.code).toBe('1011150');
+      expect(error.kind).toBe('ip_not_whitelisted');
+      expect(error.message).toBe('Invalid request IP: 203.0.113.7 (Namecheap error 1011150)');
+    });
+
+    test('identifies a domain that is already taken', () => {
+      const error = captureError(() => parseDomainCreate(fixture('error-domain-taken.xml'), 'acmewidgets.com'));
+
+      expect(error.code).toBe('3019166');
+      expect(error.kind).toBe('domain_unavailable');
+      expect(error.command).toBe('namecheap.domains.create');
+    });
+
+    test('identifies insufficient funds', () => {
+      const error = captureError(() => parseDomainCreate(fixture('error-insufficient-funds.xml'), 'acmewidgets.io'));
+
+      expect(error.kind).toBe('insufficient_funds');
+    });
+
+    test('keeps every error in the list', () => {
+      const error = captureError(() => parseApiResponse(fixture('error-multiple.xml')));
+
+      expect(error.errors).toEqual([
+        { number: '2015182', message: 'Contact phone is invalid. The phone number format is +NNN.NNNNNNNNNN' },
+        { number: '2011280', message: 'Validation error on TechEmailAddress: <empty>' },
+      ]);
+      expect(error.code).toBe('2015182');
+      expect(error.kind).toBe('invalid_request');
+    });
+
+    test('falls back to the error number range', () => {
+      expect(classifyNamecheapError({ number: '3031510', message: 'Error response from provider' })).toBe('provider');
+      expect(classifyNamecheapError({ number: '5050900', message: 'Unknown error' })).toBe('unknown');
+    });
+  });
+});
+
+describe('xml', () => {
+  test('parses self-closing tags, CDATA and comments', () => {
+    const document = parseXml('<?xml version="1.0"?><a><!-- note --><b x=\'1\'/><b x="2"><![CDATA[<raw>]]></b></a>');
+    const items = findAll(document, 'b');
+
+    expect(items.map((b) => b.attributes.x)).toEqual(['1', '2']);
+    expect(items[1].text).toBe('<raw>');
+  });
+
+  test('rejects mismatched tags', () => {
+    expect(() => parseXml('<a><b></a>')).toThrow('Malformed XML');
+  });
+});
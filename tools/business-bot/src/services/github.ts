@@ -262,6 +262,7 @@ export async function updateRepository(
     homepage?: string;
     isPrivate?: boolean;
     defaultBranch?: string;
+    archived?: boolean;
   }
 ): Promise<boolean> {
   const client = getOctokit();
@@ -275,6 +276,7 @@ export async function updateRepository(
       homepage: options.homepage,
       private: options.isPrivate,
       default_branch: options.defaultBranch,
+      archived: options.archived,
     });
     return true;
   } catch (error) {
@@ -517,23 +519,19 @@ export async function deleteRepositorySecret(
   }
 }
 
+// Listing errors are thrown rather than returned as an empty list, which would read as "no secrets set".
 export async function listRepositorySecrets(
   owner: string,
   repo: string
 ): Promise<string[]> {
   const client = getOctokit();
 
-  try {
-    const { data } = await client.actions.listRepoSecrets({
-      owner,
-      repo,
-    });
+  const { data } = await client.actions.listRepoSecrets({
+    owner,
+    repo,
+  });
 
-    return data.secrets.map((s) => s.name);
-  } catch (error) {
-    console.error('Failed to list secrets:', error);
-    return [];
-  }
+  return data.secrets.map((s) => s.name);
 }
 
 export async function setRepositoryVariable(
@@ -573,17 +571,12 @@ export async function listRepositoryVariables(
 ): Promise<Array<{ name: string; value: string }>> {
   const client = getOctokit();
 
-  try {
-    const { data } = await client.actions.listRepoVariables({
-      owner,
-      repo,
-    });
+  const { data } = await client.actions.listRepoVariables({
+    owner,
+    repo,
+  });
 
-    return data.variables.map((v) => ({ name: v.name, value: v.value }));
-  } catch (error) {
-    console.error('Failed to list variables:', error);
-    return [];
-  }
+  return data.variables.map((v) => ({ name: v.name, value: v.value }));
 }
 
 export interface PipelineSecrets {
@@ -0,0 +1,246 @@
+import type {
+  DomainAvailability,
+  OwnedDomain,
+  DomainDetails,
+  DomainRegistration,
+  DnsRecord,
+} from '../types';
+import {
+  parseXml,
+  findAll,
+  findFirst,
+  childrenNamed,
+  getAttribute,
+  textOf,
+  type XmlElement,
+} from './xml';
+
+export type NamecheapErrorKind =
+  | 'auth'
+  | 'ip_not_whitelisted'
+  | 'domain_unavailable'
+  | 'domain_not_found'
+  | 'insufficient_funds'
+  | 'invalid_request'
+  | 'provider'
+  | 'unknown';
+
+export interface NamecheapErrorDetail {
+  number: string;
+  message: string;
+}
+
+const ERROR_KINDS: Record<string, NamecheapErrorKind> = {
+  '1010101': 'auth',
+  '1010102': 'auth',
+  '1011102': 'auth',
+  '1017101': 'auth',
+  '1016103': 'auth',
+  '1017103': 'auth',
+  '1019103': 'auth',
+  '1011150': 'ip_not_whitelisted',
+  '1017105': 'ip_not_whitelisted',
+  '3019166': 'domain_unavailable',
+  '4019166': 'domain_unavailable',
+  '2019166': 'domain_not_found',
+  '2016166': 'domain_not_found',
+};
+
+export function classifyNamecheapError(detail: NamecheapErrorDetail): NamecheapErrorKind {
+  const known = ERROR_KINDS[detail.number];
+  if (known) return known;
+
+  if (/insufficient (funds|balance)/i.test(detail.message)) return 'insufficient_funds';
+  if (/request ?ip|whitelist/i.test(detail.message)) return 'ip_not_whitelisted';
+
+  // Namecheap groups error numbers by their first digit: 2 = bad input, 3 = upstream provider.
+  if (detail.number.startsWith('2')) return 'invalid_request';
+  if (detail.number.startsWith('3')) return 'provider';
+
+  return 'unknown';
+}
+
+export class NamecheapApiError extends Error {
+  readonly code: string;
+  readonly kind: NamecheapErrorKind;
+  readonly command?: string;
+  readonly errors: NamecheapErrorDetail[];
+
+  constructor(errors: NamecheapErrorDetail[], command?: string) {
+    const primary = errors[0] ?? { number: 'unknown', message: 'Unknown Namecheap API error' };
+    super(`${primary.message} (Namecheap error ${primary.number})`);
+    this.name = 'NamecheapApiError';
+    this.code = primary.number;
+    this.kind = classifyNamecheapError(primary);
+    this.command = command;
+    this.errors = errors;
+  }
+}
+
+function parseBool(value: string | undefined): boolean {
+  return value?.toLowerCase() === 'true';
+}
+
+function parseNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value.trim() === '') return undefined;
+  const parsed = parseFloat(value);
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+// Parses the ApiResponse envelope and throws NamecheapApiError when Status="ERROR".
+export function parseApiResponse(xml: string, command?: string): XmlElement {
+  const document = parseXml(xml);
+  const response = findFirst(document, 'ApiResponse');
+  if (!response) {
+    throw new Error('Namecheap API returned a response without an ApiResponse element');
+  }
+
+  if (getAttribute(response, 'Status')?.toUpperCase() === 'ERROR') {
+    const errorList = childrenNamed(response, 'Errors')[0];
+    const errors = (errorList ? childrenNamed(errorList, 'Error') : []).map((e) => ({
+      number: getAttribute(e, 'Number') ?? 'unknown',
+      message: textOf(e) || 'Unknown Namecheap API error',
+    }));
+    throw new NamecheapApiError(errors, command);
+  }
+
+  const commandResponse = childrenNamed(response, 'CommandResponse')[0];
+  if (!commandResponse) {
+    throw new Error('Namecheap API returned a response without a CommandResponse element');
+  }
+
+  return commandResponse;
+}
+
+export function parseDomainCheck(xml: string): DomainAvailability[] {
+  const result = parseApiResponse(xml, 'namecheap.domains.check');
+
+  return findAll(result, 'DomainCheckResult').map((r) => {
+    const isPremium = parseBool(getAttribute(r, 'IsPremiumName'));
+    return {
+      domain: getAttribute(r, 'Domain') ?? '',
+      available: parseBool(getAttribute(r, 'Available')),
+      ...(isPremium
+        ? {
+            price: parseNumber(getAttribute(r, 'PremiumRegistrationPrice')),
+            icannFee: parseNumber(getAttribute(r, 'IcannFee')),
+            currency: 'USD',
+          }
+        : {}),
+    };
+  });
+}
+
+export interface DomainListPage {
+  domains: OwnedDomain[];
+  totalItems: number;
+  currentPage: number;
+  pageSize: number;
+}
+
+export function parseDomainList(xml: string): DomainListPage {
+  const result = parseApiResponse(xml, 'namecheap.domains.getList');
+
+  const domains = findAll(result, 'Domain').map((d) => ({
+    domain: getAttribute(d, 'Name') ?? '',
+    created: getAttribute(d, 'Created') ?? '',
+    expires: getAttribute(d, 'Expires') ?? '',
+    isExpired: parseBool(getAttribute(d, 'IsExpired')),
+    isLocked: parseBool(getAttribute(d, 'IsLocked')),
+    autoRenew: parseBool(getAttribute(d, 'AutoRenew')),
+    whoisGuard: getAttribute(d, 'WhoisGuard'),
+  }));
+
+  const paging = findFirst(result, 'Paging');
+
+  return {
+    domains,
+    totalItems: parseNumber(textOf(paging && findFirst(paging, 'TotalItems'))) ?? domains.length,
+    currentPage: parseNumber(textOf(paging && findFirst(paging, 'CurrentPage'))) ?? 1,
+    pageSize: parseNumber(textOf(paging && findFirst(paging, 'PageSize'))) ?? domains.length,
+  };
+}
+
+export function parseDomainInfo(xml: string, domain: string): DomainDetails {
+  const result = parseApiResponse(xml, 'namecheap.domains.getInfo');
+  const info = findFirst(result, 'DomainGetInfoResult');
+  const details = info && findFirst(info, 'DomainDetails');
+
+  return {
+    domain: getAttribute(info, 'DomainName') ?? domain,
+    created: textOf(details && findFirst(details, 'CreatedDate')) ?? '',
+    expires: textOf(details && findFirst(details, 'ExpiredDate')) ?? '',
+    status: getAttribute(info, 'Status') ?? 'Unknown',
+    nameservers: findAll(result, 'Nameserver').map((ns) => textOf(ns) ?? '').filter(Boolean),
+  };
+}
+
+export function parseDomainCreate(xml: string, domain: string): DomainRegistration {
+  const result = parseApiResponse(xml, 'namecheap.domains.create');
+  const created = findFirst(result, 'DomainCreateResult');
+
+  return {
+    success: parseBool(getAttribute(created, 'Registered')),
+    domain: getAttribute(created, 'Domain') ?? domain,
+    orderId: getAttribute(created, 'OrderID'),
+    transactionId: getAttribute(created, 'TransactionID'),
+    chargedAmount: parseNumber(getAttribute(created, 'ChargedAmount')),
+  };
+}
+
+export function parseDnsHosts(xml: string): DnsRecord[] {
+  const result = parseApiResponse(xml, 'namecheap.domains.dns.getHosts');
+
+  return findAll(result, 'host').map((h) => {
+    const mxPref = parseNumber(getAttribute(h, 'MXPref'));
+    return {
+      hostName: getAttribute(h, 'Name') ?? '',
+      type: getAttribute(h, 'Type') ?? '',
+      address: getAttribute(h, 'Address') ?? '',
+      ttl: parseNumber(getAttribute(h, 'TTL')) ?? 1800,
+      mxPref: getAttribute(h, 'Type')?.toUpperCase() === 'MX' ? mxPref : undefined,
+    };
+  });
+}
+
+export function parseSetHosts(xml: string): boolean {
+  const result = parseApiResponse(xml, 'namecheap.domains.dns.setHosts');
+  return parseBool(getAttribute(findFirst(result, 'DomainDNSSetHostsResult'), 'IsSuccess'));
+}
+
+export function parseSetCustomNameservers(xml: string): boolean {
+  const result = parseApiResponse(xml, 'namecheap.domains.dns.setCustom');
+  return parseBool(getAttribute(findFirst(result, 'DomainDNSSetCustomResult'), 'Updated'));
+}
+
+export function parseTldPrice(xml: string, tld: string): { price?: number; icannFee?: number } {
+  const result = parseApiResponse(xml, 'namecheap.users.getPricing');
+
+  const product = findAll(result, 'Product').find(
+    (p) => getAttribute(p, 'Name')?.toLowerCase() === tld.toLowerCase()
+  );
+  const oneYear = product && childrenNamed(product, 'Price').find((p) => getAttribute(p, 'Duration') === '1');
+  if (!oneYear) return {};
+
+  return {
+    price: parseNumber(getAttribute(oneYear, 'Price')),
+    icannFee: parseNumber(getAttribute(oneYear, 'AdditionalCost')),
+  };
+}
+
+export function parseBalances(xml: string): {
+  availableBalance: number;
+  accountBalance: number;
+  earnedAmount: number;
+  currency: string;
+} {
+  const result = parseApiResponse(xml, 'namecheap.users.getBalances');
+  const balances = findFirst(result, 'UserGetBalancesResult');
+
+  return {
+    availableBalance: parseNumber(getAttribute(balances, 'AvailableBalance')) ?? 0,
+    accountBalance: parseNumber(getAttribute(balances, 'AccountBalance')) ?? 0,
+    earnedAmount: parseNumber(getAttribute(balances, 'EarnedAmount')) ?? 0,
+    currency: getAttribute(balances, 'Currency') ?? 'USD',
+  };
+}
@@ -1,8 +1,30 @@
 import { config } from '../config';
-import type { NamecheapDomainInfo, NamecheapOwnedDomain, NamecheapDnsRecord } from '../types';
+import type {
+  DomainAvailability,
+  OwnedDomain,
+  DomainDetails,
+  DomainRegistrant,
+  DomainRegistration,
+  DnsRecord,
+  RegistrarBalance,
+} from '../types';
+import {
+  parseDomainCheck,
+  parseDomainList,
+  parseDomainInfo,
+  parseDomainCreate,
+  parseDnsHosts,
+  parseSetHosts,
+  parseSetCustomNameservers,
+  parseTldPrice,
+  parseBalances,
+} from './namecheap-response';
+
+export { NamecheapApiError, type NamecheapErrorKind } from './namecheap-response';
 
 const SANDBOX_URL = 'https://api.sandbox.namecheap.com/xml.response';
 const PRODUCTION_URL = 'https://api.namecheap.com/xml.response';
+const DOMAIN_LIST_PAGE_SIZE = 100;
 
 function getApiUrl(): string {
   return config.namecheap.sandbox ? SANDBOX_URL : PRODUCTION_URL;
@@ -35,170 +57,90 @@ async function makeRequest(command: string, params: Record<string, string> = {})
   return response.text();
 }
 
-function parseXmlValue(xml: string, tag: string): string | undefined {
-  const regex = new RegExp(`<${tag}[^>]*>([^<]*)</${tag}>`, 'i');
-  const match = xml.match(regex);
-  return match?.[1];
-}
-
-function parseXmlAttribute(xml: string, tag: string, attr: string): string | undefined {
-  const regex = new RegExp(`<${tag}[^>]*${attr}="([^"]*)"`, 'i');
-  const match = xml.match(regex);
-  return match?.[1];
-}
-
-function checkApiError(xml: string): void {
-  const status = parseXmlAttribute(xml, 'ApiResponse', 'Status');
-  if (status === 'ERROR') {
-    const errorMsg = parseXmlValue(xml, 'Error') ?? 'Unknown Namecheap API error';
-    throw new Error(errorMsg);
-  }
-}
-
-export async function checkDomainAvailability(domain: string): Promise<NamecheapDomainInfo> {
+export async function checkDomainAvailability(domain: string): Promise<DomainAvailability> {
   const xml = await makeRequest('namecheap.domains.check', {
     DomainList: domain,
   });
 
-  checkApiError(xml);
+  const [result] = parseDomainCheck(xml);
 
-  const available = parseXmlAttribute(xml, 'DomainCheckResult', 'Available') === 'true';
-
-  return {
-    domain,
-    available,
-  };
+  return result ?? { domain, available: false };
 }
 
-export async function searchDomains(keyword: string, tlds: string[] = ['com', 'net', 'org', 'io']): Promise<NamecheapDomainInfo[]> {
-  const domains = tlds.map((tld) => `${keyword}.${tld}`);
+export async function checkDomainsAvailability(domains: string[]): Promise<DomainAvailability[]> {
   const xml = await makeRequest('namecheap.domains.check', {
     DomainList: domains.join(','),
   });
 
-  checkApiError(xml);
-
-  const results: NamecheapDomainInfo[] = [];
-  const domainRegex = /<DomainCheckResult\s+Domain="([^"]+)"\s+Available="([^"]+)"/gi;
-
-  let match;
-  while ((match = domainRegex.exec(xml)) !== null) {
-    results.push({
-      domain: match[1],
-      available: match[2] === 'true',
-    });
-  }
-
-  return results;
+  return parseDomainCheck(xml);
 }
 
-export async function getDomainPricing(domain: string): Promise<NamecheapDomainInfo> {
-  const tld = domain.split('.').pop() ?? 'com';
-  const sld = domain.replace(`.${tld}`, '');
-
+async function getTldPrice(
+  tld: string,
+  action: 'REGISTER' | 'RENEW'
+): Promise<{ price?: number; icannFee?: number }> {
   const xml = await makeRequest('namecheap.users.getPricing', {
     ProductType: 'DOMAIN',
-    ProductCategory: 'REGISTER',
-    ActionName: 'REGISTER',
+    ProductCategory: action,
+    ActionName: action,
+    ProductName: tld,
   });
 
-  checkApiError(xml);
+  return parseTldPrice(xml, tld);
+}
 
-  const availability = await checkDomainAvailability(domain);
+export async function getDomainPricing(domain: string): Promise<DomainAvailability> {
+  const tld = domain.split('.').pop() ?? 'com';
 
-  const priceRegex = new RegExp(
-    `<ProductType[^>]*Name="${tld}"[^>]*>[\\s\\S]*?<Price[^>]*Duration="1"[^>]*Price="([^"]+)"`,
-    'i'
-  );
-  const priceMatch = xml.match(priceRegex);
+  const { price, icannFee } = await getTldPrice(tld, 'REGISTER');
+  const availability = await checkDomainAvailability(domain);
 
+  // Premium names carry their own price in the availability check.
   return {
     ...availability,
-    price: priceMatch ? parseFloat(priceMatch[1]) : undefined,
+    price: availability.price ?? price,
+    icannFee: availability.icannFee ?? icannFee,
     currency: 'USD',
   };
 }
 
-export async function listOwnedDomains(): Promise<NamecheapOwnedDomain[]> {
-  const xml = await makeRequest('namecheap.domains.getList', {
-    PageSize: '100',
-    Page: '1',
-  });
+export async function getDomainRenewalPrice(domain: string): Promise<number | undefined> {
+  const tld = domain.split('.').pop() ?? 'com';
+  const { price, icannFee } = await getTldPrice(tld, 'RENEW');
+  return price !== undefined ? price + (icannFee ?? 0) : undefined;
+}
 
-  checkApiError(xml);
-
-  const results: NamecheapOwnedDomain[] = [];
-  const domainRegex = /<Domain\s+ID="[^"]+"\s+Name="([^"]+)"[^>]*Created="([^"]+)"[^>]*Expires="([^"]+)"[^>]*IsExpired="([^"]+)"[^>]*IsLocked="([^"]+)"[^>]*AutoRenew="([^"]+)"[^>]*WhoisGuard="([^"]+)"/gi;
-
-  let match;
-  while ((match = domainRegex.exec(xml)) !== null) {
-    results.push({
-      domain: match[1],
-      created: match[2],
-      expires: match[3],
-      isExpired: match[4] === 'true',
-      isLocked: match[5] === 'true',
-      autoRenew: match[6] === 'true',
-      whoisGuard: match[7],
+export async function listOwnedDomains(): Promise<OwnedDomain[]> {
+  const domains: OwnedDomain[] = [];
+
+  for (let page = 1; ; page++) {
+    const xml = await makeRequest('namecheap.domains.getList', {
+      PageSize: DOMAIN_LIST_PAGE_SIZE.toString(),
+      Page: page.toString(),
     });
+
+    const result = parseDomainList(xml);
+    domains.push(...result.domains);
+
+    if (result.domains.length === 0 || domains.length >= result.totalItems) break;
   }
 
-  return results;
+  return domains;
 }
 
-export async function getDomainInfo(domain: string): Promise<{
-  domain: string;
-  created: string;
-  expires: string;
-  status: string;
-  nameservers: string[];
-}> {
-  const tld = domain.split('.').pop() ?? 'com';
-  const sld = domain.replace(`.${tld}`, '');
-
+export async function getDomainInfo(domain: string): Promise<DomainDetails> {
   const xml = await makeRequest('namecheap.domains.getInfo', {
     DomainName: domain,
   });
 
-  checkApiError(xml);
-
-  const nameservers: string[] = [];
-  const nsRegex = /<Nameserver>([^<]+)<\/Nameserver>/gi;
-  let nsMatch;
-  while ((nsMatch = nsRegex.exec(xml)) !== null) {
-    nameservers.push(nsMatch[1]);
-  }
-
-  return {
-    domain,
-    created: parseXmlAttribute(xml, 'DomainGetInfoResult', 'Created') ?? '',
-    expires: parseXmlAttribute(xml, 'DomainGetInfoResult', 'Expires') ?? '',
-    status: parseXmlAttribute(xml, 'DomainGetInfoResult', 'Status') ?? 'Unknown',
-    nameservers,
-  };
+  return parseDomainInfo(xml, domain);
 }
 
 export async function registerDomain(
   domain: string,
   years = 1,
-  registrantInfo: {
-    firstName: string;
-    lastName: string;
-    address1: string;
-    city: string;
-    stateProvince: string;
-    postalCode: string;
-    country: string;
-    phone: string;
-    email: string;
-  }
-): Promise<{
-  success: boolean;
-  domain: string;
-  orderId?: string;
-  transactionId?: string;
-  chargedAmount?: number;
-}> {
+  registrantInfo: DomainRegistrant
+): Promise<DomainRegistration> {
   const tld = domain.split('.').pop() ?? 'com';
   const sld = domain.replace(`.${tld}`, '');
 
@@ -247,20 +189,10 @@ export async function registerDomain(
 
   const xml = await makeRequest('namecheap.domains.create', params);
 
-  checkApiError(xml);
-
-  const registered = parseXmlAttribute(xml, 'DomainCreateResult', 'Registered') === 'true';
-
-  return {
-    success: registered,
-    domain,
-    orderId: parseXmlAttribute(xml, 'DomainCreateResult', 'OrderID'),
-    transactionId: parseXmlAttribute(xml, 'DomainCreateResult', 'TransactionID'),
-    chargedAmount: parseFloat(parseXmlAttribute(xml, 'DomainCreateResult', 'ChargedAmount') ?? '0'),
-  };
+  return parseDomainCreate(xml, domain);
 }
 
-export async function getDnsRecords(domain: string): Promise<NamecheapDnsRecord[]> {
+export async function getDnsRecords(domain: string): Promise<DnsRecord[]> {
   const tld = domain.split('.').pop() ?? 'com';
   const sld = domain.replace(`.${tld}`, '');
 
@@ -269,28 +201,12 @@ export async function getDnsRecords(domain: string): Promise<NamecheapDnsRecord[
     TLD: tld,
   });
 
-  checkApiError(xml);
-
-  const records: NamecheapDnsRecord[] = [];
-  const recordRegex = /<host\s+HostId="[^"]+"\s+Name="([^"]+)"\s+Type="([^"]+)"\s+Address="([^"]+)"\s+MXPref="([^"]+)"\s+TTL="([^"]+)"/gi;
-
-  let match;
-  while ((match = recordRegex.exec(xml)) !== null) {
-    records.push({
-      hostName: match[1],
-      type: match[2],
-      address: match[3],
-      mxPref: match[4] !== '0' ? parseInt(match[4]) : undefined,
-      ttl: parseInt(match[5]),
-    });
-  }
-
-  return records;
+  return parseDnsHosts(xml);
 }
 
 export async function setDnsRecords(
   domain: string,
-  records: NamecheapDnsRecord[]
+  records: DnsRecord[]
 ): Promise<boolean> {
   const tld = domain.split('.').pop() ?? 'com';
   const sld = domain.replace(`.${tld}`, '');
@@ -311,13 +227,14 @@ export async function setDnsRecords(
     }
   });
 
-  const xml = await makeRequest('namecheap.domains.dns.setHosts', params);
-
-  checkApiError(xml);
+  // Namecheap ignores MX records unless the mail setting is switched to custom MX
+  if (records.some((record) => record.type === 'MX')) {
+    params.EmailType = 'MX';
+  }
 
-  const success = parseXmlAttribute(xml, 'DomainDNSSetHostsResult', 'IsSuccess') === 'true';
+  const xml = await makeRequest('namecheap.domains.dns.setHosts', params);
 
-  return success;
+  return parseSetHosts(xml);
 }
 
 export async function setNameservers(
@@ -333,27 +250,11 @@ export async function setNameservers(
     Nameservers: nameservers.join(','),
   });
 
-  checkApiError(xml);
-
-  const success = parseXmlAttribute(xml, 'DomainDNSSetCustomResult', 'Updated') === 'true';
-
-  return success;
+  return parseSetCustomNameservers(xml);
 }
 
-export async function getAccountBalance(): Promise<{
-  availableBalance: number;
-  accountBalance: number;
-  earnedAmount: number;
-  currency: string;
-}> {
+export async function getAccountBalance(): Promise<RegistrarBalance & { earnedAmount: number }> {
   const xml = await makeRequest('namecheap.users.getBalances');
 
-  checkApiError(xml);
-
-  return {
-    availableBalance: parseFloat(parseXmlAttribute(xml, 'UserGetBalancesResult', 'AvailableBalance') ?? '0'),
-    accountBalance: parseFloat(parseXmlAttribute(xml, 'UserGetBalancesResult', 'AccountBalance') ?? '0'),
-    earnedAmount: parseFloat(parseXmlAttribute(xml, 'UserGetBalancesResult', 'EarnedAmount') ?? '0'),
-    currency: parseXmlAttribute(xml, 'UserGetBalancesResult', 'Currency') ?? 'USD',
-  };
+  return parseBalances(xml);
 }
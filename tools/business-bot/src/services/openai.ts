@@ -123,6 +123,7 @@ export async function extractApprovalIntent(
 ): Promise<{
   isApproval: boolean;
   isRejection: boolean;
+  isConditional: boolean;
   confidence: number;
 }> {
   const openai = getOpenAIClient();
@@ -136,11 +137,13 @@ export async function extractApprovalIntent(
 
 Approval signals: yes, approve, go ahead, do it, sounds good, let's do it, confirmed, ok, etc.
 Rejection signals: no, reject, don't, cancel, stop, not now, wait, etc.
+Conditional: the message asks for a change before proceeding (e.g. "sure but use .io", "yes, but make it private").
 
 Respond with JSON only:
 {
   "isApproval": <boolean>,
   "isRejection": <boolean>,
+  "isConditional": <boolean>,
   "confidence": <0.0-1.0>
 }`,
       },
@@ -161,6 +164,7 @@ Respond with JSON only:
     return {
       isApproval: false,
       isRejection: false,
+      isConditional: false,
       confidence: 0,
     };
   }
@@ -0,0 +1,53 @@
+import { config } from '../config';
+import type {
+  RegistrarId,
+  DomainAvailability,
+  OwnedDomain,
+  DomainDetails,
+  DomainRegistrant,
+  DomainRegistration,
+  DnsRecord,
+  RegistrarBalance,
+} from '../types';
+import { namecheapRegistrar } from './registrars/namecheap';
+import { createMemoryRegistrar } from './registrars/memory';
+
+export interface DomainRegistrar {
+  readonly id: RegistrarId;
+  readonly displayName: string;
+
+  checkAvailability(domains: string[]): Promise<DomainAvailability[]>;
+  getPricing(domain: string): Promise<DomainAvailability>;
+  getRenewalPrice(domain: string): Promise<number | undefined>;
+  register(domain: string, years: number, registrant: DomainRegistrant): Promise<DomainRegistration>;
+  listDomains(): Promise<OwnedDomain[]>;
+  getDomainInfo(domain: string): Promise<DomainDetails>;
+  getDnsRecords(domain: string): Promise<DnsRecord[]>;
+  setDnsRecords(domain: string, records: DnsRecord[]): Promise<boolean>;
+  setNameservers?(domain: string, nameservers: string[]): Promise<boolean>;
+  setAutoRenew?(domain: string, enabled: boolean): Promise<boolean>;
+  getBalance?(): Promise<RegistrarBalance>;
+}
+
+const registrars = new Map<RegistrarId, DomainRegistrar>([['namecheap', namecheapRegistrar]]);
+
+if (config.registrar.defaultId === 'memory') {
+  registrars.set('memory', createMemoryRegistrar());
+}
+
+export function registerRegistrar(registrar: DomainRegistrar): void {
+  registrars.set(registrar.id, registrar);
+}
+
+export function listRegistrarIds(): RegistrarId[] {
+  return [...registrars.keys()];
+}
+
+export function getRegistrar(id?: RegistrarId): DomainRegistrar {
+  const registrarId = id ?? config.registrar.defaultId;
+  const registrar = registrars.get(registrarId);
+  if (!registrar) {
+    throw new Error(`Registrar "${registrarId}" is not configured`);
+  }
+  return registrar;
+}
@@ -0,0 +1,119 @@
+import type { DnsRecord, OwnedDomain } from '../../types';
+import type { DomainRegistrar } from '../registrar';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface MemoryDomain {
+  owned: OwnedDomain;
+  records: DnsRecord[];
+  nameservers: string[];
+}
+
+export interface MemoryRegistrarOptions {
+  price?: number;
+  icannFee?: number;
+  taken?: string[];
+}
+
+// Keeps everything in process memory and never charges anything; for local development and tests.
+export function createMemoryRegistrar(options: MemoryRegistrarOptions = {}): DomainRegistrar {
+  const price = options.price ?? 10;
+  const icannFee = options.icannFee ?? 0.2;
+  const taken = new Set((options.taken ?? []).map((d) => d.toLowerCase()));
+  const domains = new Map<string, MemoryDomain>();
+  let orderCounter = 0;
+
+  function isAvailable(domain: string): boolean {
+    const key = domain.toLowerCase();
+    return !taken.has(key) && !domains.has(key);
+  }
+
+  function getOwned(domain: string): MemoryDomain {
+    const entry = domains.get(domain.toLowerCase());
+    if (!entry) throw new Error(`Domain ${domain} is not in this account`);
+    return entry;
+  }
+
+  return {
+    id: 'memory',
+    displayName: 'In-memory registrar',
+
+    async checkAvailability(names) {
+      return names.map((domain) => ({ domain, available: isAvailable(domain) }));
+    },
+
+    async getPricing(domain) {
+      return { domain, available: isAvailable(domain), price, icannFee, currency: 'USD' };
+    },
+
+    async getRenewalPrice() {
+      return price + icannFee;
+    },
+
+    async register(domain, years) {
+      if (!isAvailable(domain)) {
+        return { success: false, domain };
+      }
+
+      const now = Date.now();
+      orderCounter += 1;
+      domains.set(domain.toLowerCase(), {
+        owned: {
+          domain,
+          created: new Date(now).toISOString(),
+          expires: new Date(now + years * 365 * DAY_MS).toISOString(),
+          isExpired: false,
+          isLocked: false,
+          autoRenew: true,
+        },
+        records: [],
+        nameservers: [],
+      });
+
+      return {
+        success: true,
+        domain,
+        orderId: `mem-${orderCounter}`,
+        chargedAmount: (price + icannFee) * years,
+      };
+    },
+
+    async listDomains() {
+      return [...domains.values()].map((d) => ({ ...d.owned }));
+    },
+
+    async getDomainInfo(domain) {
+      const { owned, nameservers } = getOwned(domain);
+      return {
+        domain: owned.domain,
+        created: owned.created,
+        expires: owned.expires,
+        status: 'Ok',
+        nameservers: [...nameservers],
+      };
+    },
+
+    async getDnsRecords(domain) {
+      return getOwned(domain).records.map((r) => ({ ...r }));
+    },
+
+    async setDnsRecords(domain, records) {
+      getOwned(domain).records = records.map((r) => ({ ...r }));
+      return true;
+    },
+
+    async setNameservers(domain, nameservers) {
+      getOwned(domain).nameservers = [...nameservers];
+      return true;
+    },
+
+    async setAutoRenew(domain, enabled) {
+      getOwned(domain).owned.autoRenew = enabled;
+      return true;
+    },
+
+    async getBalance() {
+      return { availableBalance: 0, accountBalance: 0, currency: 'USD' };
+    },
+  };
+}
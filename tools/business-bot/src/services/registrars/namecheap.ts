@@ -0,0 +1,23 @@
+import * as namecheap from '../namecheap';
+import type { DomainRegistrar } from '../registrar';
+
+export const namecheapRegistrar: DomainRegistrar = {
+  id: 'namecheap',
+  displayName: 'Namecheap',
+
+  async checkAvailability(domains) {
+    if (domains.length === 1) {
+      return [await namecheap.checkDomainAvailability(domains[0])];
+    }
+    return namecheap.checkDomainsAvailability(domains);
+  },
+  getPricing: (domain) => namecheap.getDomainPricing(domain),
+  getRenewalPrice: (domain) => namecheap.getDomainRenewalPrice(domain),
+  register: (domain, years, registrant) => namecheap.registerDomain(domain, years, registrant),
+  listDomains: () => namecheap.listOwnedDomains(),
+  getDomainInfo: (domain) => namecheap.getDomainInfo(domain),
+  getDnsRecords: (domain) => namecheap.getDnsRecords(domain),
+  setDnsRecords: (domain, records) => namecheap.setDnsRecords(domain, records),
+  setNameservers: (domain, nameservers) => namecheap.setNameservers(domain, nameservers),
+  getBalance: () => namecheap.getAccountBalance(),
+};
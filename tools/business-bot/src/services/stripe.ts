@@ -576,4 +576,18 @@ export async function createWebhookEndpoint(
   };
 }
 
+export async function setWebhookEndpointDisabled(
+  secretKey: string,
+  endpointId: string,
+  disabled: boolean
+): Promise<void> {
+  const stripe = getStripeClient(secretKey);
+  await stripe.webhookEndpoints.update(endpointId, { disabled });
+}
+
+export async function deleteWebhookEndpoint(secretKey: string, endpointId: string): Promise<void> {
+  const stripe = getStripeClient(secretKey);
+  await stripe.webhookEndpoints.del(endpointId);
+}
+
 export { StripeAccountConfig };
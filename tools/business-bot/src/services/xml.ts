@@ -0,0 +1,151 @@
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return Number.isNaN(code) ? match : String.fromCodePoint(code);
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const attrRegex = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+  let match;
+  while ((match = attrRegex.exec(source)) !== null) {
+    attributes[match[1]] = decodeEntities(match[2] ?? match[3]);
+  }
+
+  return attributes;
+}
+
+// Handles the subset of XML that API responses use: elements, attributes, text,
+// CDATA, comments and processing instructions. DTDs and namespaces are not interpreted.
+export function parseXml(xml: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '' };
+  const stack: XmlElement[] = [root];
+  let pos = 0;
+
+  while (pos < xml.length) {
+    const lt = xml.indexOf('<', pos);
+    const textEnd = lt === -1 ? xml.length : lt;
+
+    if (textEnd > pos) {
+      stack[stack.length - 1].text += decodeEntities(xml.slice(pos, textEnd));
+    }
+    if (lt === -1) break;
+
+    if (xml.startsWith('<!--', lt)) {
+      const end = xml.indexOf('-->', lt + 4);
+      if (end === -1) throw new Error('Malformed XML: unterminated comment');
+      pos = end + 3;
+      continue;
+    }
+
+    if (xml.startsWith('<![CDATA[', lt)) {
+      const end = xml.indexOf(']]>', lt + 9);
+      if (end === -1) throw new Error('Malformed XML: unterminated CDATA section');
+      stack[stack.length - 1].text += xml.slice(lt + 9, end);
+      pos = end + 3;
+      continue;
+    }
+
+    if (xml.startsWith('<?', lt) || xml.startsWith('<!', lt)) {
+      const end = xml.indexOf('>', lt);
+      if (end === -1) throw new Error('Malformed XML: unterminated declaration');
+      pos = end + 1;
+      continue;
+    }
+
+    const gt = xml.indexOf('>', lt);
+    if (gt === -1) throw new Error('Malformed XML: unterminated tag');
+
+    const tag = xml.slice(lt + 1, gt);
+
+    if (tag.startsWith('/')) {
+      const name = tag.slice(1).trim();
+      const open = stack.pop();
+      if (!open || open === root || open.name !== name) {
+        throw new Error(`Malformed XML: unexpected closing tag </${name}>`);
+      }
+      pos = gt + 1;
+      continue;
+    }
+
+    const selfClosing = tag.endsWith('/');
+    const body = selfClosing ? tag.slice(0, -1) : tag;
+    const nameMatch = body.match(/^\s*([^\s/>]+)/);
+    if (!nameMatch) throw new Error('Malformed XML: missing tag name');
+
+    const element: XmlElement = {
+      name: nameMatch[1],
+      attributes: parseAttributes(body.slice(nameMatch[0].length)),
+      children: [],
+      text: '',
+    };
+    stack[stack.length - 1].children.push(element);
+    if (!selfClosing) stack.push(element);
+
+    pos = gt + 1;
+  }
+
+  if (stack.length > 1) {
+    throw new Error(`Malformed XML: unclosed tag <${stack[stack.length - 1].name}>`);
+  }
+
+  return root;
+}
+
+function sameName(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+export function findAll(element: XmlElement, name: string): XmlElement[] {
+  const results: XmlElement[] = [];
+  for (const child of element.children) {
+    if (sameName(child.name, name)) results.push(child);
+    results.push(...findAll(child, name));
+  }
+  return results;
+}
+
+export function findFirst(element: XmlElement, name: string): XmlElement | undefined {
+  for (const child of element.children) {
+    if (sameName(child.name, name)) return child;
+    const nested = findFirst(child, name);
+    if (nested) return nested;
+  }
+  return undefined;
+}
+
+export function childrenNamed(element: XmlElement, name: string): XmlElement[] {
+  return element.children.filter((child) => sameName(child.name, name));
+}
+
+export function getAttribute(element: XmlElement | undefined, name: string): string | undefined {
+  if (!element) return undefined;
+  const key = Object.keys(element.attributes).find((k) => sameName(k, name));
+  return key !== undefined ? element.attributes[key] : undefined;
+}
+
+export function textOf(element: XmlElement | undefined): string | undefined {
+  return element ? element.text.trim() : undefined;
+}
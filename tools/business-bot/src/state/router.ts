@@ -18,6 +18,7 @@ export async function routeMessage(
   conversationSummary: string
 ): Promise<{
   newState: BotState;
+  trigger?: TransitionTrigger;
   confidence: number;
   reasoning: string;
   stateChanged: boolean;
@@ -40,6 +41,7 @@ export async function routeMessage(
 
   return {
     newState,
+    trigger,
     confidence: routerResult.confidence,
     reasoning: routerResult.reasoning,
     stateChanged: newState !== currentState,
@@ -77,7 +79,7 @@ export function shouldAutoTransition(
 ): TransitionTrigger | null {
   if (currentState === 'creating') {
     const creationTools = [
-      'namecheap_register_domain',
+      'domain_register',
       'github_create_repo',
       'github_fork_repo',
       'discord_create_server',
@@ -29,6 +29,7 @@ export const STATE_CONFIGS: Record<BotState, StateConfig> = {
     allowedTools: [
       'project_list',
       'project_get',
+      'project_get_costs',
       'context_get_overview',
       'context_search_history',
       'context_get_server_info',
@@ -51,6 +52,9 @@ Keep the conversation natural and engaging.`,
     description: 'Brainstorming and planning business ideas',
     allowedTools: [
       'project_create',
+      'project_adopt',
+      'project_export',
+      'project_import',
       'project_get',
       'project_list',
       'project_add_idea',
@@ -59,8 +63,8 @@ Keep the conversation natural and engaging.`,
       'tavily_search',
       'tavily_research',
       'tavily_market_research',
-      'namecheap_search_domains',
-      'namecheap_get_pricing',
+      'domain_search',
+      'domain_get_pricing',
       'github_list_repos',
     ],
     systemPromptAddition: `
@@ -99,11 +103,16 @@ When a project thread is created, link all planning to that project.`,
     allowedTools: [
       'project_get',
       'project_list',
-      'namecheap_search_domains',
-      'namecheap_get_pricing',
-      'namecheap_register_domain',
-      'namecheap_list_domains',
-      'namecheap_set_dns',
+      'project_plan_provisioning',
+      'project_apply_plan',
+      'project_resume_provisioning',
+      'project_rollback_provisioning',
+      'domain_search',
+      'domain_get_pricing',
+      'domain_register',
+      'domain_list',
+      'dns_set',
+      'dns_apply_template',
       'github_create_repo',
       'github_create_repo_from_template',
       'github_fork_repo',
@@ -112,14 +121,18 @@ When a project thread is created, link all planning to that project.`,
       'github_create_file',
       'github_scaffold_repo_config',
       'github_get_template_config',
+      'github_sync_template_config',
       'github_set_secret',
       'github_set_variable',
       'discord_create_server',
       'discord_setup_channels',
       'discord_create_webhook',
       'discord_get_channel_ids',
+      'discord_list_blueprints',
+      'project_set_discord_blueprint',
       'discord_invite_users',
       'project_set_domain',
+      'project_set_repo_variables',
       'project_set_github',
       'project_set_discord',
       'project_set_status',
@@ -137,15 +150,20 @@ IMPORTANT: Always get explicit human approval before:
 - Creating a new Discord server
 - Forking/creating repositories
 
+**Plan First (preferred):**
+When the user wants several resources, draft them all with project_plan_provisioning before touching any external service. Show the returned diff, adjust the plan if asked (call it again — it replaces the draft), then call project_apply_plan. A single approval runs the whole plan in order: domain → Discord → repository → secrets → DNS.
+If a step fails, completed steps are rolled back automatically (or, with onFailure "pause", the run stops and you ask the user whether to resume or roll back).
+Use the individual creation tools below only for one-off resources.
+
 **Recommended Creation Order:**
-1. **Domain** (optional) - Register if user wants one
+1. **Domain** (optional) - Register if user wants one, or attach one we already own with project_set_domain
 2. **Discord Server** - Create server, setup channels with webhooks
 3. **GitHub Repository** - Create from template, auto-configure with Discord webhooks
 
 **Discord Setup Flow:**
 When setting up Discord:
 1. Create the server with discord_create_server
-2. Run discord_setup_channels - this automatically creates channels AND webhooks
+2. Run discord_setup_channels - this applies the project's blueprint (channels, roles, permissions, webhooks, pins); set a different one first with project_set_discord_blueprint if asked
 3. The webhooks are stored in the project and can be used for GitHub configuration
 
 **GitHub Configuration Flow:**
@@ -175,15 +193,33 @@ Track all created resources in the project so they can be cleaned up later.`,
       'project_get',
       'project_list',
       'project_status',
-      'namecheap_list_domains',
-      'namecheap_get_domain_info',
-      'namecheap_get_dns',
-      'namecheap_set_dns',
+      'project_adopt',
+      'project_export',
+      'project_import',
+      'project_check_drift',
+      'project_repair_drift',
+      'project_rotate_secrets',
+      'github_sync_template_config',
+      'project_get_costs',
+      'project_resume_provisioning',
+      'project_rollback_provisioning',
+      'project_archive',
+      'project_restore',
+      'domain_list',
+      'domain_get_info',
+      'dns_get',
+      'dns_set',
+      'dns_apply_template',
+      'project_set_domain',
+      'project_set_repo_variables',
       'github_list_repos',
       'github_get_repo',
       'github_update_repo',
       'github_create_file',
       'discord_list_servers',
+      'discord_setup_channels',
+      'discord_list_blueprints',
+      'project_set_discord_blueprint',
       'stripe_list_accounts',
       'stripe_get_balance',
       'stripe_list_customers',
@@ -206,7 +242,7 @@ Track all created resources in the project so they can be cleaned up later.`,
 You are in project management mode. Help the user manage their existing projects.
 - Check project status and health
 - Update DNS records or repository settings
-- Monitor domain expiration
+- Monitor domain expiration (a background job alerts the project thread when auto-renew is off)
 - Help with any maintenance tasks
 
 If the user wants to clean up a project, transition to cleanup mode.`,
@@ -251,8 +287,11 @@ Take your time to do thorough research. Quality over speed.`,
       'project_get',
       'project_list',
       'project_cleanup',
+      'project_resume_cleanup',
       'project_set_status',
-      'namecheap_list_domains',
+      'project_archive',
+      'project_restore',
+      'domain_list',
       'github_list_repos',
       'github_delete_repo',
       'discord_delete_server',
@@ -266,11 +305,12 @@ You are in cleanup mode. Help the user safely clean up project resources.
 CRITICAL: Always get explicit approval before deleting anything!
 
 Cleanup process:
-1. List all resources associated with the project
-2. Explain what will be deleted and any costs/implications
-3. Get explicit confirmation for EACH resource type
-4. Delete resources one by one, confirming success
-5. Mark the project as deleted
+1. Ask whether repositories should be archived (default) or permanently deleted
+2. Call project_cleanup; it builds the ordered teardown plan and asks for one approval covering every step
+3. Once approved, report the per-step results
+4. If a step fails the run pauses; help fix the cause, then call project_resume_cleanup
+
+Use the individual delete tools only when the user wants to remove a single resource.
 
 Be very careful - deleted resources cannot be recovered!
 
@@ -0,0 +1,133 @@
+import type { DiscordBlueprintOverride } from '../../../types';
+import {
+  DISCORD_BLUEPRINTS,
+  validateBlueprint,
+  validateBlueprintOverride,
+  mergeBlueprint,
+  blueprintChannels,
+  effectiveOverwrites,
+  memberGroup,
+  renderMessage,
+} from '../blueprints';
+
+describe('DISCORD_BLUEPRINTS', () => {
+  it.each(Object.keys(DISCORD_BLUEPRINTS))('%s is valid', (name) => {
+    expect(validateBlueprint(DISCORD_BLUEPRINTS[name])).toEqual([]);
+  });
+});
+
+describe('mergeBlueprint', () => {
+  it('adds, changes and removes entries by name', () => {
+    const override: DiscordBlueprintOverride = {
+      roles: [{ name: 'Design', color: 0xff0000 }],
+      categories: [
+        {
+          name: 'Project',
+          channels: [
+            { name: 'design', topic: 'Design reviews' },
+            { name: 'dev', topic: 'Backend only' },
+            { name: 'standup', remove: true },
+          ],
+        },
+      ],
+    };
+
+    const base = blueprintChannels(DISCORD_BLUEPRINTS.standard).find(({ channel }) => channel.name === 'dev')!.channel;
+    const merged = mergeBlueprint(DISCORD_BLUEPRINTS.standard, override);
+    const channels = blueprintChannels(merged).map(({ channel }) => channel);
+
+    expect(channels.map((c) => c.name)).toEqual(['general', 'product', 'dev', 'pull-requests', 'design']);
+    expect(channels.find((c) => c.name === 'dev')).toEqual({ ...base, topic: 'Backend only' });
+    expect(merged.roles?.map((r) => r.name)).toEqual(['Owner', 'Team', 'Observer', 'Agent Bots', 'Design']);
+    expect(validateBlueprint(merged)).toEqual([]);
+  });
+
+  it('lets channel overwrites win over the category for the same permission', () => {
+    const { channel, category } = blueprintChannels(
+      mergeBlueprint(DISCORD_BLUEPRINTS['private-team'], {
+        categories: [{ name: 'Project', channels: [{ name: 'product', overwrites: [{ role: '@everyone', allow: ['ViewChannel'] }] }] }],
+      })
+    ).find(({ channel }) => channel.name === 'product')!;
+
+    expect(effectiveOverwrites(channel, category)).toEqual([
+      { role: '@everyone', allow: ['ViewChannel'] },
+      { role: 'Owner', allow: ['ViewChannel'] },
+      { role: 'Team', allow: ['ViewChannel'] },
+      { role: 'Agent Bots', allow: ['ViewChannel'] },
+    ]);
+  });
+
+  it('keeps a private category hidden in its bots-only channels', () => {
+    const { channel, category } = blueprintChannels(DISCORD_BLUEPRINTS['private-team']).find(
+      ({ channel }) => channel.name === 'dev'
+    )!;
+
+    expect(effectiveOverwrites(channel, category)).toEqual([
+      { role: '@everyone', deny: ['ViewChannel', 'SendMessages', 'SendMessagesInThreads', 'CreatePublicThreads'] },
+      { role: 'Owner', allow: ['ViewChannel'] },
+      { role: 'Team', allow: ['ViewChannel'] },
+      { role: 'Agent Bots', allow: ['ViewChannel', 'SendMessages', 'SendMessagesInThreads'] },
+    ]);
+  });
+});
+
+describe('role assignment', () => {
+  const env = process.env;
+
+  afterEach(() => {
+    process.env = env;
+  });
+
+  it('puts each member in one group, admins first', () => {
+    process.env = { ...env, DISCORD_ADMIN_USER_IDS: '1,2', DISCORD_TEAM_USER_IDS: '2,3' };
+
+    expect(['1', '2', '3', '4'].map((id) => memberGroup(id, false))).toEqual(['admins', 'admins', 'team', 'others']);
+    expect(memberGroup('1', true)).toBe('bots');
+  });
+
+  it('rejects a group handed to two roles', () => {
+    expect(
+      validateBlueprintOverride({ roles: [{ name: 'Lead', assign: 'team' }, { name: 'Crew', assign: 'team' }, { name: 'X', assign: 'all' }] })
+    ).toEqual(['override.roles[2].assign must be one of: admins, team, bots, others']);
+
+    expect(validateBlueprintOverride({ roles: [{ name: 'Lead', assign: 'team' }, { name: 'Crew', assign: 'team' }] })).toEqual([
+      'override assigns team to more than one role: Lead, Crew',
+    ]);
+  });
+});
+
+describe('validateBlueprintOverride', () => {
+  it('lists every problem with its path', () => {
+    expect(
+      validateBlueprintOverride({
+        roles: [{ name: 'Ops', permissions: ['FlyPlanes'] }],
+        channels: [{ name: 'Big Room' }, { topic: 'no name' }],
+      })
+    ).toEqual(['override.channels[1].name is required']);
+
+    expect(
+      validateBlueprintOverride({
+        roles: [{ name: 'Ops', permissions: ['FlyPlanes'] }],
+        channels: [{ name: 'Big Room' }, { name: 'dev', overwrites: [{ role: 'Ops', deny: ['Nope'] }] }],
+      })
+    ).toEqual([
+      'override.roles[0].permissions has unknown permission "FlyPlanes"',
+      'override.channels[0].name must be lowercase letters, digits, - or _',
+      'override.channels[1].overwrites[0].deny has unknown permission "Nope"',
+    ]);
+  });
+});
+
+describe('renderMessage', () => {
+  it('fills placeholders and leaves out parts whose placeholders are all empty', () => {
+    const rendered = renderMessage(DISCORD_BLUEPRINTS.standard.channels![0].pins![0], {
+      'project.name': 'Acme',
+      'server.name': 'Acme HQ',
+    });
+
+    expect(rendered.embed?.title).toBe('Welcome to Acme HQ!');
+    expect(rendered.embed?.description).toBe('**Acme**');
+    expect(rendered.embed?.fields.map((f) => f.name)).not.toContain('🔗 Add the Product Bot');
+    expect(rendered.embed?.fields.map((f) => f.name)).not.toContain('📋 Business Plan');
+  });
+});
@@ -0,0 +1,566 @@
+import { PermissionFlagsBits } from 'discord.js';
+import type {
+  ToolResult,
+  Project,
+  DiscordBlueprint,
+  DiscordBlueprintCategory,
+  DiscordBlueprintChannel,
+  DiscordBlueprintMessage,
+  DiscordBlueprintOverride,
+  DiscordBlueprintOverwrite,
+  DiscordBlueprintRole,
+  DiscordMemberGroup,
+} from '../../types';
+import * as projectStore from '../../context/project-store';
+import { config } from '../../config';
+import { type Schema, isRecord, checkSchema, parseStructuredText } from '../schema';
+
+export const BLUEPRINT_VERSION = 1;
+export const DEFAULT_BLUEPRINT = 'standard';
+
+const WELCOME_MESSAGE: DiscordBlueprintMessage = {
+  embed: {
+    title: 'Welcome to {{server.name}}!',
+    description: '**{{project.name}}**\n\n{{project.description}}',
+    color: 0x5865F2,
+    fields: [
+      {
+        name: '🤖 How This Works',
+        value:
+          'This project is powered by an **AI agent team** that collaborates to build software. ' +
+          'When issues are created in GitHub, specialized agents work together to implement features, ' +
+          'fix bugs, and maintain code quality.',
+      },
+      {
+        name: '👥 The Agent Team',
+        value: [
+          '• **Tech Lead** - Architecture decisions and engineer guidance',
+          '• **Software Engineer** - Code implementation',
+          '• **Product Owner** - Feature alignment and acceptance criteria',
+          '• **Test Engineer** - Test coverage verification',
+          '• **Code Reviewer** - PR validation and quality gate',
+          '• **Security Engineer** - Security review and OWASP compliance',
+          '• **Documentation Sheriff** - Docs integrity and updates',
+          '• **Infrastructure Engineer** - AWS/CDK infrastructure',
+          '• **UX Designer** - User flows and accessibility',
+          '• **Project Manager** - Milestone tracking and coordination',
+        ].join('\n'),
+      },
+      {
+        name: '📢 Channel Guide',
+        value: [
+          '• **#general** - General discussion and announcements',
+          '• **#standup** - Daily standups and status updates',
+          '• **#product** - Product discussions and feature requests',
+          '• **#dev** - Technical discussions and agent updates',
+          '• **#pull-requests** - PR notifications and reviews',
+        ].join('\n'),
+      },
+      {
+        name: '🔗 Add the Product Bot',
+        value:
+          'To enable full project management features, add the **Product Bot** to this server:\n' +
+          '**[Click here to add Product Bot]({{productBotInviteUrl}})**\n\n' +
+          'The Product Bot handles:\n' +
+          '• Issue creation from Discord discussions\n' +
+          '• PR notifications and approval workflows\n' +
+          '• Agent status updates and monitoring\n' +
+          '• Team coordination and notifications',
+      },
+      {
+        name: '🚀 Getting Started',
+        value:
+          'Create issues in the GitHub repository to kick off work. ' +
+          'The agent team will pick them up and you\'ll see updates here in Discord as they progress. ' +
+          'Feel free to discuss ideas in #product or technical details in #dev!',
+      },
+      {
+        name: '📋 Business Plan',
+        value: '{{project.businessPlan}}',
+      },
+    ],
+    footer: 'Powered by github-auto-team',
+  },
+};
+
+const PROJECT_ROLES: DiscordBlueprintRole[] = [
+  {
+    name: 'Owner',
+    color: 0xE67E22,
+    hoist: true,
+    mentionable: true,
+    permissions: ['ManageGuild', 'ManageChannels', 'ManageRoles', 'ManageMessages', 'KickMembers', 'BanMembers'],
+    assign: 'admins',
+  },
+  { name: 'Team', color: 0x5865F2, hoist: true, mentionable: true, assign: 'team' },
+  { name: 'Observer', color: 0x95A5A6, assign: 'others' },
+  { name: 'Agent Bots', color: 0x57F287, hoist: true, assign: 'bots' },
+];
+
+// Only bots post in the pipeline channels; webhooks ignore channel permissions.
+const BOTS_ONLY: DiscordBlueprintOverwrite[] = [
+  { role: '@everyone', deny: ['SendMessages', 'SendMessagesInThreads', 'CreatePublicThreads'] },
+  { role: 'Agent Bots', allow: ['SendMessages', 'SendMessagesInThreads'] },
+];
+
+const PROJECT_CHANNELS: DiscordBlueprintChannel[] = [
+  { name: 'standup', topic: 'Daily standups and status updates' },
+  { name: 'product', topic: 'Product discussions and feature requests', webhook: true },
+  { name: 'dev', topic: 'Technical discussions and agent updates', webhook: true, overwrites: BOTS_ONLY },
+  { name: 'pull-requests', topic: 'PR notifications and reviews', webhook: true, overwrites: BOTS_ONLY },
+];
+
+export const DISCORD_BLUEPRINTS: Record<string, DiscordBlueprint> = {
+  standard: {
+    version: BLUEPRINT_VERSION,
+    name: 'standard',
+    description:
+      'Owner, Team, Observer and Agent Bots roles; Project category with standup, product, dev and pull-requests, ' +
+      'where only bots post in dev and pull-requests and observers read only; pipeline webhooks; welcome message pinned in #general',
+    roles: PROJECT_ROLES,
+    channels: [{ name: 'general', pins: [WELCOME_MESSAGE] }],
+    categories: [
+      {
+        name: 'Project',
+        overwrites: [{ role: 'Observer', deny: ['SendMessages', 'SendMessagesInThreads'] }],
+        channels: PROJECT_CHANNELS,
+      },
+    ],
+  },
+  'private-team': {
+    version: BLUEPRINT_VERSION,
+    name: 'private-team',
+    description: 'Same roles and channels as standard, but the Project category is only visible to Owner, Team and Agent Bots',
+    roles: PROJECT_ROLES,
+    channels: [{ name: 'general', pins: [WELCOME_MESSAGE] }],
+    categories: [
+      {
+        name: 'Project',
+        overwrites: [
+          { role: '@everyone', deny: ['ViewChannel'] },
+          { role: 'Owner', allow: ['ViewChannel'] },
+          { role: 'Team', allow: ['ViewChannel'] },
+          { role: 'Agent Bots', allow: ['ViewChannel'] },
+        ],
+        channels: PROJECT_CHANNELS,
+      },
+    ],
+  },
+};
+
+const BLUEPRINT_SCHEMA: Schema = {
+  version: { type: 'number' },
+  name: { type: 'string' },
+  description: { type: 'string', optional: true },
+  roles: { type: 'array', optional: true },
+  channels: { type: 'array', optional: true },
+  categories: { type: 'array', optional: true },
+};
+
+const MEMBER_GROUPS: readonly DiscordMemberGroup[] = ['admins', 'team', 'bots', 'others'];
+
+const ROLE_SCHEMA: Schema = {
+  name: { type: 'string' },
+  color: { type: 'number', optional: true },
+  hoist: { type: 'boolean', optional: true },
+  mentionable: { type: 'boolean', optional: true },
+  permissions: { type: 'string[]', optional: true },
+  assign: { type: 'string', optional: true, oneOf: MEMBER_GROUPS },
+};
+
+const CATEGORY_SCHEMA: Schema = {
+  name: { type: 'string' },
+  overwrites: { type: 'array', optional: true },
+  channels: { type: 'array' },
+};
+
+const CHANNEL_SCHEMA: Schema = {
+  name: { type: 'string' },
+  topic: { type: 'string', optional: true },
+  webhook: { type: 'boolean', optional: true },
+  overwrites: { type: 'array', optional: true },
+  pins: { type: 'array', optional: true },
+};
+
+const OVERWRITE_SCHEMA: Schema = {
+  role: { type: 'string' },
+  allow: { type: 'string[]', optional: true },
+  deny: { type: 'string[]', optional: true },
+};
+
+const MESSAGE_SCHEMA: Schema = {
+  content: { type: 'string', optional: true },
+  embed: { type: 'object', optional: true },
+};
+
+const EMBED_SCHEMA: Schema = {
+  title: { type: 'string' },
+  description: { type: 'string', optional: true },
+  color: { type: 'number', optional: true },
+  fields: { type: 'array', optional: true },
+  footer: { type: 'string', optional: true },
+};
+
+const EMBED_FIELD_SCHEMA: Schema = {
+  name: { type: 'string' },
+  value: { type: 'string' },
+};
+
+// Discord channel names are lowercase with no spaces
+const CHANNEL_NAME = /^[a-z0-9_-]{1,100}$/;
+
+function checkPermissions(value: unknown, path: string, errors: string[]): void {
+  if (!Array.isArray(value)) return;
+  for (const permission of value) {
+    if (typeof permission === 'string' && !(permission in PermissionFlagsBits)) {
+      errors.push(`${path} has unknown permission "${permission}"`);
+    }
+  }
+}
+
+function checkList(
+  value: unknown,
+  path: string,
+  errors: string[],
+  check: (entry: Record<string, unknown>, entryPath: string) => void
+): void {
+  if (!Array.isArray(value)) return;
+  value.forEach((entry, i) => {
+    if (isRecord(entry)) check(entry, `${path}[${i}]`);
+    else errors.push(`${path}[${i}] must be an object`);
+  });
+}
+
+// Overwrite roles may also be roles that already exist on the server, so they aren't checked here.
+function checkOverwrites(value: unknown, path: string, errors: string[]): void {
+  checkList(value, path, errors, (overwrite, overwritePath) => {
+    checkSchema(overwrite, OVERWRITE_SCHEMA, overwritePath, errors);
+    checkPermissions(overwrite.allow, `${overwritePath}.allow`, errors);
+    checkPermissions(overwrite.deny, `${overwritePath}.deny`, errors);
+  });
+}
+
+function checkChannels(value: unknown, path: string, errors: string[]): void {
+  checkList(value, path, errors, (channel, channelPath) => {
+    checkSchema(channel, CHANNEL_SCHEMA, channelPath, errors);
+    if (typeof channel.name === 'string' && !CHANNEL_NAME.test(channel.name)) {
+      errors.push(`${channelPath}.name must be lowercase letters, digits, - or _`);
+    }
+    checkOverwrites(channel.overwrites, `${channelPath}.overwrites`, errors);
+    checkList(channel.pins, `${channelPath}.pins`, errors, (message, messagePath) => {
+      checkSchema(message, MESSAGE_SCHEMA, messagePath, errors);
+      if (message.content === undefined && message.embed === undefined) {
+        errors.push(`${messagePath} needs content or an embed`);
+      }
+      if (isRecord(message.embed) && checkSchema(message.embed, EMBED_SCHEMA, `${messagePath}.embed`, errors)) {
+        checkList(message.embed.fields, `${messagePath}.embed.fields`, errors, (field, fieldPath) =>
+          checkSchema(field, EMBED_FIELD_SCHEMA, fieldPath, errors)
+        );
+      }
+    });
+  });
+}
+
+export function validateBlueprint(value: unknown): string[] {
+  const errors: string[] = [];
+  if (!checkSchema(value, BLUEPRINT_SCHEMA, 'blueprint', errors)) return errors;
+
+  if (typeof value.version === 'number' && value.version !== BLUEPRINT_VERSION) {
+    return [`blueprint.version ${value.version} is not supported (expected ${BLUEPRINT_VERSION})`];
+  }
+
+  checkList(value.roles, 'blueprint.roles', errors, (role, rolePath) => {
+    checkSchema(role, ROLE_SCHEMA, rolePath, errors);
+    checkPermissions(role.permissions, `${rolePath}.permissions`, errors);
+  });
+
+  checkChannels(value.channels, 'blueprint.channels', errors);
+  checkList(value.categories, 'blueprint.categories', errors, (category, categoryPath) => {
+    checkSchema(category, CATEGORY_SCHEMA, categoryPath, errors);
+    checkOverwrites(category.overwrites, `${categoryPath}.overwrites`, errors);
+    checkChannels(category.channels, `${categoryPath}.channels`, errors);
+  });
+
+  if (errors.length > 0) return errors;
+
+  const names = blueprintChannels(value as unknown as DiscordBlueprint).map(({ channel }) => channel.name);
+  const duplicates = names.filter((name, i) => names.indexOf(name) !== i);
+  if (duplicates.length > 0) {
+    errors.push(`blueprint has duplicate channels: ${[...new Set(duplicates)].join(', ')}`);
+  }
+
+  for (const group of MEMBER_GROUPS) {
+    const roles = ((value.roles ?? []) as DiscordBlueprintRole[]).filter((role) => role.assign === group);
+    if (roles.length > 1) {
+      errors.push(`blueprint assigns ${group} to more than one role: ${roles.map((role) => role.name).join(', ')}`);
+    }
+  }
+
+  return errors;
+}
+
+type Named = { name: string; remove?: boolean };
+
+function mergeByName<T extends { name: string }, O extends Named>(
+  base: T[] | undefined,
+  override: O[] | undefined,
+  merge: (existing: T | undefined, change: O) => T
+): T[] | undefined {
+  if (!override) return base;
+
+  const result = [...(base ?? [])];
+  for (const change of override) {
+    const index = result.findIndex((entry) => entry.name === change.name);
+    if (change.remove) {
+      if (index !== -1) result.splice(index, 1);
+    } else if (index === -1) {
+      result.push(merge(undefined, change));
+    } else {
+      result[index] = merge(result[index], change);
+    }
+  }
+  return result;
+}
+
+function withoutRemove<T extends Named>(change: T): Omit<T, 'remove'> {
+  const { remove: _remove, ...rest } = change;
+  return rest;
+}
+
+export function mergeBlueprint(base: DiscordBlueprint, override: DiscordBlueprintOverride): DiscordBlueprint {
+  const mergeChannel = (existing: DiscordBlueprintChannel | undefined, change: Named & Partial<DiscordBlueprintChannel>) =>
+    ({ ...existing, ...withoutRemove(change) }) as DiscordBlueprintChannel;
+
+  return {
+    ...base,
+    roles: mergeByName(base.roles, override.roles, (existing, change) => ({ ...existing, ...withoutRemove(change) })),
+    channels: mergeByName(base.channels, override.channels, mergeChannel),
+    categories: mergeByName(base.categories, override.categories, (existing, change): DiscordBlueprintCategory => ({
+      name: change.name,
+      overwrites: change.overwrites ?? existing?.overwrites,
+      channels: mergeByName(existing?.channels, change.channels, mergeChannel) ?? [],
+    })),
+  };
+}
+
+const OVERRIDE_SCHEMA: Schema = {
+  roles: { type: 'array', optional: true },
+  channels: { type: 'array', optional: true },
+  categories: { type: 'array', optional: true },
+};
+
+const OVERRIDE_ENTRY_SCHEMA: Schema = {
+  name: { type: 'string' },
+  remove: { type: 'boolean', optional: true },
+  channels: { type: 'array', optional: true },
+};
+
+export function validateBlueprintOverride(value: unknown): string[] {
+  const shapeErrors: string[] = [];
+  if (!checkSchema(value, OVERRIDE_SCHEMA, 'override', shapeErrors)) return shapeErrors;
+  for (const key of ['roles', 'channels', 'categories'] as const) {
+    checkList(value[key], `override.${key}`, shapeErrors, (entry, entryPath) =>
+      checkSchema(entry, OVERRIDE_ENTRY_SCHEMA, entryPath, shapeErrors)
+    );
+  }
+  if (isRecord(value) && Array.isArray(value.categories)) {
+    value.categories.forEach((category, i) => {
+      if (isRecord(category)) {
+        checkList(category.channels, `override.categories[${i}].channels`, shapeErrors, (entry, entryPath) =>
+          checkSchema(entry, OVERRIDE_ENTRY_SCHEMA, entryPath, shapeErrors)
+        );
+      }
+    });
+  }
+  if (shapeErrors.length > 0) return shapeErrors;
+
+  // An override is checked by merging it onto an empty blueprint, then checking the result.
+  const empty: DiscordBlueprint = { version: BLUEPRINT_VERSION, name: 'override' };
+  return validateBlueprint(mergeBlueprint(empty, value as DiscordBlueprintOverride)).map((error) =>
+    error.replace(/^blueprint/, 'override')
+  );
+}
+
+export function resolveBlueprint(project: Project | null): DiscordBlueprint {
+  const choice = project?.planning.discordBlueprint;
+  const base = DISCORD_BLUEPRINTS[choice?.name ?? DEFAULT_BLUEPRINT] ?? DISCORD_BLUEPRINTS[DEFAULT_BLUEPRINT];
+  return choice?.override ? mergeBlueprint(base, choice.override) : base;
+}
+
+export function blueprintChannels(
+  blueprint: DiscordBlueprint
+): Array<{ channel: DiscordBlueprintChannel; category?: DiscordBlueprintCategory }> {
+  return [
+    ...(blueprint.channels ?? []).map((channel) => ({ channel })),
+    ...(blueprint.categories ?? []).flatMap((category) =>
+      (category.channels ?? []).map((channel) => ({ channel, category }))
+    ),
+  ];
+}
+
+// A channel's overwrites are merged into its category's per role, the channel winning for a permission both set,
+// so a bots-only channel in a private category stays hidden.
+export function effectiveOverwrites(
+  channel: DiscordBlueprintChannel,
+  category?: DiscordBlueprintCategory
+): DiscordBlueprintOverwrite[] {
+  const byRole = new Map<string, DiscordBlueprintOverwrite>();
+  for (const overwrite of [...(category?.overwrites ?? []), ...(channel.overwrites ?? [])]) {
+    const existing = byRole.get(overwrite.role);
+    if (!existing) {
+      byRole.set(overwrite.role, overwrite);
+      continue;
+    }
+
+    const allow = [
+      ...(existing.allow ?? []).filter((p) => !overwrite.deny?.includes(p) && !overwrite.allow?.includes(p)),
+      ...(overwrite.allow ?? []),
+    ];
+    const deny = [
+      ...(existing.deny ?? []).filter((p) => !overwrite.allow?.includes(p) && !overwrite.deny?.includes(p)),
+      ...(overwrite.deny ?? []),
+    ];
+    byRole.set(overwrite.role, {
+      role: overwrite.role,
+      ...(allow.length > 0 ? { allow } : {}),
+      ...(deny.length > 0 ? { deny } : {}),
+    });
+  }
+  return [...byRole.values()];
+}
+
+// Admins win over team when someone is listed in both.
+export function memberGroup(userId: string, isBot: boolean): DiscordMemberGroup {
+  if (isBot) return 'bots';
+  if (config.discord.adminUserIds.includes(userId)) return 'admins';
+  if (config.discord.teamUserIds.includes(userId)) return 'team';
+  return 'others';
+}
+
+export function renderText(text: string, vars: Record<string, string | undefined>): string | null {
+  const placeholders = [...text.matchAll(/\{\{\s*([\w.]+)\s*\}\}/g)].map((m) => m[1]);
+  if (placeholders.length > 0 && placeholders.every((key) => !vars[key]?.trim())) {
+    return null;
+  }
+  return text.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_match, key: string) => vars[key] ?? '').trim();
+}
+
+export interface RenderedMessage {
+  content?: string;
+  embed?: {
+    title: string;
+    description?: string;
+    color?: number;
+    fields: Array<{ name: string; value: string }>;
+    footer?: string;
+  };
+}
+
+// Embed field values are capped by Discord at 1024 characters.
+function truncate(text: string, max: number): string {
+  return text.length > max ? text.substring(0, max - 3) + '...' : text;
+}
+
+export function renderMessage(
+  message: DiscordBlueprintMessage,
+  vars: Record<string, string | undefined>
+): RenderedMessage {
+  const rendered: RenderedMessage = {};
+
+  if (message.content) {
+    rendered.content = renderText(message.content, vars) ?? undefined;
+  }
+
+  if (message.embed) {
+    const { embed } = message;
+    rendered.embed = {
+      title: renderText(embed.title, vars) ?? embed.title,
+      description: embed.description ? renderText(embed.description, vars) ?? undefined : undefined,
+      color: embed.color,
+      fields: (embed.fields ?? []).flatMap((field) => {
+        const value = renderText(field.value, vars);
+        return value ? [{ name: field.name, value: truncate(value, 1024) }] : [];
+      }),
+      footer: embed.footer ? renderText(embed.footer, vars) ?? undefined : undefined,
+    };
+  }
+
+  return rendered;
+}
+
+export async function listBlueprints(): Promise<ToolResult> {
+  return {
+    success: true,
+    data: {
+      default: DEFAULT_BLUEPRINT,
+      blueprints: Object.values(DISCORD_BLUEPRINTS).map((blueprint) => ({
+        name: blueprint.name,
+        description: blueprint.description,
+        roles: (blueprint.roles ?? []).map((r) => r.name),
+        channels: blueprintChannels(blueprint).map(({ channel, category }) =>
+          `${category ? `${category.name}/` : ''}#${channel.name}${channel.webhook ? ' (webhook)' : ''}`
+        ),
+      })),
+    },
+  };
+}
+
+export async function setProjectBlueprint(
+  projectId: string,
+  name: string = DEFAULT_BLUEPRINT,
+  overrideText?: string
+): Promise<ToolResult> {
+  const project = projectStore.getProject(projectId);
+  if (!project) {
+    return {
+      success: false,
+      error: `Project ${projectId} not found`,
+    };
+  }
+
+  if (!DISCORD_BLUEPRINTS[name]) {
+    return {
+      success: false,
+      error: `Unknown blueprint "${name}". Available: ${Object.keys(DISCORD_BLUEPRINTS).join(', ')}`,
+    };
+  }
+
+  let override: DiscordBlueprintOverride | undefined;
+  if (overrideText?.trim()) {
+    const parsed = parseStructuredText(overrideText);
+    if ('error' in parsed) return { success: false, error: parsed.error };
+
+    const errors = validateBlueprintOverride(parsed.value);
+    if (errors.length > 0) {
+      return {
+        success: false,
+        error: `The override has ${errors.length} problem(s):\n${errors.map((e) => `- ${e}`).join('\n')}`,
+      };
+    }
+    override = parsed.value as DiscordBlueprintOverride;
+  }
+
+  const merged = override ? mergeBlueprint(DISCORD_BLUEPRINTS[name], override) : DISCORD_BLUEPRINTS[name];
+  const errors = validateBlueprint(merged);
+  if (errors.length > 0) {
+    return {
+      success: false,
+      error: `The merged blueprint has ${errors.length} problem(s):\n${errors.map((e) => `- ${e}`).join('\n')}`,
+    };
+  }
+
+  projectStore.setDiscordBlueprint(projectId, { name, override });
+
+  return {
+    success: true,
+    data: {
+      projectId,
+      blueprint: name,
+      overridden: Boolean(override),
+      channels: blueprintChannels(merged).map(({ channel }) => channel.name),
+      message:
+        `Project ${project.name} now uses the ${name} blueprint${override ? ' with overrides' : ''}. ` +
+        'Run discord_setup_channels to apply it to the server.',
+    },
+  };
+}
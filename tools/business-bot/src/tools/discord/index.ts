@@ -26,7 +26,7 @@ export const discordTools: ChatCompletionTool[] = [
     type: 'function',
     function: {
       name: 'discord_setup_channels',
-      description: 'Set up the standard channel structure in a Discord server (standup, product, dev, pull-requests). Also automatically creates webhooks for product, dev, and pull-requests channels. The channel IDs and webhook URLs are stored in the project for use in GitHub configuration.',
+      description: 'Apply the project\'s Discord blueprint to a server (the standard blueprint by default: Owner, Team, Observer and Agent Bots roles given to admins, team members, everyone else and bots; a Project category with standup, product, dev and pull-requests, where only bots post in dev and pull-requests; webhooks for product, dev and pull-requests; and a pinned welcome message in #general). Safe to re-run: only missing or changed pieces are touched, and the result lists what was created, updated or left alone. The channel IDs, role IDs and webhook URLs are stored in the project; role IDs are used to give new members their role when they join.',
       parameters: {
         type: 'object',
         properties: {
@@ -34,6 +34,10 @@ export const discordTools: ChatCompletionTool[] = [
             type: 'string',
             description: 'Discord server ID',
           },
+          dryRun: {
+            type: 'boolean',
+            description: 'Only report what would change, without changing anything',
+          },
         },
         required: ['serverId'],
       },
@@ -98,6 +102,18 @@ export const discordTools: ChatCompletionTool[] = [
       },
     },
   },
+  {
+    type: 'function',
+    function: {
+      name: 'discord_list_blueprints',
+      description: 'List the built-in Discord server blueprints (roles, categories, channels and webhooks each one sets up)',
+      parameters: {
+        type: 'object',
+        properties: {},
+        required: [],
+      },
+    },
+  },
   {
     type: 'function',
     function: {
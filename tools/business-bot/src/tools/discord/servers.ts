@@ -1,8 +1,37 @@
-import { Client, ChannelType, GuildDefaultMessageNotifications, EmbedBuilder, PermissionFlagsBits, type Guild, type TextChannel, type ThreadChannel } from 'discord.js';
-import type { ToolResult, Project } from '../../types';
+import {
+  Client,
+  ChannelType,
+  GuildDefaultMessageNotifications,
+  EmbedBuilder,
+  PermissionFlagsBits,
+  OverwriteType,
+  type Guild,
+  type GuildMember,
+  type Role,
+  type Message,
+  type CategoryChannel,
+  type TextChannel,
+  type ThreadChannel,
+} from 'discord.js';
+import type {
+  ToolResult,
+  LockedChannel,
+  DiscordBlueprint,
+  DiscordBlueprintMessage,
+  DiscordBlueprintOverwrite,
+  DiscordMemberGroup,
+} from '../../types';
 import * as projectStore from '../../context/project-store';
 import { saveOwnedThread } from '../../context/persistence/sqlite';
 import { config } from '../../config';
+import {
+  resolveBlueprint,
+  blueprintChannels,
+  effectiveOverwrites,
+  memberGroup,
+  renderMessage,
+  type RenderedMessage,
+} from './blueprints';
 
 const PRODUCT_BOT_PERMISSIONS = [
   PermissionFlagsBits.SendMessages,
@@ -45,6 +74,10 @@ function getClient(): Client {
   return discordClient;
 }
 
+export function getGuild(serverId: string): Guild | undefined {
+  return getClient().guilds.cache.get(serverId);
+}
+
 function checkGuildPermissions(
   guild: Guild,
   required: bigint[]
@@ -185,89 +218,318 @@ export async function createServer(
   }
 }
 
-function buildWelcomeEmbed(project: Project | null, serverName: string, serverId: string): EmbedBuilder {
-  const productBotInviteUrl = buildProductBotInviteUrl(serverId);
-
-  const embed = new EmbedBuilder()
-    .setColor(0x5865F2)
-    .setTitle(`Welcome to ${serverName}!`)
-    .setDescription(
-      project?.description
-        ? `**${project.name}**\n\n${project.description}`
-        : `This server was created to support an automated development project.`
-    )
-    .addFields(
-      {
-        name: '🤖 How This Works',
-        value:
-          'This project is powered by an **AI agent team** that collaborates to build software. ' +
-          'When issues are created in GitHub, specialized agents work together to implement features, ' +
-          'fix bugs, and maintain code quality.',
-      },
-      {
-        name: '👥 The Agent Team',
-        value: [
-          '• **Tech Lead** - Architecture decisions and engineer guidance',
-          '• **Software Engineer** - Code implementation',
-          '• **Product Owner** - Feature alignment and acceptance criteria',
-          '• **Test Engineer** - Test coverage verification',
-          '• **Code Reviewer** - PR validation and quality gate',
-          '• **Security Engineer** - Security review and OWASP compliance',
-          '• **Documentation Sheriff** - Docs integrity and updates',
-          '• **Infrastructure Engineer** - AWS/CDK infrastructure',
-          '• **UX Designer** - User flows and accessibility',
-          '• **Project Manager** - Milestone tracking and coordination',
-        ].join('\n'),
-      },
-      {
-        name: '📢 Channel Guide',
-        value: [
-          '• **#general** - General discussion and announcements',
-          '• **#standup** - Daily standups and status updates',
-          '• **#product** - Product discussions and feature requests',
-          '• **#dev** - Technical discussions and agent updates',
-          '• **#pull-requests** - PR notifications and reviews',
-        ].join('\n'),
-      }
-    );
+interface BlueprintChanges {
+  created: string[];
+  updated: string[];
+  unchanged: string[];
+}
 
-  if (productBotInviteUrl) {
-    embed.addFields({
-      name: '🔗 Add the Product Bot',
-      value:
-        'To enable full project management features, add the **Product Bot** to this server:\n' +
-        `**[Click here to add Product Bot](${productBotInviteUrl})**\n\n` +
-        'The Product Bot handles:\n' +
-        '• Issue creation from Discord discussions\n' +
-        '• PR notifications and approval workflows\n' +
-        '• Agent status updates and monitoring\n' +
-        '• Team coordination and notifications',
-    });
-  }
+function permissionBits(names: string[] = []): bigint {
+  return names.reduce((acc, name) => acc | PermissionFlagsBits[name as keyof typeof PermissionFlagsBits], 0n);
+}
+
+type GuildWebhooks = Awaited<ReturnType<Guild['fetchWebhooks']>>;
+
+// Only incoming webhooks come back with a token, and without one there is no usable URL.
+function findUsableWebhook(webhooks: GuildWebhooks | undefined, channelId: string | undefined) {
+  return channelId ? webhooks?.find((w) => w.channelId === channelId && Boolean(w.token)) : undefined;
+}
 
-  embed.addFields({
-    name: '🚀 Getting Started',
-    value:
-      'Create issues in the GitHub repository to kick off work. ' +
-      'The agent team will pick them up and you\'ll see updates here in Discord as they progress. ' +
-      'Feel free to discuss ideas in #product or technical details in #dev!',
+function findRole(guild: Guild, name: string): Role | undefined {
+  return name === '@everyone' ? guild.roles.everyone : guild.roles.cache.find((r) => r.name === name);
+}
+
+function overwritesMatch(
+  channel: TextChannel | CategoryChannel,
+  guild: Guild,
+  overwrites: DiscordBlueprintOverwrite[]
+): boolean {
+  return overwrites.every((overwrite) => {
+    const role = findRole(guild, overwrite.role);
+    const existing = role && channel.permissionOverwrites.cache.get(role.id);
+    return (
+      existing !== undefined &&
+      existing.allow.bitfield === permissionBits(overwrite.allow) &&
+      existing.deny.bitfield === permissionBits(overwrite.deny)
+    );
   });
+}
 
-  embed.setFooter({ text: 'Powered by github-auto-team' }).setTimestamp();
+async function applyOverwrites(
+  channel: TextChannel | CategoryChannel,
+  guild: Guild,
+  overwrites: DiscordBlueprintOverwrite[],
+  warnings: string[]
+): Promise<void> {
+  for (const overwrite of overwrites) {
+    const role = findRole(guild, overwrite.role);
+    if (!role) {
+      warnings.push(`Role "${overwrite.role}" not found; skipped its permissions on ${channel.name}`);
+      continue;
+    }
 
-  if (project?.planning.businessPlan) {
-    embed.addFields({
-      name: '📋 Business Plan',
-      value: project.planning.businessPlan.length > 500
-        ? project.planning.businessPlan.substring(0, 497) + '...'
-        : project.planning.businessPlan,
+    // create() replaces the role's overwrite, so permissions not listed go back to inherited.
+    await channel.permissionOverwrites.create(role, {
+      ...Object.fromEntries((overwrite.allow ?? []).map((p) => [p, true])),
+      ...Object.fromEntries((overwrite.deny ?? []).map((p) => [p, false])),
     });
   }
+}
 
+function buildEmbed(rendered: NonNullable<RenderedMessage['embed']>): EmbedBuilder {
+  const embed = new EmbedBuilder().setTitle(rendered.title);
+  if (rendered.color !== undefined) embed.setColor(rendered.color);
+  if (rendered.description) embed.setDescription(rendered.description);
+  if (rendered.fields.length > 0) embed.addFields(rendered.fields);
+  if (rendered.footer) embed.setFooter({ text: rendered.footer });
   return embed;
 }
 
-export async function setupChannels(serverId: string): Promise<ToolResult> {
+function messageMatches(message: Message, rendered: RenderedMessage): boolean {
+  if ((message.content || undefined) !== rendered.content) return false;
+
+  const embed = message.embeds[0];
+  if (!rendered.embed) return !embed;
+  if (!embed) return false;
+
+  return (
+    embed.title === rendered.embed.title &&
+    (embed.description ?? undefined) === rendered.embed.description &&
+    (embed.color ?? undefined) === rendered.embed.color &&
+    (embed.footer?.text ?? undefined) === rendered.embed.footer &&
+    JSON.stringify(embed.fields.map((f) => ({ name: f.name, value: f.value }))) ===
+      JSON.stringify(rendered.embed.fields)
+  );
+}
+
+function pinLabel(rendered: RenderedMessage, channelName: string): string {
+  return `pin "${rendered.embed?.title ?? rendered.content?.split('\n')[0]}" in #${channelName}`;
+}
+
+// Pins are matched to the blueprint by embed title, or by content for plain messages.
+async function applyPins(
+  channel: TextChannel,
+  pins: DiscordBlueprintMessage[],
+  vars: Record<string, string | undefined>,
+  changes: BlueprintChanges,
+  dryRun: boolean
+): Promise<void> {
+  const botId = channel.client.user.id;
+  const pinned = (await channel.messages.fetchPins()).items
+    .map((pin) => pin.message)
+    .filter((m) => m.author.id === botId);
+
+  for (const pin of pins) {
+    const rendered = renderMessage(pin, vars);
+    const label = pinLabel(rendered, channel.name);
+    const embeds = rendered.embed ? [buildEmbed(rendered.embed)] : [];
+
+    const existing = pinned.find((m) =>
+      rendered.embed ? m.embeds[0]?.title === rendered.embed.title : m.content === rendered.content
+    );
+
+    if (!existing) {
+      changes.created.push(label);
+      if (!dryRun) {
+        const message = await channel.send({ content: rendered.content, embeds });
+        await message.pin();
+      }
+    } else if (!messageMatches(existing, rendered)) {
+      changes.updated.push(label);
+      if (!dryRun) await existing.edit({ content: rendered.content ?? null, embeds });
+    } else {
+      changes.unchanged.push(label);
+    }
+  }
+}
+
+// Brings a server in line with the blueprint. Existing roles, categories and channels are matched by
+// name and only changed where they differ; nothing that isn't in the blueprint is touched.
+async function applyBlueprint(
+  guild: Guild,
+  blueprint: DiscordBlueprint,
+  vars: Record<string, string | undefined>,
+  dryRun: boolean
+): Promise<{
+  changes: BlueprintChanges;
+  channelIds: Record<string, string>;
+  webhooks: Record<string, string>;
+  roleIds: Record<string, string>;
+  memberRoles: Partial<Record<DiscordMemberGroup, string>>;
+  warnings: string[];
+}> {
+  const changes: BlueprintChanges = { created: [], updated: [], unchanged: [] };
+  const channelIds: Record<string, string> = {};
+  const webhooks: Record<string, string> = {};
+  const roleIds: Record<string, string> = {};
+  const warnings: string[] = [];
+
+  for (const role of blueprint.roles ?? []) {
+    const existing = findRole(guild, role.name);
+    const permissions = role.permissions ? permissionBits(role.permissions) : undefined;
+
+    if (!existing) {
+      changes.created.push(`role ${role.name}`);
+      if (!dryRun) {
+        const created = await guild.roles.create({
+          name: role.name,
+          color: role.color,
+          hoist: role.hoist,
+          mentionable: role.mentionable,
+          permissions: permissions ?? 0n,
+        });
+        roleIds[role.name] = created.id;
+      }
+      continue;
+    }
+
+    roleIds[role.name] = existing.id;
+    if (
+      (role.color !== undefined && existing.color !== role.color) ||
+      (role.hoist !== undefined && existing.hoist !== role.hoist) ||
+      (role.mentionable !== undefined && existing.mentionable !== role.mentionable) ||
+      (permissions !== undefined && existing.permissions.bitfield !== permissions)
+    ) {
+      changes.updated.push(`role ${role.name}`);
+      if (!dryRun) {
+        await existing.edit({ color: role.color, hoist: role.hoist, mentionable: role.mentionable, permissions });
+      }
+    } else {
+      changes.unchanged.push(`role ${role.name}`);
+    }
+  }
+
+  // Members get their roles before any channel is locked, so the bot keeps access to what it manages.
+  const memberRoles: Partial<Record<DiscordMemberGroup, string>> = {};
+  const assignable = (blueprint.roles ?? []).filter((role) => role.assign);
+  if (assignable.length > 0) {
+    const members = await guild.members.fetch();
+    for (const role of assignable) {
+      const roleId = roleIds[role.name];
+      if (roleId) memberRoles[role.assign!] = roleId;
+
+      const missing = members.filter(
+        (member) => memberGroup(member.id, member.user.bot) === role.assign && !(roleId && member.roles.cache.has(roleId))
+      );
+      if (missing.size === 0) continue;
+
+      changes.updated.push(`role ${role.name} for ${missing.size} member(s)`);
+      if (dryRun || !roleId) continue;
+      for (const member of missing.values()) {
+        try {
+          await member.roles.add(roleId, 'Assigned by the project blueprint');
+        } catch (error) {
+          warnings.push(`Could not give ${member.user.tag} the ${role.name} role: ${error instanceof Error ? error.message : 'unknown error'}`);
+        }
+      }
+    }
+  }
+
+  const categories = new Map<string, CategoryChannel | undefined>();
+  for (const category of blueprint.categories ?? []) {
+    let channel = guild.channels.cache.find(
+      (ch): ch is CategoryChannel => ch.type === ChannelType.GuildCategory && ch.name.toLowerCase() === category.name.toLowerCase()
+    );
+    const overwrites = category.overwrites ?? [];
+
+    if (!channel) {
+      changes.created.push(`category ${category.name}`);
+      if (!dryRun) {
+        channel = await guild.channels.create({ name: category.name, type: ChannelType.GuildCategory });
+        await applyOverwrites(channel, guild, overwrites, warnings);
+      }
+    } else if (!overwritesMatch(channel, guild, overwrites)) {
+      changes.updated.push(`category ${category.name} (permissions)`);
+      if (!dryRun) await applyOverwrites(channel, guild, overwrites, warnings);
+    } else {
+      changes.unchanged.push(`category ${category.name}`);
+    }
+
+    categories.set(category.name, channel);
+  }
+
+  let existingWebhooks: GuildWebhooks | undefined;
+  try {
+    existingWebhooks = await guild.fetchWebhooks();
+  } catch (error) {
+    warnings.push(`Could not read webhooks: ${error instanceof Error ? error.message : 'unknown error'}`);
+  }
+
+  for (const { channel: spec, category } of blueprintChannels(blueprint)) {
+    const parent = category ? categories.get(category.name) : undefined;
+    const overwrites = effectiveOverwrites(spec, category);
+    let channel = guild.channels.cache.find(
+      (ch): ch is TextChannel => ch.type === ChannelType.GuildText && ch.name === spec.name
+    );
+
+    if (!channel) {
+      changes.created.push(`#${spec.name}`);
+      if (dryRun) {
+        if (spec.webhook) changes.created.push(`webhook #${spec.name}`);
+        for (const pin of spec.pins ?? []) {
+          changes.created.push(pinLabel(renderMessage(pin, vars), spec.name));
+        }
+        continue;
+      }
+
+      channel = await guild.channels.create({
+        name: spec.name,
+        type: ChannelType.GuildText,
+        parent: parent?.id,
+        topic: spec.topic,
+      });
+      await applyOverwrites(channel, guild, overwrites, warnings);
+    } else {
+      const drift: string[] = [];
+      if (category && (!parent || channel.parentId !== parent.id)) drift.push('category');
+      if (spec.topic !== undefined && (channel.topic ?? '') !== spec.topic) drift.push('topic');
+      if (!overwritesMatch(channel, guild, overwrites)) drift.push('permissions');
+
+      if (drift.length > 0) {
+        changes.updated.push(`#${spec.name} (${drift.join(', ')})`);
+        if (!dryRun) {
+          if (drift.includes('category') && parent) await channel.setParent(parent.id, { lockPermissions: false });
+          if (drift.includes('topic')) await channel.setTopic(spec.topic ?? null);
+          if (drift.includes('permissions')) await applyOverwrites(channel, guild, overwrites, warnings);
+        }
+      } else {
+        changes.unchanged.push(`#${spec.name}`);
+      }
+    }
+
+    channelIds[spec.name] = channel.id;
+
+    if (spec.webhook) {
+      const usable = findUsableWebhook(existingWebhooks, channel.id);
+      if (usable) {
+        webhooks[spec.name] = usable.url;
+        changes.unchanged.push(`webhook #${spec.name}`);
+      } else {
+        changes.created.push(`webhook #${spec.name}`);
+        if (!dryRun) {
+          try {
+            const webhook = await channel.createWebhook({
+              name: `${guild.name} - ${spec.name}`,
+              reason: 'Auto-created for CI/CD pipeline notifications',
+            });
+            webhooks[spec.name] = webhook.url;
+          } catch (webhookError) {
+            console.error(`Failed to create webhook for #${spec.name}:`, webhookError);
+            warnings.push(`Failed to create webhook for #${spec.name}`);
+          }
+        }
+      }
+    }
+
+    if (spec.pins && spec.pins.length > 0) {
+      await applyPins(channel, spec.pins, vars, changes, dryRun);
+    }
+  }
+
+  return { changes, channelIds, webhooks, roleIds, memberRoles, warnings };
+}
+
+export async function setupChannels(serverId: string, dryRun = false): Promise<ToolResult> {
   try {
     const client = getClient();
     const guild = client.guilds.cache.get(serverId);
@@ -279,11 +541,25 @@ export async function setupChannels(serverId: string): Promise<ToolResult> {
       };
     }
 
-    const permCheck = checkGuildPermissions(guild, [
+    const matchingProject = projectStore.listProjects().find(
+      (p) => p.resources.discord?.serverId === serverId
+    );
+    const blueprint = resolveBlueprint(matchingProject ?? null);
+
+    const required = [
       PermissionFlagsBits.ManageChannels,
       PermissionFlagsBits.SendMessages,
       PermissionFlagsBits.ManageWebhooks,
-    ]);
+    ];
+    const specs = blueprintChannels(blueprint);
+    if (blueprint.roles?.length || specs.some(({ channel, category }) => effectiveOverwrites(channel, category).length > 0)) {
+      required.push(PermissionFlagsBits.ManageRoles);
+    }
+    if (specs.some(({ channel }) => channel.pins?.length)) {
+      required.push(PermissionFlagsBits.ManageMessages);
+    }
+
+    const permCheck = checkGuildPermissions(guild, required);
     if (!permCheck.hasPermission) {
       return {
         success: false,
@@ -291,101 +567,59 @@ export async function setupChannels(serverId: string): Promise<ToolResult> {
       };
     }
 
-    const channelNames = ['standup', 'product', 'dev', 'pull-requests'];
-    const createdChannels: string[] = [];
-    const channelIds: Record<string, string> = {};
-    const webhooks: Record<string, string> = {};
+    const vars = {
+      'project.name': matchingProject?.name,
+      'project.description': matchingProject?.description,
+      'project.businessPlan': matchingProject?.planning.businessPlan,
+      'server.name': guild.name,
+      productBotInviteUrl: buildProductBotInviteUrl(serverId) ?? undefined,
+    };
 
-    let category = guild.channels.cache.find(
-      (ch) => ch.type === ChannelType.GuildCategory && ch.name.toLowerCase() === 'project'
+    const { changes, channelIds, webhooks, roleIds, memberRoles, warnings } = await applyBlueprint(
+      guild,
+      blueprint,
+      vars,
+      dryRun
     );
 
-    if (!category) {
-      category = await guild.channels.create({
-        name: 'Project',
-        type: ChannelType.GuildCategory,
-      });
-    }
-
-    for (const name of channelNames) {
-      let channel = guild.channels.cache.find(
-        (ch) => ch.type === ChannelType.GuildText && ch.name === name
-      ) as TextChannel | undefined;
-
-      if (!channel) {
-        channel = await guild.channels.create({
-          name,
-          type: ChannelType.GuildText,
-          parent: category.id,
-        }) as TextChannel;
-        createdChannels.push(name);
-      }
-
-      channelIds[name] = channel.id;
+    const channelNames = specs.map(({ channel }) => channel.name);
+    const webhookChannels = specs.filter(({ channel }) => channel.webhook).map(({ channel }) => channel.name);
 
-      if (['product', 'dev', 'pull-requests'].includes(name)) {
-        try {
-          const webhook = await channel.createWebhook({
-            name: `${guild.name} - ${name}`,
-            reason: 'Auto-created for CI/CD pipeline notifications',
-          });
-          webhooks[name] = webhook.url;
-        } catch (webhookError) {
-          console.error(`Failed to create webhook for #${name}:`, webhookError);
-        }
-      }
-    }
-
-    const projects = projectStore.listProjects();
-    const matchingProject = projects.find(
-      (p) => p.resources.discord?.serverId === serverId
-    );
-
-    if (matchingProject) {
+    if (matchingProject && !dryRun) {
+      const existing = matchingProject.resources.discord!;
       projectStore.setDiscordResource(matchingProject.id, {
-        serverId,
+        ...existing,
         serverName: guild.name,
         channels: channelNames,
-        channelIds,
-        webhooks,
+        channelIds: { ...existing.channelIds, ...channelIds },
+        roleIds: { ...existing.roleIds, ...roleIds },
+        memberRoles,
       });
+      projectStore.setWebhookUrls(matchingProject.id, webhooks);
     }
 
-    let generalChannel = guild.channels.cache.find(
-      (ch) => ch.type === ChannelType.GuildText && ch.name === 'general'
-    ) as TextChannel | undefined;
-
-    if (!generalChannel) {
-      generalChannel = await guild.channels.create({
-        name: 'general',
-        type: ChannelType.GuildText,
-      }) as TextChannel;
-    }
-
-    channelIds['general'] = generalChannel.id;
-
-    if (generalChannel) {
-      const welcomeEmbed = buildWelcomeEmbed(matchingProject ?? null, guild.name, serverId);
-      await generalChannel.send({ embeds: [welcomeEmbed] });
-    }
+    const summary = [
+      changes.created.length > 0 ? `${dryRun ? 'Would create' : 'Created'}: ${changes.created.join(', ')}` : '',
+      changes.updated.length > 0 ? `${dryRun ? 'Would update' : 'Updated'}: ${changes.updated.join(', ')}` : '',
+      changes.unchanged.length > 0 ? `Left alone: ${changes.unchanged.join(', ')}` : '',
+    ].filter(Boolean);
 
     return {
       success: true,
       data: {
         serverId,
-        createdChannels,
-        allChannels: [...channelNames, 'general'],
+        blueprint: blueprint.name,
+        dryRun,
+        changes,
         channelIds,
-        webhooks: {
-          product: webhooks['product'] ? '✓ Created' : '✗ Failed',
-          dev: webhooks['dev'] ? '✓ Created' : '✗ Failed',
-          'pull-requests': webhooks['pull-requests'] ? '✓ Created' : '✗ Failed',
-        },
-        webhooksReady: Object.keys(webhooks).length === 3,
-        welcomeMessageSent: true,
-        message: createdChannels.length > 0
-          ? `Created channels: ${createdChannels.join(', ')}. Webhooks created for product, dev, and pull-requests. Welcome message posted in #general.`
-          : 'All standard channels already exist. Webhooks created. Welcome message posted in #general.',
+        webhooks: Object.fromEntries(
+          webhookChannels.map((name) => [name, webhooks[name] ? '✓ Ready' : dryRun ? '… Would create' : '✗ Failed'])
+        ),
+        webhooksReady: webhookChannels.every((name) => webhooks[name]),
+        ...(warnings.length > 0 ? { warnings } : {}),
+        message:
+          `${dryRun ? 'Dry run of' : 'Applied'} the ${blueprint.name} blueprint to ${guild.name}.\n` +
+          (summary.length > 0 ? summary.join('\n') : 'Nothing to do.'),
       },
     };
   } catch (error) {
@@ -396,6 +630,36 @@ export async function setupChannels(serverId: string): Promise<ToolResult> {
   }
 }
 
+export function webhookIdFromUrl(url: string): string | undefined {
+  return url.match(/\/webhooks\/(\d+)\//)?.[1];
+}
+
+// Returns true once the webhook is gone, including when it had already been deleted.
+export async function deleteWebhook(serverId: string, webhookId: string, reason?: string): Promise<boolean> {
+  const guild = getClient().guilds.cache.get(serverId);
+  if (!guild) return false;
+
+  try {
+    const webhook = (await guild.fetchWebhooks()).get(webhookId);
+    if (webhook) await webhook.delete(reason);
+    return true;
+  } catch (error) {
+    console.error(`Failed to delete webhook ${webhookId}:`, error);
+    return false;
+  }
+}
+
+// Called when someone joins a project's server; gives them the role recorded for their group.
+export async function assignMemberRole(member: GuildMember): Promise<string | null> {
+  const discord = projectStore.listProjects().find((p) => p.resources.discord?.serverId === member.guild.id)?.resources
+    .discord;
+  const roleId = discord?.memberRoles?.[memberGroup(member.id, member.user.bot)];
+  if (!roleId || !member.guild.roles.cache.has(roleId)) return null;
+
+  await member.roles.add(roleId, 'Assigned by the project blueprint');
+  return member.guild.roles.cache.get(roleId)!.name;
+}
+
 export async function createWebhook(
   serverId: string,
   channelName: string,
@@ -443,15 +707,9 @@ export async function createWebhook(
       (p) => p.resources.discord?.serverId === serverId
     );
 
+    // The URL carries the webhook's token, so it is only kept encrypted on the project and never returned.
     if (matchingProject && matchingProject.resources.discord) {
-      const existingWebhooks = matchingProject.resources.discord.webhooks ?? {};
-      projectStore.setDiscordResource(matchingProject.id, {
-        ...matchingProject.resources.discord,
-        webhooks: {
-          ...existingWebhooks,
-          [channelName]: webhook.url,
-        },
-      });
+      projectStore.setWebhookUrls(matchingProject.id, { [channelName]: webhook.url });
     }
 
     return {
@@ -460,7 +718,7 @@ export async function createWebhook(
         channelId: channel.id,
         channelName,
         webhookId: webhook.id,
-        webhookUrl: webhook.url,
+        stored: Boolean(matchingProject?.resources.discord),
         message: `Created webhook for #${channelName}`,
       },
     };
@@ -472,6 +730,202 @@ export async function createWebhook(
   }
 }
 
+function overwriteState(channel: TextChannel, roleId: string, permission: bigint): boolean | null {
+  const overwrite = channel.permissionOverwrites.cache.get(roleId);
+  if (overwrite?.allow.has(permission)) return true;
+  if (overwrite?.deny.has(permission)) return false;
+  return null;
+}
+
+// Stops @everyone, and every role allowed to post (e.g. Agent Bots on #dev), posting in the given channels and
+// returns what they could do before, for unlockChannels.
+export async function lockChannels(serverId: string, channelIds: string[]): Promise<ToolResult> {
+  const guild = getGuild(serverId);
+  if (!guild) {
+    return {
+      success: false,
+      error: `Server ${serverId} not found`,
+    };
+  }
+
+  const permCheck = checkGuildPermissions(guild, [PermissionFlagsBits.ManageRoles]);
+  if (!permCheck.hasPermission) {
+    return {
+      success: false,
+      error: `Missing permissions: ${permCheck.missing.join(', ')}`,
+    };
+  }
+
+  const everyone = guild.roles.everyone;
+  const locked: LockedChannel[] = [];
+
+  try {
+    for (const channelId of channelIds) {
+      const channel = guild.channels.cache.get(channelId);
+      if (!channel || channel.type !== ChannelType.GuildText) continue;
+
+      const roleIds = channel.permissionOverwrites.cache
+        .filter(
+          (overwrite) =>
+            overwrite.type === OverwriteType.Role &&
+            overwrite.id !== everyone.id &&
+            overwrite.allow.any([PermissionFlagsBits.SendMessages, PermissionFlagsBits.SendMessagesInThreads])
+        )
+        .map((overwrite) => overwrite.id);
+
+      const previous: LockedChannel = {
+        channelId,
+        sendMessages: overwriteState(channel, everyone.id, PermissionFlagsBits.SendMessages),
+        sendMessagesInThreads: overwriteState(channel, everyone.id, PermissionFlagsBits.SendMessagesInThreads),
+        roles: roleIds.map((roleId) => ({
+          roleId,
+          sendMessages: overwriteState(channel, roleId, PermissionFlagsBits.SendMessages),
+          sendMessagesInThreads: overwriteState(channel, roleId, PermissionFlagsBits.SendMessagesInThreads),
+        })),
+      };
+
+      // Recorded before editing so a failure part way through the channel is still put back.
+      locked.push(previous);
+      for (const roleId of [everyone.id, ...roleIds]) {
+        await channel.permissionOverwrites.edit(
+          roleId,
+          { SendMessages: false, SendMessagesInThreads: false },
+          { reason: 'Project archived by Business Bot' }
+        );
+      }
+    }
+  } catch (error) {
+    // Put back whatever was already locked so a failed lock leaves nothing half done.
+    await unlockChannels(serverId, locked);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to lock channels',
+    };
+  }
+
+  return {
+    success: true,
+    data: {
+      serverId,
+      locked,
+      message: `Locked ${locked.length} channel(s) in ${guild.name}`,
+    },
+  };
+}
+
+export async function unlockChannels(serverId: string, channels: LockedChannel[]): Promise<ToolResult> {
+  const guild = getGuild(serverId);
+  if (!guild) {
+    return {
+      success: false,
+      error: `Server ${serverId} not found`,
+    };
+  }
+
+  const everyone = guild.roles.everyone;
+  const missing: string[] = [];
+
+  try {
+    for (const previous of channels) {
+      const channel = guild.channels.cache.get(previous.channelId);
+      if (!channel || channel.type !== ChannelType.GuildText) {
+        missing.push(previous.channelId);
+        continue;
+      }
+
+      await channel.permissionOverwrites.edit(
+        everyone,
+        { SendMessages: previous.sendMessages, SendMessagesInThreads: previous.sendMessagesInThreads },
+        { reason: 'Project restored by Business Bot' }
+      );
+
+      for (const role of previous.roles ?? []) {
+        if (!guild.roles.cache.has(role.roleId)) continue;
+        await channel.permissionOverwrites.edit(
+          role.roleId,
+          { SendMessages: role.sendMessages, SendMessagesInThreads: role.sendMessagesInThreads },
+          { reason: 'Project restored by Business Bot' }
+        );
+      }
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to unlock channels',
+    };
+  }
+
+  return {
+    success: true,
+    data: {
+      serverId,
+      unlocked: channels.length - missing.length,
+      message:
+        `Unlocked ${channels.length - missing.length} channel(s) in ${guild.name}` +
+        (missing.length > 0 ? ` (${missing.length} no longer exist)` : ''),
+    },
+  };
+}
+
+// Read-only: finds the blueprint's channels and any usable webhooks already in a server.
+export async function discoverServerResources(serverId: string, blueprint: DiscordBlueprint): Promise<{
+  serverName: string;
+  channels: string[];
+  channelIds: Record<string, string>;
+  webhooks: Record<string, string>;
+  warnings: string[];
+} | null> {
+  const guild = getGuild(serverId);
+  if (!guild) return null;
+
+  const specs = blueprintChannels(blueprint).map(({ channel }) => channel);
+  const expectedChannels = specs.map((spec) => spec.name);
+  const webhookChannels = specs.filter((spec) => spec.webhook).map((spec) => spec.name);
+
+  const channelIds: Record<string, string> = {};
+  for (const name of [...expectedChannels, 'general']) {
+    const channel = guild.channels.cache.find(
+      (ch) => ch.type === ChannelType.GuildText && ch.name === name
+    );
+    if (channel) {
+      channelIds[name] = channel.id;
+    }
+  }
+
+  const webhooks: Record<string, string> = {};
+  const warnings: string[] = [];
+
+  try {
+    const existing = await guild.fetchWebhooks();
+    for (const name of webhookChannels) {
+      const webhook = findUsableWebhook(existing, channelIds[name]);
+      if (webhook) {
+        webhooks[name] = webhook.url;
+      }
+    }
+  } catch (error) {
+    warnings.push(`Could not read webhooks: ${error instanceof Error ? error.message : 'unknown error'}`);
+  }
+
+  const missingChannels = expectedChannels.filter((name) => !channelIds[name]);
+  if (missingChannels.length > 0) {
+    warnings.push(`Missing blueprint channels: ${missingChannels.map((n) => `#${n}`).join(', ')}`);
+  }
+
+  const missingWebhooks = webhookChannels.filter((name) => channelIds[name] && !webhooks[name]);
+  if (missingWebhooks.length > 0) {
+    warnings.push(`No webhook found for: ${missingWebhooks.map((n) => `#${n}`).join(', ')}`);
+  }
+
+  return {
+    serverName: guild.name,
+    channels: expectedChannels.filter((name) => channelIds[name]),
+    channelIds,
+    webhooks,
+    warnings,
+  };
+}
+
 export async function getChannelIds(serverId: string): Promise<ToolResult> {
   try {
     const client = getClient();
@@ -0,0 +1,84 @@
+import type { DnsRecord } from '../../../types';
+import { buildTemplateRecords, mergeDnsRecords, formatDnsDiff } from '../templates';
+
+const existing: DnsRecord[] = [
+  { hostName: '@', type: 'A', address: '1.2.3.4', ttl: 1800 },
+  { hostName: 'www', type: 'A', address: '1.2.3.4', ttl: 1800 },
+  { hostName: '@', type: 'TXT', address: 'v=spf1 include:mailgun.org ~all', ttl: 1800 },
+  { hostName: '@', type: 'TXT', address: 'google-site-verification=abc', ttl: 1800 },
+  { hostName: 'blog', type: 'CNAME', address: 'ghost.io.', ttl: 1800 },
+];
+
+describe('buildTemplateRecords', () => {
+  it('reports missing template parameters', () => {
+    expect(buildTemplateRecords('example.com', ['github_pages'], {})).toEqual({
+      error: 'The GitHub Pages template needs: githubUser',
+    });
+  });
+
+  it('expands one DKIM CNAME per SES token', () => {
+    const result = buildTemplateRecords('example.com', ['ses_verification'], {
+      sesVerificationToken: 'verify',
+      sesDkimTokens: 'aaa, bbb,ccc',
+    });
+
+    expect('records' in result && result.records.map((r) => r.hostName)).toEqual([
+      '_amazonses',
+      'aaa._domainkey',
+      'bbb._domainkey',
+      'ccc._domainkey',
+    ]);
+  });
+});
+
+describe('mergeDnsRecords', () => {
+  it('replaces conflicting records and keeps unrelated ones', () => {
+    const built = buildTemplateRecords('example.com', ['vercel', 'google_workspace'], {});
+    if (!('records' in built)) throw new Error(built.error);
+
+    const merged = mergeDnsRecords(existing, built.records);
+
+    expect(merged).toEqual([
+      { hostName: '@', type: 'TXT', address: 'google-site-verification=abc', ttl: 1800 },
+      { hostName: 'blog', type: 'CNAME', address: 'ghost.io.', ttl: 1800 },
+      ...built.records,
+    ]);
+  });
+
+  it('is idempotent', () => {
+    const built = buildTemplateRecords('example.com', ['github_pages'], { githubUser: 'acme' });
+    if (!('records' in built)) throw new Error(built.error);
+
+    const once = mergeDnsRecords(existing, built.records);
+    expect(mergeDnsRecords(once, built.records)).toEqual(once);
+  });
+
+  it('matches hostname targets with or without the trailing dot', () => {
+    const built = buildTemplateRecords('example.com', ['vercel', 'google_workspace'], {});
+    if (!('records' in built)) throw new Error(built.error);
+
+    // As Namecheap returns them: no trailing dots
+    const current = built.records.map((r) => ({ ...r, address: r.address.replace(/\.$/, '') }));
+    const merged = mergeDnsRecords(current, built.records);
+
+    expect(formatDnsDiff(current, merged)).not.toMatch(/^[-+]/m);
+  });
+});
+
+describe('formatDnsDiff', () => {
+  it('marks removed, kept and added records', () => {
+    const after = mergeDnsRecords(existing.slice(0, 2), [
+      { hostName: 'www', type: 'CNAME', address: 'cname.vercel-dns.com.', ttl: 1800 },
+    ]);
+
+    expect(formatDnsDiff(existing.slice(0, 2), after)).toBe(
+      [
+        '```diff',
+        '  A @ → 1.2.3.4 (TTL 1800)',
+        '- A www → 1.2.3.4 (TTL 1800)',
+        '+ CNAME www → cname.vercel-dns.com. (TTL 1800)',
+        '```',
+      ].join('\n')
+    );
+  });
+});
@@ -1,9 +1,10 @@
-import type { ToolResult, NamecheapDnsRecord } from '../../types';
-import * as namecheap from '../../services/namecheap';
+import type { ToolResult, DnsRecord, RegistrarId } from '../../types';
+import { resolveRegistrar } from './domains';
+import { formatDnsDiff, sameRecordSet } from './templates';
 
-export async function getDnsRecords(domain: string): Promise<ToolResult> {
+export async function getDnsRecords(domain: string, registrarId?: RegistrarId): Promise<ToolResult> {
   try {
-    const records = await namecheap.getDnsRecords(domain);
+    const records = await resolveRegistrar(domain, registrarId).getDnsRecords(domain);
 
     return {
       success: true,
@@ -32,10 +33,37 @@ export async function getDnsRecords(domain: string): Promise<ToolResult> {
 
 export async function setDnsRecords(
   domain: string,
-  records: NamecheapDnsRecord[]
+  records: DnsRecord[],
+  hasApproval = false,
+  registrarId?: RegistrarId
 ): Promise<ToolResult> {
   try {
-    const success = await namecheap.setDnsRecords(domain, records);
+    const registrar = resolveRegistrar(domain, registrarId);
+    const before = await registrar.getDnsRecords(domain);
+    const diff = formatDnsDiff(before, records);
+
+    if (sameRecordSet(before, records)) {
+      return {
+        success: true,
+        data: {
+          domain,
+          recordsSet: 0,
+          message: `${domain} already has exactly these records; nothing to change.`,
+        },
+      };
+    }
+
+    // The records replace everything on the domain, so the approval shows what goes away too
+    if (!hasApproval) {
+      return {
+        success: false,
+        requiresApproval: true,
+        approvalPrompt: `I'd like to replace the DNS records of **${domain}**. The full record set will change like this:\n\n${diff}\n\nDo you approve this DNS change?`,
+        error: 'Replacing DNS records requires human approval',
+      };
+    }
+
+    const success = await registrar.setDnsRecords(domain, records);
 
     if (success) {
       return {
@@ -43,7 +71,8 @@ export async function setDnsRecords(
         data: {
           domain,
           recordsSet: records.length,
-          message: `Successfully set ${records.length} DNS record(s) for ${domain}`,
+          diff,
+          message: `Successfully set ${records.length} DNS record(s) for ${domain}:\n\n${diff}`,
         },
       };
     } else {
@@ -62,10 +91,19 @@ export async function setDnsRecords(
 
 export async function setNameservers(
   domain: string,
-  nameservers: string[]
+  nameservers: string[],
+  registrarId?: RegistrarId
 ): Promise<ToolResult> {
   try {
-    const success = await namecheap.setNameservers(domain, nameservers);
+    const registrar = resolveRegistrar(domain, registrarId);
+    if (!registrar.setNameservers) {
+      return {
+        success: false,
+        error: `${registrar.displayName} doesn't support changing nameservers`,
+      };
+    }
+
+    const success = await registrar.setNameservers(domain, nameservers);
 
     if (success) {
       return {
@@ -92,14 +130,16 @@ export async function setNameservers(
 
 export async function addDnsRecord(
   domain: string,
-  record: NamecheapDnsRecord
+  record: DnsRecord,
+  registrarId?: RegistrarId
 ): Promise<ToolResult> {
   try {
-    const existingRecords = await namecheap.getDnsRecords(domain);
+    const registrar = resolveRegistrar(domain, registrarId);
+    const existingRecords = await registrar.getDnsRecords(domain);
 
     const newRecords = [...existingRecords, record];
 
-    const success = await namecheap.setDnsRecords(domain, newRecords);
+    const success = await registrar.setDnsRecords(domain, newRecords);
 
     if (success) {
       return {
@@ -128,10 +168,12 @@ export async function addDnsRecord(
 export async function removeDnsRecord(
   domain: string,
   hostName: string,
-  recordType: string
+  recordType: string,
+  registrarId?: RegistrarId
 ): Promise<ToolResult> {
   try {
-    const existingRecords = await namecheap.getDnsRecords(domain);
+    const registrar = resolveRegistrar(domain, registrarId);
+    const existingRecords = await registrar.getDnsRecords(domain);
 
     const newRecords = existingRecords.filter(
       (r) => !(r.hostName === hostName && r.type === recordType)
@@ -144,7 +186,7 @@ export async function removeDnsRecord(
       };
     }
 
-    const success = await namecheap.setDnsRecords(domain, newRecords);
+    const success = await registrar.setDnsRecords(domain, newRecords);
 
     if (success) {
       return {
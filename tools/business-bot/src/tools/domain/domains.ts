@@ -0,0 +1,314 @@
+import type { ToolResult, RegistrarId } from '../../types';
+import { getRegistrar, type DomainRegistrar } from '../../services/registrar';
+import * as projectStore from '../../context/project-store';
+import * as costStore from '../../context/cost-store';
+
+const DEFAULT_TLDS = ['com', 'net', 'org', 'io'];
+
+// A domain attached to a project stays with the registrar that holds it, unless the caller names one.
+export function resolveRegistrar(domain?: string, registrarId?: RegistrarId): DomainRegistrar {
+  if (registrarId) return getRegistrar(registrarId);
+
+  const owner = domain ? projectStore.findProjectByDomain(domain) : null;
+  const recorded = owner ? projectStore.getDomain(owner.project, owner.key)?.registrar : undefined;
+
+  if (recorded === 'external') {
+    throw new Error(`${domain} is held at a registrar the bot doesn't manage; change it there directly`);
+  }
+
+  return getRegistrar(recorded);
+}
+
+export async function searchDomains(
+  keyword: string,
+  tlds: string[] = DEFAULT_TLDS,
+  registrarId?: RegistrarId
+): Promise<ToolResult> {
+  try {
+    const registrar = resolveRegistrar(undefined, registrarId);
+    const results = await registrar.checkAvailability(tlds.map((tld) => `${keyword}.${tld}`));
+
+    const available = results.filter((r) => r.available);
+    const unavailable = results.filter((r) => !r.available);
+
+    return {
+      success: true,
+      data: {
+        keyword,
+        registrar: registrar.id,
+        available: available.map((r) => r.domain),
+        unavailable: unavailable.map((r) => r.domain),
+        summary: available.length > 0
+          ? `Found ${available.length} available domain(s): ${available.map((r) => r.domain).join(', ')}`
+          : 'No available domains found with those TLDs',
+      },
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to search domains',
+    };
+  }
+}
+
+export async function checkDomain(domain: string, registrarId?: RegistrarId): Promise<ToolResult> {
+  try {
+    const [result] = await resolveRegistrar(undefined, registrarId).checkAvailability([domain]);
+
+    return {
+      success: true,
+      data: {
+        domain,
+        available: result.available,
+        message: result.available
+          ? `${domain} is available for registration!`
+          : `${domain} is not available`,
+      },
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to check domain',
+    };
+  }
+}
+
+export async function getDomainPricing(domain: string, registrarId?: RegistrarId): Promise<ToolResult> {
+  try {
+    const registrar = resolveRegistrar(undefined, registrarId);
+    const result = await registrar.getPricing(domain);
+
+    return {
+      success: true,
+      data: {
+        domain,
+        registrar: registrar.id,
+        available: result.available,
+        price: result.price,
+        icannFee: result.icannFee,
+        currency: result.currency,
+        message: result.available
+          ? `${domain} is available for ${result.price ? `$${result.price}` : 'check pricing'}/year` +
+            (result.icannFee ? ` (+ $${result.icannFee} ICANN fee)` : '')
+          : `${domain} is not available`,
+      },
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to get pricing',
+    };
+  }
+}
+
+export async function listDomains(registrarId?: RegistrarId): Promise<ToolResult> {
+  try {
+    const registrar = resolveRegistrar(undefined, registrarId);
+    const domains = await registrar.listDomains();
+
+    return {
+      success: true,
+      data: {
+        registrar: registrar.id,
+        count: domains.length,
+        domains: domains.map((d) => ({
+          domain: d.domain,
+          expires: d.expires,
+          isExpired: d.isExpired,
+          autoRenew: d.autoRenew,
+        })),
+        summary: domains.length > 0
+          ? `You own ${domains.length} domain(s)`
+          : `No domains found in the ${registrar.displayName} account`,
+      },
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to list domains',
+    };
+  }
+}
+
+export async function getDomainInfo(domain: string, registrarId?: RegistrarId): Promise<ToolResult> {
+  try {
+    const info = await resolveRegistrar(domain, registrarId).getDomainInfo(domain);
+
+    return {
+      success: true,
+      data: {
+        domain: info.domain,
+        created: info.created,
+        expires: info.expires,
+        status: info.status,
+        nameservers: info.nameservers,
+      },
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to get domain info',
+    };
+  }
+}
+
+export async function registerDomain(
+  domain: string,
+  projectId: string,
+  years = 1,
+  hasApproval = false,
+  registrarId?: RegistrarId,
+  resourceKey?: string
+): Promise<ToolResult> {
+  const project = projectStore.getProject(projectId);
+  if (!project) {
+    return {
+      success: false,
+      error: `Project ${projectId} not found`,
+    };
+  }
+
+  let registrar: DomainRegistrar;
+  try {
+    registrar = resolveRegistrar(undefined, registrarId);
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Registrar not available',
+    };
+  }
+
+  if (!hasApproval) {
+    return {
+      success: false,
+      requiresApproval: true,
+      approvalPrompt: `I'd like to register **${domain}** for ${years} year(s). This will cost real money from your ${registrar.displayName} account. Do you approve this domain registration?`,
+      error: 'Domain registration requires human approval',
+    };
+  }
+
+  try {
+    const pricing = await registrar.getPricing(domain);
+
+    if (!pricing.available) {
+      return {
+        success: false,
+        error: `Domain ${domain} is no longer available`,
+      };
+    }
+
+    const estimatedCost = pricing.price !== undefined
+      ? (pricing.price + (pricing.icannFee ?? 0)) * years
+      : undefined;
+
+    if (estimatedCost === undefined && costStore.hasBudgetLimits()) {
+      return {
+        success: false,
+        error: `Could not determine the price of ${domain}, so I can't check it against the spending budget`,
+      };
+    }
+
+    if (estimatedCost !== undefined) {
+      const budget = costStore.checkBudget(projectId, estimatedCost);
+      if (!budget.allowed) {
+        return {
+          success: false,
+          error: `Budget exceeded: ${budget.reason}`,
+        };
+      }
+    }
+
+    const result = await registrar.register(domain, years, {
+      firstName: 'Cameron',
+      lastName: 'Cooper',
+      address1: '11908 Cross Winds Way',
+      city: 'Fort Wayne',
+      stateProvince: 'IN',
+      postalCode: '46818',
+      country: 'US',
+      phone: '+1.2604378544',
+      email: 'cameron@soyl.dev',
+    });
+
+    if (result.success) {
+      const registeredAt = Date.now();
+      const expiresAt = registeredAt + years * 365 * 24 * 60 * 60 * 1000;
+
+      projectStore.setDomainResource(
+        projectId,
+        {
+          name: domain,
+          registrar: registrar.id,
+          registeredAt,
+          expiresAt,
+          autoRenew: true,
+        },
+        resourceKey
+      );
+
+      const renewalAmount = await registrar.getRenewalPrice(domain).catch(() => undefined);
+
+      costStore.recordCost({
+        projectId,
+        category: 'domain_registration',
+        resource: domain,
+        amount: result.chargedAmount || estimatedCost || 0,
+        currency: pricing.currency ?? 'USD',
+        incurredAt: registeredAt,
+        renewsAt: expiresAt,
+        renewalAmount: renewalAmount ?? (estimatedCost !== undefined ? estimatedCost / years : undefined),
+        reference: result.orderId,
+      });
+
+      return {
+        success: true,
+        data: {
+          domain,
+          orderId: result.orderId,
+          chargedAmount: result.chargedAmount,
+          message: `Successfully registered ${domain}! Order ID: ${result.orderId}`,
+        },
+      };
+    } else {
+      return {
+        success: false,
+        error: 'Domain registration failed',
+      };
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to register domain',
+    };
+  }
+}
+
+export async function getAccountBalance(registrarId?: RegistrarId): Promise<ToolResult> {
+  try {
+    const registrar = resolveRegistrar(undefined, registrarId);
+    if (!registrar.getBalance) {
+      return {
+        success: false,
+        error: `${registrar.displayName} doesn't report an account balance`,
+      };
+    }
+
+    const balance = await registrar.getBalance();
+
+    return {
+      success: true,
+      data: {
+        registrar: registrar.id,
+        availableBalance: balance.availableBalance,
+        accountBalance: balance.accountBalance,
+        currency: balance.currency,
+        message: `Available balance: $${balance.availableBalance.toFixed(2)} ${balance.currency}`,
+      },
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to get account balance',
+    };
+  }
+}
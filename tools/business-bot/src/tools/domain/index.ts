@@ -1,10 +1,18 @@
 import type { ChatCompletionTool } from 'openai/resources/chat/completions';
+import { listRegistrarIds } from '../../services/registrar';
+import { DNS_TEMPLATES } from './templates';
 
-export const namecheapTools: ChatCompletionTool[] = [
+const registrarParam = {
+  type: 'string',
+  enum: listRegistrarIds(),
+  description: 'Registrar to use (default: the configured registrar, or the one that holds the domain)',
+};
+
+export const domainTools: ChatCompletionTool[] = [
   {
     type: 'function',
     function: {
-      name: 'namecheap_search_domains',
+      name: 'domain_search',
       description: 'Search for available domain names based on a keyword. Checks common TLDs (.com, .net, .org, .io)',
       parameters: {
         type: 'object',
@@ -18,6 +26,7 @@ export const namecheapTools: ChatCompletionTool[] = [
             items: { type: 'string' },
             description: 'Optional list of TLDs to check (default: com, net, org, io)',
           },
+          registrar: registrarParam,
         },
         required: ['keyword'],
       },
@@ -26,7 +35,7 @@ export const namecheapTools: ChatCompletionTool[] = [
   {
     type: 'function',
     function: {
-      name: 'namecheap_check_domain',
+      name: 'domain_check',
       description: 'Check if a specific domain is available for registration',
       parameters: {
         type: 'object',
@@ -35,6 +44,7 @@ export const namecheapTools: ChatCompletionTool[] = [
             type: 'string',
             description: 'The full domain name to check (e.g., "example.com")',
           },
+          registrar: registrarParam,
         },
         required: ['domain'],
       },
@@ -43,7 +53,7 @@ export const namecheapTools: ChatCompletionTool[] = [
   {
     type: 'function',
     function: {
-      name: 'namecheap_get_pricing',
+      name: 'domain_get_pricing',
       description: 'Get pricing information for a domain',
       parameters: {
         type: 'object',
@@ -52,6 +62,7 @@ export const namecheapTools: ChatCompletionTool[] = [
             type: 'string',
             description: 'The domain to get pricing for',
           },
+          registrar: registrarParam,
         },
         required: ['domain'],
       },
@@ -60,11 +71,13 @@ export const namecheapTools: ChatCompletionTool[] = [
   {
     type: 'function',
     function: {
-      name: 'namecheap_list_domains',
-      description: 'List all domains owned in the Namecheap account',
+      name: 'domain_list',
+      description: 'List all domains owned in a registrar account',
       parameters: {
         type: 'object',
-        properties: {},
+        properties: {
+          registrar: registrarParam,
+        },
         required: [],
       },
     },
@@ -72,7 +85,7 @@ export const namecheapTools: ChatCompletionTool[] = [
   {
     type: 'function',
     function: {
-      name: 'namecheap_get_domain_info',
+      name: 'domain_get_info',
       description: 'Get detailed information about an owned domain',
       parameters: {
         type: 'object',
@@ -81,6 +94,7 @@ export const namecheapTools: ChatCompletionTool[] = [
             type: 'string',
             description: 'The domain to get info for',
           },
+          registrar: registrarParam,
         },
         required: ['domain'],
       },
@@ -89,7 +103,7 @@ export const namecheapTools: ChatCompletionTool[] = [
   {
     type: 'function',
     function: {
-      name: 'namecheap_register_domain',
+      name: 'domain_register',
       description: 'Register a new domain. REQUIRES HUMAN APPROVAL before execution. This costs real money!',
       parameters: {
         type: 'object',
@@ -106,6 +120,11 @@ export const namecheapTools: ChatCompletionTool[] = [
             type: 'string',
             description: 'Project ID to associate with this domain',
           },
+          resourceKey: {
+            type: 'string',
+            description: 'Name of this domain in the project (e.g., "prod", "staging"; default: "main")',
+          },
+          registrar: registrarParam,
         },
         required: ['domain', 'projectId'],
       },
@@ -114,7 +133,7 @@ export const namecheapTools: ChatCompletionTool[] = [
   {
     type: 'function',
     function: {
-      name: 'namecheap_get_dns',
+      name: 'dns_get',
       description: 'Get DNS records for a domain',
       parameters: {
         type: 'object',
@@ -123,6 +142,7 @@ export const namecheapTools: ChatCompletionTool[] = [
             type: 'string',
             description: 'The domain to get DNS records for',
           },
+          registrar: registrarParam,
         },
         required: ['domain'],
       },
@@ -131,8 +151,8 @@ export const namecheapTools: ChatCompletionTool[] = [
   {
     type: 'function',
     function: {
-      name: 'namecheap_set_dns',
-      description: 'Set DNS records for a domain',
+      name: 'dns_set',
+      description: 'Replace all DNS records of a domain with the given set (shows a diff and requires approval)',
       parameters: {
         type: 'object',
         properties: {
@@ -155,6 +175,7 @@ export const namecheapTools: ChatCompletionTool[] = [
             },
             description: 'DNS records to set',
           },
+          registrar: registrarParam,
         },
         required: ['domain', 'records'],
       },
@@ -163,11 +184,41 @@ export const namecheapTools: ChatCompletionTool[] = [
   {
     type: 'function',
     function: {
-      name: 'namecheap_get_balance',
-      description: 'Get the Namecheap account balance',
+      name: 'dns_apply_template',
+      description: `Apply DNS record templates for common hosting targets, merged with the domain's existing records. Shows a before/after diff and requires approval. Templates: ${Object.entries(DNS_TEMPLATES).map(([id, t]) => `${id} (${t.name}${t.params.length > 0 ? `; needs ${t.params.join(', ')}` : ''})`).join(', ')}`,
       parameters: {
         type: 'object',
-        properties: {},
+        properties: {
+          domain: {
+            type: 'string',
+            description: 'The domain to apply the templates to',
+          },
+          templates: {
+            type: 'array',
+            items: { type: 'string', enum: Object.keys(DNS_TEMPLATES) },
+            description: 'Templates to apply, in order',
+          },
+          params: {
+            type: 'object',
+            additionalProperties: { type: 'string' },
+            description: 'Template parameters, e.g. { "githubUser": "acme" } or { "sesDkimTokens": "tok1,tok2,tok3" }',
+          },
+          registrar: registrarParam,
+        },
+        required: ['domain', 'templates'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'domain_get_balance',
+      description: 'Get the registrar account balance',
+      parameters: {
+        type: 'object',
+        properties: {
+          registrar: registrarParam,
+        },
         required: [],
       },
     },
@@ -0,0 +1,242 @@
+import type { ToolResult, DnsRecord, DnsTemplateId, RegistrarId } from '../../types';
+import * as projectStore from '../../context/project-store';
+import { resolveRegistrar } from './domains';
+
+interface DnsTemplate {
+  name: string;
+  description: string;
+  params: string[];
+  records(domain: string, params: Record<string, string>): DnsRecord[];
+}
+
+const GITHUB_PAGES_IPS = ['185.199.108.153', '185.199.109.153', '185.199.110.153', '185.199.111.153'];
+
+export const DNS_TEMPLATES: Record<DnsTemplateId, DnsTemplate> = {
+  vercel: {
+    name: 'Vercel app',
+    description: 'Apex A record and www CNAME pointing at Vercel',
+    params: [],
+    records: () => [
+      { hostName: '@', type: 'A', address: '76.76.21.21', ttl: 1800 },
+      { hostName: 'www', type: 'CNAME', address: 'cname.vercel-dns.com.', ttl: 1800 },
+    ],
+  },
+  github_pages: {
+    name: 'GitHub Pages',
+    description: 'GitHub Pages apex A records and a www CNAME to <githubUser>.github.io',
+    params: ['githubUser'],
+    records: (_domain, params) => [
+      ...GITHUB_PAGES_IPS.map((ip) => ({ hostName: '@', type: 'A', address: ip, ttl: 1800 })),
+      { hostName: 'www', type: 'CNAME', address: `${params.githubUser}.github.io.`, ttl: 1800 },
+    ],
+  },
+  google_workspace: {
+    name: 'Google Workspace mail',
+    description: 'Google Workspace MX record and SPF',
+    params: [],
+    records: () => [
+      { hostName: '@', type: 'MX', address: 'smtp.google.com.', ttl: 3600, mxPref: 1 },
+      { hostName: '@', type: 'TXT', address: 'v=spf1 include:_spf.google.com ~all', ttl: 3600 },
+    ],
+  },
+  cloudflare_proxy: {
+    name: 'Cloudflare proxy',
+    description: 'Cloudflare partial (CNAME) setup: www through Cloudflare plus the verification TXT record',
+    params: ['cloudflareVerification'],
+    records: (domain, params) => [
+      { hostName: 'www', type: 'CNAME', address: `www.${domain}.cdn.cloudflare.net.`, ttl: 300 },
+      { hostName: 'cloudflare-verify', type: 'TXT', address: params.cloudflareVerification, ttl: 300 },
+    ],
+  },
+  ses_verification: {
+    name: 'SES verification',
+    description: 'Amazon SES domain verification TXT record and DKIM CNAMEs',
+    params: ['sesVerificationToken', 'sesDkimTokens'],
+    records: (_domain, params) => [
+      { hostName: '_amazonses', type: 'TXT', address: params.sesVerificationToken, ttl: 1800 },
+      ...params.sesDkimTokens
+        .split(',')
+        .map((token) => token.trim())
+        .filter(Boolean)
+        .map((token) => ({
+          hostName: `${token}._domainkey`,
+          type: 'CNAME',
+          address: `${token}.dkim.amazonses.com.`,
+          ttl: 1800,
+        })),
+    ],
+  },
+};
+
+// Only one of each of these may exist per host, so a template's record replaces the existing ones.
+const SINGLE_VALUE_TYPES = new Set(['A', 'AAAA', 'MX']);
+
+// Record types whose value is a hostname; templates write these fully qualified with a trailing dot,
+// while registrars such as Namecheap return them without one.
+const HOSTNAME_VALUE_TYPES = new Set(['CNAME', 'MX', 'NS']);
+
+function normalizeHost(value: string): string {
+  return value.replace(/\.$/, '').toLowerCase();
+}
+
+function normalizedAddress(record: DnsRecord): string {
+  return HOSTNAME_VALUE_TYPES.has(record.type) ? normalizeHost(record.address) : record.address;
+}
+
+function txtKind(value: string): string {
+  return value.startsWith('v=spf1') ? 'spf' : value;
+}
+
+function conflicts(existing: DnsRecord, incoming: DnsRecord): boolean {
+  if (normalizeHost(existing.hostName) !== normalizeHost(incoming.hostName)) return false;
+  if (existing.type === 'CNAME' || incoming.type === 'CNAME') return true;
+  if (existing.type !== incoming.type) return false;
+  if (SINGLE_VALUE_TYPES.has(incoming.type)) return true;
+  return incoming.type === 'TXT' && txtKind(existing.address) === txtKind(incoming.address);
+}
+
+export function mergeDnsRecords(existing: DnsRecord[], incoming: DnsRecord[]): DnsRecord[] {
+  const kept = existing.filter((e) => !incoming.some((r) => conflicts(e, r)));
+  const added = incoming.filter(
+    (r, i) => incoming.findIndex((o) => recordKey(o) === recordKey(r)) === i
+  );
+  return [...kept, ...added];
+}
+
+function recordKey(record: DnsRecord): string {
+  return [
+    record.type,
+    normalizeHost(record.hostName),
+    normalizedAddress(record),
+    record.ttl,
+    record.mxPref ?? '',
+  ].join('|');
+}
+
+export function sameRecordSet(before: DnsRecord[], after: DnsRecord[]): boolean {
+  const beforeKeys = new Set(before.map(recordKey));
+  return before.length === after.length && after.every((r) => beforeKeys.has(recordKey(r)));
+}
+
+function formatRecord(record: DnsRecord): string {
+  const priority = record.mxPref !== undefined ? ` (priority ${record.mxPref})` : '';
+  return `${record.type} ${record.hostName} → ${record.address}${priority} (TTL ${record.ttl})`;
+}
+
+export function formatDnsDiff(before: DnsRecord[], after: DnsRecord[]): string {
+  const beforeKeys = new Set(before.map(recordKey));
+  const afterKeys = new Set(after.map(recordKey));
+
+  const lines = [
+    ...before.map((r) => `${afterKeys.has(recordKey(r)) ? ' ' : '-'} ${formatRecord(r)}`),
+    ...after.filter((r) => !beforeKeys.has(recordKey(r))).map((r) => `+ ${formatRecord(r)}`),
+  ];
+
+  return '```diff\n' + (lines.length > 0 ? lines.join('\n') : '  (no records)') + '\n```';
+}
+
+export function buildTemplateRecords(
+  domain: string,
+  templates: DnsTemplateId[],
+  params: Record<string, string>
+): { records: DnsRecord[] } | { error: string } {
+  const records: DnsRecord[] = [];
+
+  for (const id of templates) {
+    const template = DNS_TEMPLATES[id];
+    if (!template) {
+      return { error: `Unknown DNS template "${id}". Available: ${Object.keys(DNS_TEMPLATES).join(', ')}` };
+    }
+
+    const missing = template.params.filter((p) => !params[p]?.trim());
+    if (missing.length > 0) {
+      return { error: `The ${template.name} template needs: ${missing.join(', ')}` };
+    }
+
+    records.push(...template.records(domain, params));
+  }
+
+  return { records };
+}
+
+export async function applyDnsTemplates(
+  domain: string,
+  templates: DnsTemplateId[],
+  params: Record<string, string>,
+  appliedBy: string,
+  hasApproval = false,
+  registrarId?: RegistrarId
+): Promise<ToolResult> {
+  const built = buildTemplateRecords(domain, templates, params);
+  if ('error' in built) {
+    return { success: false, error: built.error };
+  }
+
+  try {
+    const registrar = resolveRegistrar(domain, registrarId);
+    const before = await registrar.getDnsRecords(domain);
+    const after = mergeDnsRecords(before, built.records);
+
+    const unchanged = sameRecordSet(before, after);
+
+    const names = templates.map((id) => DNS_TEMPLATES[id].name).join(' + ');
+
+    if (unchanged) {
+      return {
+        success: true,
+        data: {
+          domain,
+          templates,
+          message: `${domain} already has every record from ${names}; nothing to change.`,
+        },
+      };
+    }
+
+    const diff = formatDnsDiff(before, after);
+
+    if (!hasApproval) {
+      return {
+        success: false,
+        requiresApproval: true,
+        approvalPrompt: `I'd like to apply **${names}** to **${domain}**. The full record set will change like this:\n\n${diff}\n\nDo you approve this DNS change?`,
+        error: 'DNS template changes require human approval',
+      };
+    }
+
+    const success = await registrar.setDnsRecords(domain, after);
+    if (!success) {
+      return { success: false, error: `Failed to set DNS records for ${domain}` };
+    }
+
+    const owner = projectStore.findProjectByDomain(domain);
+    if (owner) {
+      const appliedAt = Date.now();
+      projectStore.addDnsTemplates(
+        owner.project.id,
+        domain,
+        templates.map((template) => ({
+          template,
+          params: Object.fromEntries(DNS_TEMPLATES[template].params.map((p) => [p, params[p]])),
+          appliedAt,
+          appliedBy,
+        }))
+      );
+    }
+
+    return {
+      success: true,
+      data: {
+        domain,
+        templates,
+        recordCount: after.length,
+        diff,
+        message: `Applied ${names} to ${domain}:\n\n${diff}`,
+      },
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to apply DNS template',
+    };
+  }
+}
@@ -63,6 +63,10 @@ export const githubTools: ChatCompletionTool[] = [
             type: 'string',
             description: 'Project ID to associate with this repo',
           },
+          resourceKey: {
+            type: 'string',
+            description: 'Name of this repo in the project (e.g., "web", "infra"; default: "main")',
+          },
         },
         required: ['name', 'projectId'],
       },
@@ -92,6 +96,10 @@ export const githubTools: ChatCompletionTool[] = [
             type: 'string',
             description: 'Project ID to associate with this repo',
           },
+          resourceKey: {
+            type: 'string',
+            description: 'Name of this repo in the project (e.g., "web", "infra"; default: "main")',
+          },
         },
         required: ['name', 'projectId'],
       },
@@ -121,6 +129,10 @@ export const githubTools: ChatCompletionTool[] = [
             type: 'string',
             description: 'Project ID to associate with this repo',
           },
+          resourceKey: {
+            type: 'string',
+            description: 'Name of this repo in the project (e.g., "web", "infra"; default: "main")',
+          },
         },
         required: ['owner', 'repo', 'projectId'],
       },
@@ -392,6 +404,10 @@ export const githubTools: ChatCompletionTool[] = [
             type: 'string',
             description: 'Project ID (must have a GitHub repo configured)',
           },
+          resourceKey: {
+            type: 'string',
+            description: 'Which of the project\'s repos to configure (default: "main")',
+          },
           anthropicApiKey: {
             type: 'string',
             description: 'Anthropic API key for Claude Code',
@@ -456,6 +472,10 @@ export const githubTools: ChatCompletionTool[] = [
             type: 'string',
             description: 'Project ID (must have a GitHub repo configured)',
           },
+          resourceKey: {
+            type: 'string',
+            description: 'Which of the project\'s repos to scaffold (default: all of them)',
+          },
           secretValues: {
             type: 'object',
             description: 'Key-value pairs of secret names and their values',
@@ -480,4 +500,33 @@ export const githubTools: ChatCompletionTool[] = [
       },
     },
   },
+  {
+    type: 'function',
+    function: {
+      name: 'github_sync_template_config',
+      description:
+        'Compare the secret and variable names of a project\'s repos with the template repository and add what is missing. ' +
+        'Missing variables are set from the project or the template; missing secrets need values unless the project knows them (webhook URLs). ' +
+        'Extra entries are only reported. Reports without changing anything when there is nothing to add. REQUIRES HUMAN APPROVAL to add entries.',
+      parameters: {
+        type: 'object',
+        properties: {
+          projectId: {
+            type: 'string',
+            description: 'Project ID',
+          },
+          resourceKey: {
+            type: 'string',
+            description: 'Only check this repo entry (default: all of the project\'s repos)',
+          },
+          values: {
+            type: 'object',
+            description: 'Values for missing secrets, by secret name',
+            additionalProperties: { type: 'string' },
+          },
+        },
+        required: ['projectId'],
+      },
+    },
+  },
 ];
@@ -67,6 +67,7 @@ export async function createRepo(
   options: {
     description?: string;
     isPrivate?: boolean;
+    resourceKey?: string;
   } = {},
   hasApproval = false
 ): Promise<ToolResult> {
@@ -78,7 +79,7 @@ export async function createRepo(
     };
   }
 
-  if (!hasApproval && !projectStore.hasApproval(projectId, 'repo')) {
+  if (!hasApproval && !projectStore.hasApproval(projectId, 'repo', options.resourceKey)) {
     return {
       success: false,
       requiresApproval: true,
@@ -94,12 +95,16 @@ export async function createRepo(
       autoInit: true,
     });
 
-    projectStore.setGitHubResource(projectId, {
-      owner: config.github.org,
-      repo: repo.name,
-      url: repo.url,
-      isPrivate: options.isPrivate ?? true,
-    });
+    projectStore.setGitHubResource(
+      projectId,
+      {
+        owner: config.github.org,
+        repo: repo.name,
+        url: repo.url,
+        isPrivate: options.isPrivate ?? true,
+      },
+      options.resourceKey
+    );
 
     return {
       success: true,
@@ -125,6 +130,7 @@ export async function createRepoFromTemplate(
   options: {
     description?: string;
     isPrivate?: boolean;
+    resourceKey?: string;
   } = {},
   hasApproval = false
 ): Promise<ToolResult> {
@@ -138,7 +144,7 @@ export async function createRepoFromTemplate(
 
   const templateRepo = config.github.templateRepo;
 
-  if (!hasApproval && !projectStore.hasApproval(projectId, 'repo')) {
+  if (!hasApproval && !projectStore.hasApproval(projectId, 'repo', options.resourceKey)) {
     return {
       success: false,
       requiresApproval: true,
@@ -153,14 +159,22 @@ export async function createRepoFromTemplate(
       isPrivate: options.isPrivate ?? true,
     });
 
-    projectStore.setGitHubResource(projectId, {
-      owner: config.github.org,
-      repo: repo.name,
-      url: repo.url,
-      isPrivate: options.isPrivate ?? true,
-    });
+    projectStore.setGitHubResource(
+      projectId,
+      {
+        owner: config.github.org,
+        repo: repo.name,
+        url: repo.url,
+        isPrivate: options.isPrivate ?? true,
+      },
+      options.resourceKey
+    );
 
-    const scaffoldResult = await scaffoldRepoFromTemplate(projectId, {});
+    const scaffoldResult = await scaffoldRepoFromTemplate(
+      projectId,
+      {},
+      options.resourceKey ?? projectStore.DEFAULT_RESOURCE_KEY
+    );
 
     const scaffoldData = scaffoldResult.data as {
       variablesSet?: string[];
@@ -202,7 +216,8 @@ export async function forkRepo(
   repo: string,
   projectId: string,
   newName?: string,
-  hasApproval = false
+  hasApproval = false,
+  resourceKey?: string
 ): Promise<ToolResult> {
   const project = projectStore.getProject(projectId);
   if (!project) {
@@ -212,7 +227,7 @@ export async function forkRepo(
     };
   }
 
-  if (!hasApproval && !projectStore.hasApproval(projectId, 'repo')) {
+  if (!hasApproval && !projectStore.hasApproval(projectId, 'repo', resourceKey)) {
     return {
       success: false,
       requiresApproval: true,
@@ -224,13 +239,17 @@ export async function forkRepo(
   try {
     const fork = await github.forkRepository(owner, repo, { newName });
 
-    projectStore.setGitHubResource(projectId, {
-      owner: config.github.org,
-      repo: fork.name,
-      url: fork.url,
-      forkedFrom: fork.forkedFrom,
-      isPrivate: true,
-    });
+    projectStore.setGitHubResource(
+      projectId,
+      {
+        owner: config.github.org,
+        repo: fork.name,
+        url: fork.url,
+        forkedFrom: fork.forkedFrom,
+        isPrivate: true,
+      },
+      resourceKey
+    );
 
     return {
       success: true,
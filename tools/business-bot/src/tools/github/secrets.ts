@@ -1,4 +1,4 @@
-import type { ToolResult } from '../../types';
+import type { ToolResult, Project, ProjectGitHubResource } from '../../types';
 import * as github from '../../services/github';
 import * as projectStore from '../../context/project-store';
 import { config } from '../../config';
@@ -53,6 +53,9 @@ export async function setSecret(
     const success = await github.setRepositorySecret(owner, repo, name, value);
 
     if (success) {
+      const tracked = projectStore.findProjectByRepo(`${owner}/${repo}`);
+      if (tracked) projectStore.recordSecretsSet(tracked.project.id, tracked.key, [name]);
+
       return {
         success: true,
         data: {
@@ -125,7 +128,8 @@ export async function configurePipelineSecrets(
     // E2E Testing
     appPublicDomain?: string;
   },
-  hasApproval = false
+  hasApproval = false,
+  resourceKey?: string
 ): Promise<ToolResult> {
   const project = projectStore.getProject(projectId);
   if (!project) {
@@ -135,14 +139,18 @@ export async function configurePipelineSecrets(
     };
   }
 
-  if (!project.resources.github) {
+  const repoResource = projectStore.getRepo(project, resourceKey);
+  if (!repoResource) {
     return {
       success: false,
-      error: 'Project does not have a GitHub repository configured',
+      error: resourceKey
+        ? `Project does not have a GitHub repository named "${resourceKey}"`
+        : 'Project does not have a GitHub repository configured',
     };
   }
 
-  const { owner, repo } = project.resources.github;
+  const { owner, repo } = repoResource;
+  const repoKey = projectStore.getRepoEntries(project).find(([, r]) => r === repoResource)![0];
 
   const secretCount = Object.values(secrets).filter(Boolean).length;
   const variableCount = Object.values(variables).filter(Boolean).length;
@@ -180,6 +188,7 @@ export async function configurePipelineSecrets(
         APP_PUBLIC_DOMAIN: variables.appPublicDomain,
       }
     );
+    projectStore.recordSecretsSet(projectId, repoKey, result.secretsSet);
 
     if (result.success) {
       return {
@@ -229,7 +238,7 @@ export async function configureFromDiscordServer(
     };
   }
 
-  if (!project.resources.github) {
+  if (!projectStore.getRepo(project)) {
     return {
       success: false,
       error: 'Project does not have a GitHub repository configured',
@@ -255,9 +264,11 @@ export async function configureFromDiscordServer(
   );
 }
 
+// Scaffolds one repository, or every repository in the project when no resourceKey is given.
 export async function scaffoldRepoFromTemplate(
   projectId: string,
-  secretValues: Record<string, string>
+  secretValues: Record<string, string>,
+  resourceKey?: string
 ): Promise<ToolResult> {
   const project = projectStore.getProject(projectId);
   if (!project) {
@@ -267,46 +278,111 @@ export async function scaffoldRepoFromTemplate(
     };
   }
 
-  if (!project.resources.github) {
+  const entries = projectStore
+    .getRepoEntries(project)
+    .filter(([key]) => resourceKey === undefined || key === resourceKey);
+
+  if (entries.length === 0) {
     return {
       success: false,
-      error: 'Project does not have a GitHub repository configured',
+      error: resourceKey
+        ? `Project does not have a GitHub repository named "${resourceKey}"`
+        : 'Project does not have a GitHub repository configured',
     };
   }
 
-  const { owner, repo } = project.resources.github;
+  if (entries.length === 1) {
+    const [key, repoResource] = entries[0];
+    return scaffoldRepo(project, key, repoResource, secretValues);
+  }
+
+  const results: Record<string, ToolResult> = {};
+  for (const [key, repoResource] of entries) {
+    results[key] = await scaffoldRepo(project, key, repoResource, secretValues);
+  }
+
+  const failed = Object.entries(results).filter(([, r]) => !r.success);
+
+  return {
+    success: failed.length === 0,
+    data: {
+      repos: Object.fromEntries(Object.entries(results).map(([key, r]) => [key, r.data ?? { error: r.error }])),
+      message: Object.entries(results)
+        .map(([key, r]) => `**${key}**: ${(r.data as { message?: string } | undefined)?.message ?? r.error}`)
+        .join('\n'),
+    },
+    error: failed.length > 0 ? `Scaffolding failed for: ${failed.map(([key]) => key).join(', ')}` : undefined,
+  };
+}
+
+// Per-repo variables win over anything derived from the project, so each environment keeps its own values.
+function environmentVariables(
+  project: Project,
+  key: string,
+  repoResource: ProjectGitHubResource
+): Record<string, string> {
+  const variables: Record<string, string> = {};
+
+  const domain = project.resources.domains?.[key];
+  if (domain) {
+    variables['APP_PUBLIC_DOMAIN'] = `https://${domain.name}`;
+  }
+
+  return { ...variables, ...repoResource.variables };
+}
 
-  const enrichedSecretValues = { ...secretValues };
-  const autoVariables: Record<string, string> = {};
+// Secret and variable values the bot can fill in from the project itself: Discord webhooks and channel IDs,
+// plus the repository's environment variables.
+export function projectPipelineValues(
+  project: Project,
+  key: string,
+  repoResource: ProjectGitHubResource
+): { secrets: Record<string, string>; variables: Record<string, string> } {
+  const secrets: Record<string, string> = {};
+  const variables: Record<string, string> = {};
 
   if (project.resources.discord) {
-    const { webhooks, channelIds } = project.resources.discord;
+    const { channelIds } = project.resources.discord;
+    const webhooks = projectStore.getWebhookUrls(project);
 
-    if (webhooks) {
-      if (webhooks['dev'] && !enrichedSecretValues['DISCORD_DEV_WEBHOOK_URL']) {
-        enrichedSecretValues['DISCORD_DEV_WEBHOOK_URL'] = webhooks['dev'];
-      }
-      if (webhooks['product'] && !enrichedSecretValues['DISCORD_PRODUCT_WEBHOOK_URL']) {
-        enrichedSecretValues['DISCORD_PRODUCT_WEBHOOK_URL'] = webhooks['product'];
-      }
-      if (webhooks['pull-requests'] && !enrichedSecretValues['DISCORD_PR_WEBHOOK_URL']) {
-        enrichedSecretValues['DISCORD_PR_WEBHOOK_URL'] = webhooks['pull-requests'];
-      }
+    if (webhooks['dev']) {
+      secrets['DISCORD_DEV_WEBHOOK_URL'] = webhooks['dev'];
+    }
+    if (webhooks['product']) {
+      secrets['DISCORD_PRODUCT_WEBHOOK_URL'] = webhooks['product'];
+    }
+    if (webhooks['pull-requests']) {
+      secrets['DISCORD_PR_WEBHOOK_URL'] = webhooks['pull-requests'];
     }
 
     if (channelIds) {
       if (channelIds['dev']) {
-        autoVariables['DISCORD_DEV_CHANNEL_ID'] = channelIds['dev'];
+        variables['DISCORD_DEV_CHANNEL_ID'] = channelIds['dev'];
       }
       if (channelIds['product']) {
-        autoVariables['DISCORD_PRODUCT_CHANNEL_ID'] = channelIds['product'];
+        variables['DISCORD_PRODUCT_CHANNEL_ID'] = channelIds['product'];
       }
       if (channelIds['pull-requests']) {
-        autoVariables['DISCORD_PR_CHANNEL_ID'] = channelIds['pull-requests'];
+        variables['DISCORD_PR_CHANNEL_ID'] = channelIds['pull-requests'];
       }
     }
   }
 
+  return { secrets, variables: { ...variables, ...environmentVariables(project, key, repoResource) } };
+}
+
+async function scaffoldRepo(
+  project: Project,
+  key: string,
+  repoResource: ProjectGitHubResource,
+  secretValues: Record<string, string>
+): Promise<ToolResult> {
+  const { owner, repo } = repoResource;
+
+  const derived = projectPipelineValues(project, key, repoResource);
+  const enrichedSecretValues = { ...derived.secrets, ...secretValues };
+  const autoVariables = derived.variables;
+
   const templateFull = config.github.templateRepo;
   const [templateOwner, templateRepo] = templateFull.split('/');
 
@@ -318,6 +394,7 @@ export async function scaffoldRepoFromTemplate(
       templateRepo,
       enrichedSecretValues
     );
+    projectStore.recordSecretsSet(project.id, key, result.secretsSet);
 
     for (const [name, value] of Object.entries(autoVariables)) {
       const success = await github.setRepositoryVariable(owner, repo, name, value);
@@ -340,6 +417,7 @@ export async function scaffoldRepoFromTemplate(
         data: {
           owner,
           repo,
+          resourceKey: key,
           secretsSet: result.secretsSet,
           variablesSet: result.variablesSet,
           missingSecrets: result.missingSecrets,
@@ -362,6 +440,7 @@ export async function scaffoldRepoFromTemplate(
       data: {
         owner,
         repo,
+        resourceKey: key,
         secretsSet: result.secretsSet,
         variablesSet: result.variablesSet,
         errors: result.errors,
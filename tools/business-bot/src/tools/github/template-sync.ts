@@ -0,0 +1,236 @@
+import type { ToolResult, Project } from '../../types';
+import * as github from '../../services/github';
+import type { TemplateRepoConfig } from '../../services/github';
+import * as projectStore from '../../context/project-store';
+import { config } from '../../config';
+import { projectPipelineValues } from './secrets';
+
+export interface TemplateConfigDiff {
+  resourceKey: string;
+  repo: string;
+  missingSecrets: string[];
+  extraSecrets: string[];
+  missingVariables: string[];
+  extraVariables: string[];
+  // Set when the repository's secrets or variables could not be listed; the name lists are then empty.
+  unreachable?: string;
+}
+
+export async function loadTemplateConfig(): Promise<TemplateRepoConfig> {
+  const [templateOwner, templateRepo] = config.github.templateRepo.split('/');
+  try {
+    return await github.getTemplateRepoConfig(templateOwner, templateRepo);
+  } catch (error) {
+    throw new Error(
+      `Could not read the template ${config.github.templateRepo}: ${error instanceof Error ? error.message : 'unknown error'}`
+    );
+  }
+}
+
+// Compares names only; variable values are expected to differ per project.
+export async function diffTemplateConfig(
+  project: Project,
+  template: TemplateRepoConfig,
+  resourceKey?: string
+): Promise<TemplateConfigDiff[]> {
+  const templateVariables = template.variables.map((v) => v.name);
+  const diffs: TemplateConfigDiff[] = [];
+
+  for (const [key, repoResource] of projectStore.getRepoEntries(project)) {
+    if (resourceKey !== undefined && key !== resourceKey) continue;
+
+    const repo = `${repoResource.owner}/${repoResource.repo}`;
+
+    let secrets: string[];
+    let variableNames: string[];
+    try {
+      const [secretList, variables] = await Promise.all([
+        github.listRepositorySecrets(repoResource.owner, repoResource.repo),
+        github.listRepositoryVariables(repoResource.owner, repoResource.repo),
+      ]);
+      secrets = secretList;
+      variableNames = variables.map((v) => v.name);
+    } catch (error) {
+      diffs.push({
+        resourceKey: key,
+        repo,
+        missingSecrets: [],
+        extraSecrets: [],
+        missingVariables: [],
+        extraVariables: [],
+        unreachable: error instanceof Error ? error.message : 'listing failed',
+      });
+      continue;
+    }
+
+    diffs.push({
+      resourceKey: key,
+      repo,
+      missingSecrets: template.secrets.filter((name) => !secrets.includes(name)),
+      extraSecrets: secrets.filter((name) => !template.secrets.includes(name)),
+      missingVariables: templateVariables.filter((name) => !variableNames.includes(name)),
+      extraVariables: variableNames.filter((name) => !templateVariables.includes(name)),
+    });
+  }
+
+  return diffs;
+}
+
+export function differsFromTemplate(diff: TemplateConfigDiff): boolean {
+  return diff.unreachable !== undefined || [diff.missingSecrets, diff.missingVariables, diff.extraSecrets, diff.extraVariables].some(
+    (names) => names.length > 0
+  );
+}
+
+export function formatTemplateDiff(diff: TemplateConfigDiff): string {
+  if (diff.unreachable !== undefined) return `${diff.repo}: could not read its secrets and variables`;
+
+  const parts = [
+    diff.missingSecrets.length > 0 ? `missing secrets ${diff.missingSecrets.join(', ')}` : '',
+    diff.missingVariables.length > 0 ? `missing variables ${diff.missingVariables.join(', ')}` : '',
+    diff.extraSecrets.length > 0 ? `extra secrets ${diff.extraSecrets.join(', ')}` : '',
+    diff.extraVariables.length > 0 ? `extra variables ${diff.extraVariables.join(', ')}` : '',
+  ].filter(Boolean);
+
+  return `${diff.repo}: ${parts.length > 0 ? parts.join('; ') : 'matches the template'}`;
+}
+
+// Adds what the template has and the repository lacks. Variables take the project's own value when it has one
+// (channel IDs, domains, per-repo overrides) and the template's otherwise. Secrets need a value, either given
+// in `values` or known to the project (webhook URLs); the rest are reported back so the user can supply them.
+// Extra entries are only reported, never removed.
+export async function syncTemplateConfig(
+  projectId: string,
+  options: { resourceKey?: string; values?: Record<string, string> } = {},
+  hasApproval = false
+): Promise<ToolResult> {
+  const project = projectStore.getProject(projectId);
+  if (!project) {
+    return {
+      success: false,
+      error: `Project ${projectId} not found`,
+    };
+  }
+
+  if (options.resourceKey !== undefined && !project.resources.github?.[options.resourceKey]) {
+    return {
+      success: false,
+      error: `Project does not have a GitHub repository named "${options.resourceKey}"`,
+    };
+  }
+
+  let template: TemplateRepoConfig;
+  let diffs: TemplateConfigDiff[];
+  try {
+    template = await loadTemplateConfig();
+    diffs = await diffTemplateConfig(project, template, options.resourceKey);
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to compare with the template',
+    };
+  }
+
+  if (diffs.length === 0) {
+    return {
+      success: false,
+      error: 'Project does not have a GitHub repository configured',
+    };
+  }
+
+  const templateValues = Object.fromEntries(template.variables.map((v) => [v.name, v.value]));
+  const plans = diffs.map((diff) => {
+    const derived = projectPipelineValues(project, diff.resourceKey, project.resources.github![diff.resourceKey]);
+    const secretValues: Record<string, string> = { ...derived.secrets, ...options.values };
+    return {
+      diff,
+      variables: diff.missingVariables.map((name) => [name, derived.variables[name] ?? templateValues[name]] as const),
+      secrets: diff.missingSecrets.filter((name) => secretValues[name]).map((name) => [name, secretValues[name]] as const),
+      needsValues: diff.missingSecrets.filter((name) => !secretValues[name]),
+    };
+  });
+
+  const report = diffs.map(formatTemplateDiff);
+  // Unreachable repos have empty plans, so nothing is written to them; they are only reported back.
+  const skipped = diffs.filter((d) => d.unreachable !== undefined).map((d) => `${d.repo}: ${d.unreachable}`);
+  const needsValues = [...new Set(plans.flatMap((p) => p.needsValues))];
+  const askForValues =
+    needsValues.length > 0
+      ? `Secrets without a value yet: ${needsValues.join(', ')}. Provide them in \`values\` to set them.`
+      : '';
+
+  if (plans.every((p) => p.variables.length === 0 && p.secrets.length === 0)) {
+    return {
+      success: true,
+      data: {
+        projectId,
+        templateRepo: config.github.templateRepo,
+        diffs,
+        ...(needsValues.length > 0 ? { needsValues } : {}),
+        message: [`Compared with ${config.github.templateRepo}:`, ...report.map((line) => `- ${line}`), askForValues]
+          .filter(Boolean)
+          .join('\n'),
+      },
+    };
+  }
+
+  if (!hasApproval) {
+    const lines = plans.flatMap(({ diff, variables, secrets }) => [
+      ...(variables.length > 0 ? [`- ${diff.repo}: add variables ${variables.map(([name]) => name).join(', ')}`] : []),
+      ...(secrets.length > 0 ? [`- ${diff.repo}: set secrets ${secrets.map(([name]) => name).join(', ')}`] : []),
+    ]);
+
+    return {
+      success: false,
+      requiresApproval: true,
+      approvalPrompt:
+        `I'd like to bring **${project.name}** in line with the template ${config.github.templateRepo}:\n\n` +
+        `${lines.join('\n')}\n\n` +
+        (skipped.length > 0 ? `Skipping repositories I could not read: ${skipped.join('; ')}\n\n` : '') +
+        (askForValues ? `${askForValues}\n\n` : '') +
+        'Do you approve?',
+      error: 'Syncing template configuration requires human approval',
+    };
+  }
+
+  const synced: string[] = [];
+  const errors: string[] = skipped.map((line) => `${line} (not read, skipped)`);
+
+  for (const { diff, variables, secrets } of plans) {
+    const repoResource = project.resources.github![diff.resourceKey];
+    const secretsSet: string[] = [];
+
+    for (const [name, value] of variables) {
+      if (await github.setRepositoryVariable(repoResource.owner, repoResource.repo, name, value)) {
+        synced.push(`${diff.repo} variable ${name}`);
+      } else {
+        errors.push(`${diff.repo}: failed to set variable ${name}`);
+      }
+    }
+
+    for (const [name, value] of secrets) {
+      if (await github.setRepositorySecret(repoResource.owner, repoResource.repo, name, value)) {
+        secretsSet.push(name);
+        synced.push(`${diff.repo} secret ${name}`);
+      } else {
+        errors.push(`${diff.repo}: failed to set secret ${name}`);
+      }
+    }
+
+    projectStore.recordSecretsSet(projectId, diff.resourceKey, secretsSet);
+  }
+
+  return {
+    success: errors.length === 0,
+    data: {
+      projectId,
+      templateRepo: config.github.templateRepo,
+      synced,
+      ...(needsValues.length > 0 ? { needsValues } : {}),
+      message:
+        (synced.length > 0 ? `Added ${synced.join(', ')}.` : 'Nothing was added.') +
+        (askForValues ? `\n${askForValues}` : ''),
+    },
+    error: errors.length > 0 ? `Some entries were not synced: ${errors.join('; ')}` : undefined,
+  };
+}
@@ -1,5 +1,5 @@
 import type { ChatCompletionTool } from 'openai/resources/chat/completions';
-import { namecheapTools } from './namecheap';
+import { domainTools } from './domain';
 import { githubTools } from './github';
 import { discordTools } from './discord';
 import { tavilyTools } from './tavily';
@@ -7,7 +7,7 @@ import { projectTools } from './project';
 import { stripeTools } from './stripe';
 
 export const allTools: ChatCompletionTool[] = [
-  ...namecheapTools,
+  ...domainTools,
   ...githubTools,
   ...discordTools,
   ...tavilyTools,
@@ -24,4 +24,4 @@ export function getToolNames(): string[] {
   return allTools.map((t) => t.function.name);
 }
 
-export { namecheapTools, githubTools, discordTools, tavilyTools, projectTools, stripeTools };
+export { domainTools, githubTools, discordTools, tavilyTools, projectTools, stripeTools };
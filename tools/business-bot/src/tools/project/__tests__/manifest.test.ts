@@ -0,0 +1,97 @@
+import type { Project } from '../../../types';
+import type { StripeAccountRecord } from '../../../context/persistence/sqlite';
+import { buildManifest, serializeManifest, parseManifest, validateManifest, MANIFEST_REDACTED } from '../manifest';
+
+const project: Project = {
+  id: 'p-1',
+  name: 'Acme',
+  description: 'Widgets',
+  status: 'active',
+  createdAt: 1700000000000,
+  updatedAt: 1700000500000,
+  createdBy: 'u-1',
+  resources: {
+    domains: {
+      prod: { name: 'acme.com', registrar: 'namecheap', registeredAt: 1, expiresAt: 2, autoRenew: true },
+    },
+    github: {
+      web: { owner: 'acme', repo: 'web', url: 'https://github.com/acme/web', isPrivate: true, variables: { STAGE: 'prod' } },
+    },
+    discord: {
+      serverId: 's-1',
+      serverName: 'Acme',
+      channels: ['dev'],
+      channelIds: { dev: 'c-1' },
+      webhookRefs: { dev: 'secret-1' },
+    },
+  },
+  planning: {
+    threadId: 't-1',
+    ideas: ['sell widgets'],
+    research: [],
+    businessPlan: 'Plan',
+    approvals: { domain: { approved: true, approvedBy: 'u-1' } },
+    discordBlueprint: { name: 'private-team', override: { channels: [{ name: 'standup', remove: true }] } },
+  },
+};
+
+const stripeAccount: StripeAccountRecord = {
+  accountId: 'acct_1',
+  projectId: 'p-1',
+  secretKey: 'sk_live_secret',
+  businessName: 'Acme',
+  isLive: true,
+  connectedAt: 1,
+  connectedBy: 'u-1',
+  webhookSecrets: { we_1: 'whsec_secret' },
+};
+
+describe('buildManifest', () => {
+  it('redacts Stripe keys and webhook signing secrets, and lists Discord webhooks without their secret IDs', () => {
+    const text = serializeManifest(buildManifest(project, [stripeAccount], 0), 'json');
+
+    expect(text).not.toContain('sk_live_secret');
+    expect(text).not.toContain('whsec_secret');
+    expect(text).not.toContain('secret-1');
+    expect(text).not.toContain('t-1');
+  });
+});
+
+describe('parseManifest', () => {
+  it.each(['json', 'yaml'] as const)('round-trips a %s manifest', (format) => {
+    const manifest = buildManifest(project, [stripeAccount], 0);
+    const parsed = parseManifest('```' + format + '\n' + serializeManifest(manifest, format) + '\n```');
+
+    expect(parsed).toEqual({ manifest: JSON.parse(JSON.stringify(manifest)) });
+    expect('manifest' in parsed && parsed.manifest.project.resources.discord?.webhooks).toEqual({ dev: MANIFEST_REDACTED });
+  });
+
+  it('reports text that is neither JSON nor YAML', () => {
+    const parsed = parseManifest('{ not json');
+    expect('errors' in parsed && parsed.errors[0]).toMatch(/^Not valid JSON or YAML/);
+  });
+});
+
+describe('validateManifest', () => {
+  it('lists every schema problem with its path', () => {
+    const manifest = JSON.parse(JSON.stringify(buildManifest(project, [stripeAccount], 0)));
+    manifest.project.status = 'gone';
+    delete manifest.project.resources.domains.prod.expiresAt;
+    manifest.project.resources.github.web.variables = { STAGE: 1 };
+    manifest.stripeAccounts[0].isLive = 'yes';
+    manifest.project.planning.discordBlueprint.name = 'huge-team';
+
+    expect(validateManifest(manifest)).toEqual([
+      'project.status must be one of: planning, active, archived, deleted',
+      'project.planning.discordBlueprint.name "huge-team" is not a known blueprint',
+      'project.resources.domains.prod.expiresAt is required',
+      'project.resources.github.web.variables must be a string map',
+      'stripeAccounts[0].isLive must be a boolean',
+    ]);
+  });
+
+  it('rejects unsupported versions', () => {
+    const manifest = { ...buildManifest(project, [], 0), version: 2 };
+    expect(validateManifest(manifest)).toEqual(['manifest.version 2 is not supported (expected 1)']);
+  });
+});
@@ -0,0 +1,215 @@
+import type {
+  ToolResult,
+  Project,
+  ProjectDomainResource,
+  ProjectGitHubResource,
+  ProjectDiscordResource,
+} from '../../types';
+import * as projectStore from '../../context/project-store';
+import * as github from '../../services/github';
+import { config } from '../../config';
+import { lookupDomainResource } from './lifecycle';
+import { discoverServerResources } from '../discord/servers';
+import { resolveBlueprint } from '../discord/blueprints';
+
+export interface AdoptRequest {
+  projectId?: string;
+  name?: string;
+  description?: string;
+  domain?: string;
+  registrar?: ProjectDomainResource['registrar'];
+  expiresAt?: string;
+  repo?: string;
+  serverId?: string;
+  // Entry name for the adopted domain and repo, e.g. "staging"; defaults to "main"
+  resourceKey?: string;
+}
+
+function findOwner(
+  excludeId: string | undefined,
+  matches: (project: Project) => boolean
+): Project | undefined {
+  return projectStore
+    .listProjects()
+    .find((p) => p.id !== excludeId && p.status !== 'deleted' && matches(p));
+}
+
+// Validates everything first and only writes to the project store if every resource checks out.
+// Nothing outside the bot's own records is created or changed.
+export async function adoptProject(
+  request: AdoptRequest,
+  createdBy: string,
+  threadId?: string
+): Promise<ToolResult> {
+  if (!request.domain && !request.repo && !request.serverId) {
+    return {
+      success: false,
+      error: 'Provide at least one of domain, repo or serverId to adopt',
+    };
+  }
+
+  let project: Project | null = null;
+  if (request.projectId) {
+    project = projectStore.getProject(request.projectId);
+    if (!project) {
+      return {
+        success: false,
+        error: `Project ${request.projectId} not found`,
+      };
+    }
+    if (project.status === 'archived' || project.status === 'deleted') {
+      return {
+        success: false,
+        error: `Project ${project.name} is ${project.status}; restore it with project_restore before adopting resources into it`,
+      };
+    }
+  } else if (!request.name) {
+    return {
+      success: false,
+      error: 'Provide a projectId to adopt into, or a name for a new project',
+    };
+  }
+
+  const key = request.resourceKey ?? projectStore.DEFAULT_RESOURCE_KEY;
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  let domainResource: ProjectDomainResource | undefined;
+  let githubResource: ProjectGitHubResource | undefined;
+  let discordResource: ProjectDiscordResource | undefined;
+  let discordWebhooks: Record<string, string> = {};
+
+  if (request.domain) {
+    const domain = request.domain.toLowerCase();
+    const current = project?.resources.domains?.[key];
+    const owner = projectStore.findProjectByDomain(domain);
+
+    if (current && current.name.toLowerCase() !== domain) {
+      errors.push(`Project already uses domain ${current.name} as "${key}"`);
+    } else if (owner && (owner.project.id !== project?.id || owner.key !== key)) {
+      errors.push(`${request.domain} is already tracked by project ${owner.project.name} (${owner.project.id}) as "${owner.key}"`);
+    } else {
+      const lookup = await lookupDomainResource(
+        request.domain,
+        request.registrar ?? config.registrar.defaultId,
+        request.expiresAt
+      );
+      if ('error' in lookup) {
+        errors.push(lookup.error);
+      } else {
+        domainResource = lookup.resource;
+      }
+    }
+  }
+
+  if (request.repo) {
+    const [owner, repo] = request.repo.split('/');
+    const current = project?.resources.github?.[key];
+
+    if (!owner || !repo) {
+      errors.push(`Repository must be in owner/repo form, got "${request.repo}"`);
+    } else {
+      try {
+        const repository = await github.getRepository(owner, repo);
+        const fullName = repository.fullName.toLowerCase();
+        const tracker = projectStore.findProjectByRepo(fullName);
+
+        if (current && `${current.owner}/${current.repo}`.toLowerCase() !== fullName) {
+          errors.push(`Project already uses repository ${current.owner}/${current.repo} as "${key}"`);
+        } else if (tracker && (tracker.project.id !== project?.id || tracker.key !== key)) {
+          errors.push(
+            `${repository.fullName} is already tracked by project ${tracker.project.name} (${tracker.project.id}) as "${tracker.key}"`
+          );
+        } else {
+          const [canonicalOwner, canonicalRepo] = repository.fullName.split('/');
+          githubResource = {
+            owner: canonicalOwner,
+            repo: canonicalRepo,
+            url: repository.url,
+            isPrivate: repository.isPrivate,
+          };
+        }
+      } catch (error) {
+        errors.push(`Repository ${request.repo}: ${error instanceof Error ? error.message : 'not found'}`);
+      }
+    }
+  }
+
+  if (request.serverId) {
+    const current = project?.resources.discord;
+    const tracker = findOwner(project?.id, (p) => p.resources.discord?.serverId === request.serverId);
+
+    if (current && current.serverId !== request.serverId) {
+      errors.push(`Project already uses Discord server ${current.serverName}`);
+    } else if (tracker) {
+      errors.push(`Discord server ${request.serverId} is already tracked by project ${tracker.name} (${tracker.id})`);
+    } else {
+      try {
+        const discovered = await discoverServerResources(request.serverId, resolveBlueprint(project));
+        if (!discovered) {
+          errors.push(`Discord server ${request.serverId} not found (is the bot a member?)`);
+        } else {
+          warnings.push(...discovered.warnings);
+          discordResource = {
+            serverId: request.serverId,
+            serverName: discovered.serverName,
+            channels: discovered.channels,
+            channelIds: discovered.channelIds,
+          };
+          discordWebhooks = discovered.webhooks;
+        }
+      } catch (error) {
+        errors.push(`Discord server ${request.serverId}: ${error instanceof Error ? error.message : 'lookup failed'}`);
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    return {
+      success: false,
+      data: { errors },
+      error: `Nothing was adopted:\n- ${errors.join('\n- ')}`,
+    };
+  }
+
+  if (!project) {
+    project = projectStore.createProject(request.name!, createdBy, request.description, threadId);
+  }
+
+  if (domainResource) {
+    projectStore.setDomainResource(project.id, domainResource, key);
+  }
+  if (githubResource) {
+    projectStore.setGitHubResource(project.id, githubResource, key);
+  }
+  if (discordResource) {
+    // Re-adopting the same server keeps the invite, roles and webhook refs already on record
+    projectStore.setDiscordResource(project.id, {
+      ...project.resources.discord,
+      ...discordResource,
+    });
+    projectStore.setWebhookUrls(project.id, discordWebhooks);
+  }
+  projectStore.setProjectStatus(project.id, 'active');
+
+  const adopted = [
+    domainResource && `domain ${domainResource.name} (${domainResource.registrar}) as "${key}"`,
+    githubResource && `repository ${githubResource.owner}/${githubResource.repo} as "${key}"`,
+    discordResource &&
+      `Discord server ${discordResource.serverName} (${Object.keys(discordResource.channelIds ?? {}).length} channel(s), ` +
+        `${Object.keys(discordWebhooks).length} webhook(s))`,
+  ].filter((line): line is string => Boolean(line));
+
+  return {
+    success: true,
+    data: {
+      projectId: project.id,
+      name: project.name,
+      status: 'active',
+      adopted,
+      warnings,
+      message:
+        `Adopted into **${project.name}** (\`${project.id}\`): ${adopted.join(', ')}. The project is now active.` +
+        (warnings.length > 0 ? `\n\nHeads up:\n- ${warnings.join('\n- ')}` : ''),
+    },
+  };
+}
@@ -0,0 +1,272 @@
+import type { ToolResult, Project, SagaLog, LockedChannel } from '../../types';
+import * as projectStore from '../../context/project-store';
+import * as sqlite from '../../context/persistence/sqlite';
+import * as github from '../../services/github';
+import * as stripeService from '../../services/stripe';
+import * as discordServers from '../discord/servers';
+import {
+  createSagaLog,
+  runSaga,
+  rollbackSaga,
+  executeCompensation,
+  describeCompensation,
+  formatSagaLog,
+  type SagaStep,
+  type SagaHooks,
+} from './saga';
+
+function sagaHooks(projectId: string): SagaHooks {
+  return {
+    persist: (log) => projectStore.setArchiveLog(projectId, log),
+    compensate: (compensation) => executeCompensation(projectId, compensation),
+  };
+}
+
+function buildArchiveSteps(project: Project): SagaStep[] {
+  const steps: SagaStep[] = [
+    {
+      name: 'snapshot',
+      run: async () => {
+        const snapshotId = sqlite.saveProjectSnapshot(project.id, 'archive', project);
+        return { success: true, message: `Saved snapshot #${snapshotId}` };
+      },
+    },
+  ];
+
+  for (const [key, repo] of projectStore.getRepoEntries(project)) {
+    steps.push({
+      name: `github:${key}`,
+      run: async () => {
+        const updated = await github.updateRepository(repo.owner, repo.repo, { archived: true });
+        if (!updated) {
+          return { success: false, error: `Failed to archive ${repo.owner}/${repo.repo}` };
+        }
+        return {
+          success: true,
+          message: `${repo.owner}/${repo.repo} is now read-only`,
+          compensation: { kind: 'unarchive_repo', owner: repo.owner, repo: repo.repo },
+        };
+      },
+    });
+  }
+
+  const discord = project.resources.discord;
+  if (discord) {
+    steps.push({
+      name: 'discord',
+      run: async () => {
+        const channelIds = Object.values(discord.channelIds ?? {});
+        if (channelIds.length === 0) {
+          return { success: true, skipped: true, message: 'No tracked channels to lock' };
+        }
+
+        const result = await discordServers.lockChannels(discord.serverId, channelIds);
+        if (!result.success) return { success: false, error: result.error };
+
+        const { locked, message } = result.data as { locked: LockedChannel[]; message: string };
+        return {
+          success: true,
+          message,
+          compensation: { kind: 'unlock_channels', serverId: discord.serverId, channels: locked },
+        };
+      },
+    });
+  }
+
+  for (const account of sqlite.listStripeAccounts(project.id)) {
+    steps.push({
+      name: `stripe:${account.accountId}`,
+      run: async () => {
+        if (account.undecryptable) {
+          return {
+            success: true,
+            skipped: true,
+            message: `Stripe key for ${account.businessName} could not be decrypted; disable its webhook endpoints in the Stripe dashboard or reconnect the account`,
+          };
+        }
+
+        // Only endpoints the bot set up for this project; anything else on the account is left alone.
+        const endpoints = await stripeService.getWebhookEndpoints(account.secretKey);
+        const targets = endpoints.filter((ep) => ep.status === 'enabled' && ep.id in account.webhookSecrets);
+        if (targets.length === 0) {
+          return { success: true, skipped: true, message: 'No enabled webhook endpoints' };
+        }
+
+        const disabled: string[] = [];
+        try {
+          for (const endpoint of targets) {
+            await stripeService.setWebhookEndpointDisabled(account.secretKey, endpoint.id, true);
+            disabled.push(endpoint.id);
+          }
+        } catch (error) {
+          for (const endpointId of disabled) {
+            await stripeService.setWebhookEndpointDisabled(account.secretKey, endpointId, false).catch(() => undefined);
+          }
+          return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Failed to disable Stripe webhooks',
+          };
+        }
+
+        return {
+          success: true,
+          message: `Disabled ${disabled.length} webhook endpoint(s) on ${account.businessName}`,
+          compensation: { kind: 'enable_stripe_webhooks', accountId: account.accountId, endpointIds: disabled },
+        };
+      },
+    });
+  }
+
+  steps.push({
+    name: 'status',
+    run: async () => {
+      projectStore.setProjectStatus(project.id, 'archived');
+      return {
+        success: true,
+        message: `Status changed from ${project.status} to archived`,
+        compensation: { kind: 'restore_status', status: project.status },
+      };
+    },
+  });
+
+  return steps;
+}
+
+function formatArchiveOutcome(projectId: string, log: SagaLog, action: 'archive' | 'restore'): ToolResult {
+  const stepLog = formatSagaLog(log);
+
+  if (action === 'archive' && log.status === 'completed') {
+    return {
+      success: true,
+      data: { projectId, log, message: `Project archived.\n${stepLog}` },
+    };
+  }
+
+  if (action === 'restore' && log.status === 'rolled_back') {
+    return {
+      success: true,
+      data: { projectId, log, message: `Project restored.\n${stepLog}` },
+    };
+  }
+
+  const failedStep = log.steps.find((s) => s.status === 'failed')?.step;
+  return {
+    success: false,
+    data: { projectId, log },
+    error:
+      (log.status === 'rolled_back'
+        ? `Archiving failed${failedStep ? ` at the ${failedStep} step` : ''} and everything was put back.`
+        : `Some steps could not be undone. Ask me to restore the project again to retry them.`) +
+      `\n${stepLog}`,
+  };
+}
+
+export async function archiveProject(projectId: string, hasApproval = false): Promise<ToolResult> {
+  const project = projectStore.getProject(projectId);
+  if (!project) {
+    return {
+      success: false,
+      error: `Project ${projectId} not found`,
+    };
+  }
+
+  if (project.status === 'archived' || project.status === 'deleted') {
+    return {
+      success: false,
+      error: `Project ${project.name} is already ${project.status}`,
+    };
+  }
+
+  const previous = project.planning.archiveLog;
+  if (previous && previous.status === 'rollback_failed') {
+    return {
+      success: false,
+      error: 'The last archive could not be fully undone. Restore the project first.',
+    };
+  }
+
+  const steps = buildArchiveSteps(project);
+
+  if (!hasApproval) {
+    return {
+      success: false,
+      requiresApproval: true,
+      approvalPrompt:
+        `I'd like to archive **${project.name}**:\n\n` +
+        steps.map((s) => `- ${s.name}`).join('\n') +
+        '\n\nRepositories become read-only, Discord channels are locked and Stripe webhooks are turned off. ' +
+        'Everything can be reversed with a restore. Do you approve?',
+      error: 'Archiving a project requires human approval',
+    };
+  }
+
+  const log = await runSaga(
+    createSagaLog('archive', steps.map((s) => s.name), 'rollback'),
+    steps,
+    sagaHooks(projectId)
+  );
+
+  return formatArchiveOutcome(projectId, log, 'archive');
+}
+
+// Reverses the last archive step by step, or takes a project marked deleted back out of the purge queue.
+export async function restoreProject(projectId: string, hasApproval = false): Promise<ToolResult> {
+  const project = projectStore.getProject(projectId);
+  if (!project) {
+    return {
+      success: false,
+      error: `Project ${projectId} not found`,
+    };
+  }
+
+  const log = project.planning.archiveLog;
+  const archived = log && (log.status === 'completed' || log.status === 'rollback_failed');
+
+  if (!archived) {
+    if (project.status !== 'deleted' && project.status !== 'archived') {
+      return {
+        success: false,
+        error: `Project ${project.name} is ${project.status}; there is nothing to restore`,
+      };
+    }
+
+    const status = projectStore.hasResources(project) ? 'active' : 'planning';
+    if (!hasApproval) {
+      return {
+        success: false,
+        requiresApproval: true,
+        approvalPrompt:
+          `I'd like to bring **${project.name}** back from ${project.status} with status ${status}` +
+          (project.status === 'deleted' ? ', taking it out of the purge queue. Resources removed by the cleanup are not recreated' : '') +
+          '. Do you approve?',
+        error: `Restoring a${project.status === 'archived' ? 'n archived' : ' deleted'} project requires human approval`,
+      };
+    }
+
+    projectStore.setProjectStatus(projectId, status);
+    const note = project.status === 'deleted' ? ' Resources removed by the cleanup were not recreated.' : '';
+    return {
+      success: true,
+      data: { projectId, message: `Project ${project.name} restored with status ${status}.${note}` },
+    };
+  }
+
+  if (!hasApproval) {
+    const undo = log.steps
+      .filter((s) => (s.status === 'completed' || s.status === 'compensation_failed') && s.compensation)
+      .reverse()
+      .map((s) => `- ${describeCompensation(s.compensation!)}`);
+
+    return {
+      success: false,
+      requiresApproval: true,
+      approvalPrompt:
+        `I'd like to restore **${project.name}** from its archive:\n\n${undo.join('\n') || '- nothing to undo'}\n\n` +
+        'Do you approve?',
+      error: 'Restoring an archived project requires human approval',
+    };
+  }
+
+  const restored = await rollbackSaga(log, sagaHooks(projectId));
+  return formatArchiveOutcome(projectId, restored, 'restore');
+}
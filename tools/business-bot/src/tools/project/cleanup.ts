@@ -0,0 +1,313 @@
+import fs from 'fs';
+import path from 'path';
+import type { ToolResult, Project, SagaLog, CleanupRepoAction } from '../../types';
+import * as projectStore from '../../context/project-store';
+import * as sqlite from '../../context/persistence/sqlite';
+import * as github from '../../services/github';
+import * as stripeService from '../../services/stripe';
+import { getRegistrar, listRegistrarIds } from '../../services/registrar';
+import * as discordServers from '../discord/servers';
+import { buildManifest, serializeManifest } from './manifest';
+import { createSagaLog, runSaga, formatSagaLog, type SagaStep, type SagaHooks } from './saga';
+import { config } from '../../config';
+
+interface TeardownStep extends SagaStep {
+  // One line for the approval prompt
+  description: string;
+}
+
+function sagaHooks(projectId: string, repoAction: CleanupRepoAction): SagaHooks {
+  return {
+    persist: (log) => projectStore.setCleanupRun(projectId, { repoAction, log }),
+    // Teardown pauses on failure instead of rolling back, so nothing is ever compensated.
+    compensate: async () => ({ success: false, error: 'Cleanup steps cannot be undone' }),
+  };
+}
+
+async function repoExists(owner: string, repo: string): Promise<boolean> {
+  try {
+    await github.getRepository(owner, repo);
+    return true;
+  } catch (error) {
+    if ((error as { status?: number }).status === 404) return false;
+    throw error;
+  }
+}
+
+// Steps run in this order: export, revoke webhooks, disconnect Stripe, delete the server,
+// archive or delete repositories, turn off domain auto-renew, mark the project deleted.
+function buildTeardownSteps(project: Project, repoAction: CleanupRepoAction): TeardownStep[] {
+  const steps: TeardownStep[] = [
+    {
+      name: 'export',
+      description: 'Export the project manifest to disk',
+      run: async () => {
+        const manifest = buildManifest(project, sqlite.listStripeAccounts(project.id));
+        const file = path.join(config.persistence.exportsDir, `${project.id}-${Date.now()}.json`);
+        fs.mkdirSync(path.dirname(file), { recursive: true });
+        fs.writeFileSync(file, serializeManifest(manifest, 'json'));
+        return { success: true, message: `Manifest written to ${file}` };
+      },
+    },
+  ];
+
+  const stripeAccounts = sqlite.listStripeAccounts(project.id);
+
+  for (const account of stripeAccounts) {
+    steps.push({
+      name: `webhooks:${account.accountId}`,
+      description: `Delete the Stripe webhook endpoints on ${account.businessName}`,
+      run: async () => {
+        const endpointIds = Object.keys(account.webhookSecrets);
+        if (endpointIds.length === 0) {
+          return { success: true, skipped: true, message: 'No webhook endpoints' };
+        }
+        if (account.undecryptable) {
+          return {
+            success: true,
+            skipped: true,
+            message: `Stripe key could not be decrypted; delete ${endpointIds.length} webhook endpoint(s) in the Stripe dashboard`,
+          };
+        }
+
+        const existing = new Set((await stripeService.getWebhookEndpoints(account.secretKey)).map((ep) => ep.id));
+        let deleted = 0;
+        for (const endpointId of endpointIds) {
+          if (!existing.has(endpointId)) continue;
+          await stripeService.deleteWebhookEndpoint(account.secretKey, endpointId);
+          deleted += 1;
+        }
+        return { success: true, message: `Deleted ${deleted} webhook endpoint(s)` };
+      },
+    });
+  }
+
+  for (const account of stripeAccounts) {
+    steps.push({
+      name: `stripe:${account.accountId}`,
+      description: `Disconnect Stripe account ${account.businessName}`,
+      run: async () => {
+        sqlite.deleteStripeAccount(account.accountId);
+        return { success: true, message: `Disconnected ${account.businessName}` };
+      },
+    });
+  }
+
+  const discord = project.resources.discord;
+  if (discord) {
+    steps.push({
+      name: 'discord',
+      description: `Permanently delete Discord server ${discord.serverName}`,
+      run: async () => {
+        if (!discordServers.getGuild(discord.serverId)) {
+          projectStore.clearResource(project.id, 'discord');
+          return { success: true, skipped: true, message: 'Server no longer exists' };
+        }
+
+        const result = await discordServers.deleteServer(discord.serverId, true);
+        if (!result.success) return { success: false, error: result.error };
+
+        projectStore.clearResource(project.id, 'discord');
+        return { success: true, message: `Deleted ${discord.serverName}` };
+      },
+    });
+  }
+
+  for (const [key, repo] of projectStore.getRepoEntries(project)) {
+    const fullName = `${repo.owner}/${repo.repo}`;
+    steps.push({
+      name: `github:${key}`,
+      description: repoAction === 'delete'
+        ? `Permanently delete repository ${fullName}`
+        : `Archive repository ${fullName} (read-only)`,
+      run: async () => {
+        if (!(await repoExists(repo.owner, repo.repo))) {
+          projectStore.clearResource(project.id, 'github', key);
+          return { success: true, skipped: true, message: `${fullName} no longer exists` };
+        }
+
+        if (repoAction === 'archive') {
+          const archived = await github.updateRepository(repo.owner, repo.repo, { archived: true });
+          return archived
+            ? { success: true, message: `Archived ${fullName}` }
+            : { success: false, error: `Failed to archive ${fullName}` };
+        }
+
+        const deleted = await github.deleteRepository(repo.owner, repo.repo);
+        if (!deleted) return { success: false, error: `Failed to delete ${fullName}` };
+
+        projectStore.clearResource(project.id, 'github', key);
+        return { success: true, message: `Deleted ${fullName}` };
+      },
+    });
+  }
+
+  for (const [key, domain] of projectStore.getDomainEntries(project)) {
+    steps.push({
+      name: `domain:${key}`,
+      description: `Turn off auto-renew for ${domain.name} (domains can't be deleted)`,
+      run: async () => {
+        if (!domain.autoRenew) {
+          return { success: true, skipped: true, message: 'Auto-renew is already off' };
+        }
+
+        const registrarId = domain.registrar === 'external' ? undefined : domain.registrar;
+        const registrar = registrarId && listRegistrarIds().includes(registrarId) ? getRegistrar(registrarId) : undefined;
+        if (!registrar) {
+          return {
+            success: true,
+            skipped: true,
+            message: `${domain.name} is not in a registrar account the bot manages; turn off auto-renew where it is registered`,
+          };
+        }
+
+        // Without an API for it (Namecheap) the step stays failed until someone turns auto-renew off by hand;
+        // resuming then finds it off at the registrar and moves on.
+        if (!registrar.setAutoRenew) {
+          const owned = (await registrar.listDomains()).find((d) => d.domain.toLowerCase() === domain.name.toLowerCase());
+          if (owned && !owned.autoRenew) {
+            projectStore.setDomainResource(project.id, { ...domain, autoRenew: false }, key);
+            return { success: true, message: `Auto-renew is already off for ${domain.name} at ${registrar.displayName}` };
+          }
+
+          return {
+            success: false,
+            error:
+              `Auto-renew can't be turned off for ${domain.name} automatically. ` +
+              `Turn it off in the ${registrar.displayName} dashboard, then resume the cleanup`,
+          };
+        }
+
+        if (!(await registrar.setAutoRenew(domain.name, false))) {
+          return { success: false, error: `Failed to turn off auto-renew for ${domain.name}` };
+        }
+
+        projectStore.setDomainResource(project.id, { ...domain, autoRenew: false }, key);
+        return { success: true, message: `Auto-renew turned off for ${domain.name}` };
+      },
+    });
+  }
+
+  steps.push({
+    name: 'status',
+    description: 'Mark the project as deleted',
+    run: async () => {
+      projectStore.setProjectStatus(project.id, 'deleted');
+      return { success: true, message: 'Project marked as deleted' };
+    },
+  });
+
+  return steps;
+}
+
+function formatCleanupOutcome(projectId: string, log: SagaLog): ToolResult {
+  const stepLog = formatSagaLog(log);
+
+  if (log.status === 'completed') {
+    return {
+      success: true,
+      data: {
+        projectId,
+        log,
+        message:
+          `Cleanup finished.\n${stepLog}\n\n` +
+          'The project record is kept until it is purged. project_restore only brings the record back; ' +
+          'deleted servers, repositories and webhooks are not recreated.',
+      },
+    };
+  }
+
+  const failedStep = log.steps.find((s) => s.status === 'failed')?.step;
+  return {
+    success: false,
+    data: { projectId, log },
+    error:
+      `Cleanup paused at the ${failedStep} step. Completed steps are not undone.\n${stepLog}\n\n` +
+      'Fix the problem and ask me to resume the cleanup.',
+  };
+}
+
+// Builds the whole teardown up front so it can be approved once, then runs it step by step.
+export async function cleanupProject(
+  projectId: string,
+  hasApproval = false,
+  repoAction: CleanupRepoAction = 'archive'
+): Promise<ToolResult> {
+  const project = projectStore.getProject(projectId);
+
+  if (!project) {
+    return {
+      success: false,
+      error: `Project ${projectId} not found`,
+    };
+  }
+
+  if (project.planning.cleanup?.log.status === 'paused') {
+    return {
+      success: false,
+      error: 'A cleanup run for this project is paused. Resume it instead.',
+    };
+  }
+
+  if (project.status === 'deleted') {
+    return {
+      success: false,
+      error: `Project ${project.name} is already deleted`,
+    };
+  }
+
+  const steps = buildTeardownSteps(project, repoAction);
+
+  if (!hasApproval) {
+    return {
+      success: false,
+      requiresApproval: true,
+      approvalPrompt:
+        `⚠️ **Project Cleanup: ${project.name}**\n\n` +
+        `I'll run these steps in order:\n${steps.map((s, i) => `${i + 1}. ${s.description}`).join('\n')}\n\n` +
+        'If a step fails I stop there and you can resume once it is fixed. Deleted servers and repositories cannot be recovered. ' +
+        'Do you approve?',
+      error: 'Project cleanup requires human approval',
+    };
+  }
+
+  const log = await runSaga(
+    createSagaLog('cleanup', steps.map((s) => s.name), 'pause'),
+    steps,
+    sagaHooks(projectId, repoAction)
+  );
+
+  return formatCleanupOutcome(projectId, log);
+}
+
+export async function resumeCleanup(projectId: string, hasApproval = false): Promise<ToolResult> {
+  const project = projectStore.getProject(projectId);
+  if (!project) {
+    return {
+      success: false,
+      error: `Project ${projectId} not found`,
+    };
+  }
+
+  const run = project.planning.cleanup;
+  if (!run || run.log.status !== 'paused') {
+    return {
+      success: false,
+      error: 'There is no paused cleanup run for this project.',
+    };
+  }
+
+  if (!hasApproval) {
+    return {
+      success: false,
+      requiresApproval: true,
+      approvalPrompt:
+        `I'd like to resume the cleanup of **${project.name}** from the failed step:\n\n${formatSagaLog(run.log)}\n\nDo you approve?`,
+      error: 'Resuming cleanup requires human approval',
+    };
+  }
+
+  // Completed steps have already cleared their resources, so only the remaining ones are rebuilt.
+  const log = await runSaga(run.log, buildTeardownSteps(project, run.repoAction), sagaHooks(projectId, run.repoAction));
+  return formatCleanupOutcome(projectId, log);
+}
@@ -0,0 +1,532 @@
+import { ChannelType } from 'discord.js';
+import type {
+  ToolResult,
+  Project,
+  ProjectDomainResource,
+  ProjectGitHubResource,
+  DriftFinding,
+  DriftReport,
+  DriftRepairAction,
+} from '../../types';
+import * as projectStore from '../../context/project-store';
+import * as github from '../../services/github';
+import { getRegistrar } from '../../services/registrar';
+import { getGuild, createWebhook, webhookIdFromUrl } from '../discord/servers';
+import { resolveBlueprint, blueprintChannels } from '../discord/blueprints';
+
+// Repo variables and secrets the pipeline reads, keyed to the Discord channel they point at.
+const CHANNEL_VARIABLES: Record<string, string> = {
+  DISCORD_PRODUCT_CHANNEL_ID: 'product',
+  DISCORD_DEV_CHANNEL_ID: 'dev',
+  DISCORD_PR_CHANNEL_ID: 'pull-requests',
+};
+
+const WEBHOOK_SECRETS: Record<string, string> = {
+  DISCORD_PRODUCT_WEBHOOK_URL: 'product',
+  DISCORD_DEV_WEBHOOK_URL: 'dev',
+  DISCORD_PR_WEBHOOK_URL: 'pull-requests',
+};
+
+// Repairs run in this order: fix our records first, then recreate webhooks, then push both to the repo.
+const REPAIR_ORDER: DriftRepairAction[] = ['update_resource', 'recreate_webhook', 'sync_pipeline_config'];
+
+// The entries above whose channel is in the project's blueprint; webhook secrets also need the channel to
+// have a webhook there.
+function pipelineChannels(project: Project): { variables: Array<[string, string]>; secrets: Array<[string, string]> } {
+  const specs = blueprintChannels(resolveBlueprint(project)).map(({ channel }) => channel);
+  const channels = new Set(specs.map((spec) => spec.name));
+  const webhookChannels = new Set(specs.filter((spec) => spec.webhook).map((spec) => spec.name));
+
+  return {
+    variables: Object.entries(CHANNEL_VARIABLES).filter(([, channel]) => channels.has(channel)),
+    secrets: Object.entries(WEBHOOK_SECRETS).filter(([, channel]) => webhookChannels.has(channel)),
+  };
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export async function checkDomainDrift(project: Project): Promise<DriftFinding[]> {
+  const findings: DriftFinding[] = [];
+  for (const [key, domain] of projectStore.getDomainEntries(project)) {
+    const entryFindings = await checkDomainEntry(domain);
+    findings.push(...entryFindings.map((f) => ({ ...f, resourceKey: key })));
+  }
+  return findings;
+}
+
+async function checkDomainEntry(domain: ProjectDomainResource): Promise<DriftFinding[]> {
+  if (domain.registrar === 'external') return [];
+
+  let owned;
+  try {
+    owned = (await getRegistrar(domain.registrar).listDomains()).find(
+      (d) => d.domain.toLowerCase() === domain.name.toLowerCase()
+    );
+  } catch (error) {
+    return [{ resource: 'domain', kind: 'unreachable', subject: domain.name, actual: errorMessage(error) }];
+  }
+
+  if (!owned) {
+    return [{ resource: 'domain', kind: 'missing', subject: domain.name, expected: `in the ${domain.registrar} account` }];
+  }
+
+  const findings: DriftFinding[] = [];
+  const expiresAt = Date.parse(owned.expires);
+
+  if (!Number.isNaN(expiresAt) && expiresAt !== domain.expiresAt) {
+    findings.push({
+      resource: 'domain',
+      kind: 'mismatch',
+      subject: 'expiry',
+      expected: domain.expiresAt ? new Date(domain.expiresAt).toISOString().slice(0, 10) : 'unknown',
+      actual: new Date(expiresAt).toISOString().slice(0, 10),
+      repair: 'update_resource',
+    });
+  }
+
+  if (owned.autoRenew !== domain.autoRenew) {
+    findings.push({
+      resource: 'domain',
+      kind: 'mismatch',
+      subject: 'autoRenew',
+      expected: String(domain.autoRenew),
+      actual: String(owned.autoRenew),
+      repair: 'update_resource',
+    });
+  }
+
+  return findings;
+}
+
+export async function checkGitHubDrift(project: Project): Promise<DriftFinding[]> {
+  const findings: DriftFinding[] = [];
+  for (const [key, repoResource] of projectStore.getRepoEntries(project)) {
+    const entryFindings = await checkRepoEntry(project, repoResource);
+    findings.push(...entryFindings.map((f) => ({ ...f, resourceKey: key })));
+  }
+  return findings;
+}
+
+async function checkRepoEntry(project: Project, repoResource: ProjectGitHubResource): Promise<DriftFinding[]> {
+  const recorded = `${repoResource.owner}/${repoResource.repo}`;
+
+  let repository;
+  try {
+    repository = await github.getRepository(repoResource.owner, repoResource.repo);
+  } catch (error) {
+    const status = (error as { status?: number }).status;
+    return [
+      status === 404
+        ? { resource: 'github', kind: 'missing', subject: 'repository', expected: recorded }
+        : { resource: 'github', kind: 'unreachable', subject: 'repository', actual: errorMessage(error) },
+    ];
+  }
+
+  const findings: DriftFinding[] = [];
+
+  // GitHub redirects renamed and transferred repos, so the lookup succeeds under the new name.
+  if (repository.fullName.toLowerCase() !== recorded.toLowerCase()) {
+    findings.push({
+      resource: 'github',
+      kind: 'renamed',
+      subject: 'repository',
+      expected: recorded,
+      actual: repository.fullName,
+      repair: 'update_resource',
+    });
+  }
+
+  const discord = project.resources.discord;
+  if (!discord) return findings;
+
+  const [owner, repo] = repository.fullName.split('/');
+  let secrets: string[];
+  let variables: Array<{ name: string; value: string }>;
+  try {
+    [secrets, variables] = await Promise.all([
+      github.listRepositorySecrets(owner, repo),
+      github.listRepositoryVariables(owner, repo),
+    ]);
+  } catch (error) {
+    findings.push({ resource: 'github', kind: 'unreachable', subject: 'pipeline config', actual: errorMessage(error) });
+    return findings;
+  }
+
+  const pipeline = pipelineChannels(project);
+
+  for (const [name, channel] of pipeline.variables) {
+    const expected = discord.channelIds?.[channel];
+    if (!expected) continue;
+
+    const actual = variables.find((v) => v.name === name)?.value;
+    if (actual !== expected) {
+      findings.push({
+        resource: 'github',
+        kind: actual === undefined ? 'missing' : 'mismatch',
+        subject: `variable:${name}`,
+        expected,
+        actual,
+        repair: 'sync_pipeline_config',
+      });
+    }
+  }
+
+  for (const [name, channel] of pipeline.secrets) {
+    if (discord.webhookRefs?.[channel] && !secrets.includes(name)) {
+      findings.push({ resource: 'github', kind: 'missing', subject: `secret:${name}`, repair: 'sync_pipeline_config' });
+    }
+  }
+
+  return findings;
+}
+
+export async function checkDiscordDrift(project: Project): Promise<DriftFinding[]> {
+  const discord = project.resources.discord;
+  if (!discord) return [];
+
+  let guild;
+  try {
+    guild = getGuild(discord.serverId);
+  } catch (error) {
+    return [{ resource: 'discord', kind: 'unreachable', subject: 'server', actual: errorMessage(error) }];
+  }
+
+  if (!guild) {
+    return [{ resource: 'discord', kind: 'missing', subject: 'server', expected: `${discord.serverName} (${discord.serverId})` }];
+  }
+
+  const findings: DriftFinding[] = [];
+
+  if (guild.name !== discord.serverName) {
+    findings.push({
+      resource: 'discord',
+      kind: 'renamed',
+      subject: 'server',
+      expected: discord.serverName,
+      actual: guild.name,
+      repair: 'update_resource',
+    });
+  }
+
+  for (const [name, id] of Object.entries(discord.channelIds ?? {})) {
+    const channel = guild.channels.cache.get(id);
+
+    if (!channel) {
+      const replacement = guild.channels.cache.find((ch) => ch.type === ChannelType.GuildText && ch.name === name);
+      findings.push(
+        replacement
+          ? { resource: 'discord', kind: 'mismatch', subject: `channel:${name}`, expected: id, actual: replacement.id, repair: 'update_resource' }
+          : { resource: 'discord', kind: 'missing', subject: `channel:${name}`, expected: id }
+      );
+    } else if (channel.name !== name) {
+      findings.push({ resource: 'discord', kind: 'renamed', subject: `channel:${name}`, expected: name, actual: channel.name });
+    }
+  }
+
+  const webhookEntries = Object.entries(projectStore.getWebhookUrls(project));
+  if (webhookEntries.length === 0) return findings;
+
+  let existing;
+  try {
+    existing = await guild.fetchWebhooks();
+  } catch (error) {
+    findings.push({ resource: 'discord', kind: 'unreachable', subject: 'webhooks', actual: errorMessage(error) });
+    return findings;
+  }
+
+  for (const [channel, url] of webhookEntries) {
+    const id = webhookIdFromUrl(url);
+    if (!id || !existing.has(id)) {
+      findings.push({ resource: 'discord', kind: 'missing', subject: `webhook:${channel}`, repair: 'recreate_webhook' });
+    }
+  }
+
+  return findings;
+}
+
+export async function buildDriftReport(project: Project): Promise<DriftReport> {
+  const [domain, repo, discord] = await Promise.all([
+    checkDomainDrift(project),
+    checkGitHubDrift(project),
+    checkDiscordDrift(project),
+  ]);
+
+  return {
+    projectId: project.id,
+    projectName: project.name,
+    checkedAt: Date.now(),
+    findings: [...domain, ...repo, ...discord],
+  };
+}
+
+const KIND_ICONS: Record<DriftFinding['kind'], string> = {
+  missing: '❌',
+  renamed: '✏️',
+  mismatch: '⚠️',
+  unreachable: '❔',
+};
+
+export function formatDriftFinding(finding: DriftFinding): string {
+  const subject = finding.subject.replace(/^(\w+):(.+)$/, (_, kind: string, name: string) =>
+    kind === 'channel' || kind === 'webhook' ? `${kind} #${name}` : `${kind} ${name}`
+  );
+
+  const change =
+    finding.kind === 'unreachable'
+      ? `: ${finding.actual}`
+      : finding.expected !== undefined && finding.actual !== undefined
+        ? `: expected ${finding.expected}, found ${finding.actual}`
+        : finding.expected !== undefined
+          ? ` (expected ${finding.expected})`
+          : '';
+
+  const repair = finding.repair ? ` — repair: \`${finding.repair}\`` : '';
+  const resource = finding.resourceKey ? `${finding.resource} (${finding.resourceKey})` : finding.resource;
+  return `${KIND_ICONS[finding.kind]} ${resource} ${subject} ${finding.kind}${change}${repair}`;
+}
+
+export function formatDriftReport(report: DriftReport): string {
+  if (report.findings.length === 0) {
+    return `**${report.projectName}**: no drift`;
+  }
+
+  return [
+    `**${report.projectName}** (\`${report.projectId}\`): ${report.findings.length} finding(s)`,
+    ...report.findings.map((f) => `- ${formatDriftFinding(f)}`),
+  ].join('\n');
+}
+
+export async function checkProjectDrift(projectId?: string): Promise<ToolResult> {
+  let projects: Project[];
+
+  if (projectId) {
+    const project = projectStore.getProject(projectId);
+    if (!project) {
+      return { success: false, error: `Project ${projectId} not found` };
+    }
+    projects = [project];
+  } else {
+    projects = projectStore.getProjectsWithResources();
+  }
+
+  try {
+    const reports: DriftReport[] = [];
+    for (const project of projects) {
+      reports.push(await buildDriftReport(project));
+    }
+
+    const drifted = reports.filter((r) => r.findings.length > 0);
+    const repairs = [...new Set(drifted.flatMap((r) => r.findings.flatMap((f) => (f.repair ? [f.repair] : []))))];
+
+    return {
+      success: true,
+      data: {
+        checked: reports.length,
+        drifted: drifted.length,
+        reports,
+        availableRepairs: repairs,
+        summary:
+          reports.length === 0
+            ? 'No projects with resources to check'
+            : reports.map(formatDriftReport).join('\n\n'),
+      },
+    };
+  } catch (error) {
+    return { success: false, error: errorMessage(error) };
+  }
+}
+
+async function refreshResources(project: Project, findings: DriftFinding[]): Promise<string[]> {
+  const done: string[] = [];
+  const { discord } = project.resources;
+  const flagged = (resource: DriftFinding['resource'], key: string) =>
+    findings.some((f) => f.resource === resource && f.resourceKey === key);
+
+  for (const [key, domain] of projectStore.getDomainEntries(project)) {
+    if (domain.registrar === 'external' || !flagged('domain', key)) continue;
+
+    const owned = (await getRegistrar(domain.registrar).listDomains()).find(
+      (d) => d.domain.toLowerCase() === domain.name.toLowerCase()
+    );
+    if (owned) {
+      projectStore.setDomainResource(
+        project.id,
+        {
+          name: domain.name,
+          registrar: domain.registrar,
+          registeredAt: domain.registeredAt,
+          expiresAt: Date.parse(owned.expires) || domain.expiresAt,
+          autoRenew: owned.autoRenew,
+        },
+        key
+      );
+      done.push(`Updated ${domain.name} expiry and auto-renew from the registrar`);
+    }
+  }
+
+  for (const [key, repoResource] of projectStore.getRepoEntries(project)) {
+    if (!flagged('github', key)) continue;
+
+    const repository = await github.getRepository(repoResource.owner, repoResource.repo);
+    const [owner, repo] = repository.fullName.split('/');
+    projectStore.setGitHubResource(project.id, { ...repoResource, owner, repo, url: repository.url }, key);
+    done.push(`Recorded ${key} repository as ${repository.fullName}`);
+  }
+
+  if (discord && findings.some((f) => f.resource === 'discord')) {
+    const guild = getGuild(discord.serverId);
+    if (guild) {
+      const channelIds = { ...discord.channelIds };
+      for (const finding of findings) {
+        const name = finding.subject.startsWith('channel:') ? finding.subject.slice('channel:'.length) : undefined;
+        if (name && finding.actual) channelIds[name] = finding.actual;
+      }
+      projectStore.setDiscordResource(project.id, { ...discord, serverName: guild.name, channelIds });
+      done.push(`Updated Discord server name and channel IDs for ${guild.name}`);
+    }
+  }
+
+  return done;
+}
+
+async function syncPipelineConfig(project: Project): Promise<string[]> {
+  const { discord } = project.resources;
+  if (!discord) return [];
+
+  const webhooks = projectStore.getWebhookUrls(project);
+  const pipeline = pipelineChannels(project);
+  const secrets = Object.fromEntries(pipeline.secrets.map(([name, channel]) => [name, webhooks[channel]]));
+  const variables = Object.fromEntries(
+    pipeline.variables.map(([name, channel]) => [name, discord.channelIds?.[channel]])
+  );
+
+  const done: string[] = [];
+  for (const [key, repoResource] of projectStore.getRepoEntries(project)) {
+    const result = await github.configureRepositoryForPipelines(repoResource.owner, repoResource.repo, secrets, variables);
+    projectStore.recordSecretsSet(project.id, key, result.secretsSet);
+    if (!result.success) {
+      throw new Error(`${repoResource.owner}/${repoResource.repo}: ${result.errors.join(', ')}`);
+    }
+    done.push(
+      `Synced ${result.secretsSet.length} secret(s) and ${result.variablesSet.length} variable(s) to ${repoResource.owner}/${repoResource.repo}`
+    );
+  }
+
+  return done;
+}
+
+function findingKey(finding: DriftFinding): string {
+  return JSON.stringify([
+    finding.resource,
+    finding.resourceKey,
+    finding.kind,
+    finding.subject,
+    finding.expected,
+    finding.actual,
+    finding.repair,
+  ]);
+}
+
+// The approval stores the findings it was asked about. After approval only those still present are repaired;
+// anything that changed or appeared in the meantime is left for a new request.
+export async function repairProjectDrift(
+  projectId: string,
+  actions?: DriftRepairAction[],
+  hasApproval = false,
+  approvedFindings?: DriftFinding[]
+): Promise<ToolResult> {
+  const project = projectStore.getProject(projectId);
+  if (!project) {
+    return { success: false, error: `Project ${projectId} not found` };
+  }
+
+  try {
+    const report = await buildDriftReport(project);
+    const found = report.findings.filter((f) => f.repair && (!actions || actions.includes(f.repair)));
+
+    if (hasApproval && !approvedFindings) {
+      return { success: false, error: 'The approval does not list which findings to repair; ask for the repair again' };
+    }
+
+    const approvedKeys = new Set((approvedFindings ?? []).map(findingKey));
+    const repairable = hasApproval ? found.filter((f) => approvedKeys.has(findingKey(f))) : found;
+    const notApproved = hasApproval ? found.filter((f) => !approvedKeys.has(findingKey(f))) : [];
+
+    if (repairable.length === 0) {
+      return {
+        success: true,
+        data: {
+          projectId,
+          message: hasApproval
+            ? `None of the approved findings are still present on ${project.name}; nothing was repaired`
+            : `Nothing to repair for ${project.name}`,
+          report: formatDriftReport(report),
+        },
+      };
+    }
+
+    if (!hasApproval) {
+      return {
+        success: false,
+        requiresApproval: true,
+        approvalPrompt:
+          `I'd like to repair drift on **${project.name}**:\n` +
+          repairable.map((f) => `- ${formatDriftFinding(f)}`).join('\n') +
+          '\n\nDo you approve?',
+        error: 'Drift repair requires human approval',
+        approvalArgs: { approvedFindings: repairable },
+      };
+    }
+
+    const planned = new Set(repairable.map((f) => f.repair!));
+    // Recreated webhooks have new URLs, so the repo secrets that hold them are stale afterwards.
+    if (planned.has('recreate_webhook') && projectStore.getRepoEntries(project).length > 0) {
+      planned.add('sync_pipeline_config');
+    }
+
+    const done: string[] = [];
+    const errors: string[] = [];
+
+    for (const action of REPAIR_ORDER.filter((a) => planned.has(a))) {
+      const current = projectStore.getProject(projectId)!;
+
+      try {
+        if (action === 'update_resource') {
+          done.push(...(await refreshResources(current, repairable.filter((f) => f.repair === 'update_resource'))));
+        } else if (action === 'recreate_webhook') {
+          for (const finding of repairable.filter((f) => f.repair === 'recreate_webhook')) {
+            const channel = finding.subject.slice('webhook:'.length);
+            const result = await createWebhook(current.resources.discord!.serverId, channel);
+            if (!result.success) throw new Error(result.error);
+            done.push(`Recreated webhook for #${channel}`);
+          }
+        } else {
+          done.push(...(await syncPipelineConfig(current)));
+        }
+      } catch (error) {
+        errors.push(`${action}: ${errorMessage(error)}`);
+      }
+    }
+
+    const after = await buildDriftReport(projectStore.getProject(projectId)!);
+
+    return {
+      success: errors.length === 0,
+      data: {
+        projectId,
+        repaired: done,
+        remaining: formatDriftReport(after),
+        message:
+          (done.length > 0 ? done.join('\n') : 'No repairs were applied') +
+          (notApproved.length > 0
+            ? `\n\nLeft alone because they weren't in the approval:\n${notApproved.map((f) => `- ${formatDriftFinding(f)}`).join('\n')}`
+            : ''),
+      },
+      error: errors.length > 0 ? `Some repairs failed: ${errors.join('; ')}` : undefined,
+    };
+  } catch (error) {
+    return { success: false, error: errorMessage(error) };
+  }
+}
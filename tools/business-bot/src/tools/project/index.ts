@@ -1,4 +1,5 @@
 import type { ChatCompletionTool } from 'openai/resources/chat/completions';
+import { listRegistrarIds } from '../../services/registrar';
 
 export const projectTools: ChatCompletionTool[] = [
   {
@@ -124,7 +125,8 @@ export const projectTools: ChatCompletionTool[] = [
     type: 'function',
     function: {
       name: 'project_set_status',
-      description: 'Update a project status',
+      description:
+        'Move a project between planning and active. Archiving, deleting and bringing a project back go through project_archive, project_cleanup and project_restore, which need approval.',
       parameters: {
         type: 'object',
         properties: {
@@ -134,7 +136,7 @@ export const projectTools: ChatCompletionTool[] = [
           },
           status: {
             type: 'string',
-            enum: ['planning', 'active', 'archived', 'deleted'],
+            enum: ['planning', 'active'],
             description: 'New status',
           },
         },
@@ -146,7 +148,7 @@ export const projectTools: ChatCompletionTool[] = [
     type: 'function',
     function: {
       name: 'project_cleanup',
-      description: 'Clean up all resources associated with a project. REQUIRES HUMAN APPROVAL for each resource.',
+      description: 'Tear down a project in order: export its manifest, revoke Stripe webhooks, disconnect Stripe, delete the Discord server, archive or delete its repositories, turn off domain auto-renew and mark it deleted. REQUIRES ONE HUMAN APPROVAL for the whole plan.',
       parameters: {
         type: 'object',
         properties: {
@@ -154,6 +156,28 @@ export const projectTools: ChatCompletionTool[] = [
             type: 'string',
             description: 'Project ID to clean up',
           },
+          repoAction: {
+            type: 'string',
+            enum: ['archive', 'delete'],
+            description: 'Archive (read-only, default) or permanently delete the repositories',
+          },
+        },
+        required: ['projectId'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'project_resume_cleanup',
+      description: 'Retry a paused cleanup run from the step that failed. REQUIRES HUMAN APPROVAL.',
+      parameters: {
+        type: 'object',
+        properties: {
+          projectId: {
+            type: 'string',
+            description: 'Project ID',
+          },
         },
         required: ['projectId'],
       },
@@ -176,6 +200,422 @@ export const projectTools: ChatCompletionTool[] = [
       },
     },
   },
+  {
+    type: 'function',
+    function: {
+      name: 'project_plan_provisioning',
+      description: 'Draft a provisioning plan (domain, Discord server with channels and webhooks, repo from template, secrets, DNS) without calling any external API. The plan is stored on the project and returned as a diff against its current resources. Replaces any previous draft.',
+      parameters: {
+        type: 'object',
+        properties: {
+          projectId: {
+            type: 'string',
+            description: 'Project ID',
+          },
+          domain: {
+            type: 'string',
+            description: 'Optional: domain to register (e.g., "example.com")',
+          },
+          domainYears: {
+            type: 'number',
+            description: 'Optional: registration period in years (default: 1)',
+          },
+          discordServerName: {
+            type: 'string',
+            description: 'Optional: name of the Discord server to create (standard channels and webhooks are included)',
+          },
+          repoName: {
+            type: 'string',
+            description: 'Optional: name of the GitHub repository to create',
+          },
+          repoDescription: {
+            type: 'string',
+            description: 'Optional: repository description',
+          },
+          repoPrivate: {
+            type: 'boolean',
+            description: 'Optional: whether the repository is private (default: true)',
+          },
+          useTemplate: {
+            type: 'boolean',
+            description: 'Optional: create the repository from the pipeline template (default: true)',
+          },
+          configureSecrets: {
+            type: 'boolean',
+            description: 'Optional: configure repository secrets/variables (default: true when a repo is planned)',
+          },
+          dnsRecords: {
+            type: 'array',
+            description: 'Optional: DNS records to set on the domain (replaces existing records)',
+            items: {
+              type: 'object',
+              properties: {
+                hostName: { type: 'string' },
+                type: { type: 'string' },
+                address: { type: 'string' },
+                ttl: { type: 'number' },
+                mxPref: { type: 'number' },
+              },
+              required: ['hostName', 'type', 'address', 'ttl'],
+            },
+          },
+        },
+        required: ['projectId'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'project_apply_plan',
+      description: 'Apply the project\'s stored provisioning plan in one go. REQUIRES HUMAN APPROVAL (a single approval covers the whole plan).',
+      parameters: {
+        type: 'object',
+        properties: {
+          projectId: {
+            type: 'string',
+            description: 'Project ID',
+          },
+          onFailure: {
+            type: 'string',
+            enum: ['rollback', 'pause'],
+            description: 'What to do if a step fails: undo completed steps automatically (default) or pause for a human decision',
+          },
+        },
+        required: ['projectId'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'project_resume_provisioning',
+      description: 'Retry a paused provisioning run from the step that failed. REQUIRES HUMAN APPROVAL.',
+      parameters: {
+        type: 'object',
+        properties: {
+          projectId: {
+            type: 'string',
+            description: 'Project ID',
+          },
+        },
+        required: ['projectId'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'project_rollback_provisioning',
+      description: 'Undo the completed steps of a paused provisioning run (deletes created repos/servers, restores DNS). REQUIRES HUMAN APPROVAL.',
+      parameters: {
+        type: 'object',
+        properties: {
+          projectId: {
+            type: 'string',
+            description: 'Project ID',
+          },
+        },
+        required: ['projectId'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'project_archive',
+      description: 'Archive a project: snapshot its state, make its repositories read-only, lock its Discord channels and disable its Stripe webhooks. Reversible with project_restore. REQUIRES HUMAN APPROVAL.',
+      parameters: {
+        type: 'object',
+        properties: {
+          projectId: {
+            type: 'string',
+            description: 'Project ID',
+          },
+        },
+        required: ['projectId'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'project_restore',
+      description: 'Reverse a project archive step by step, or bring back a project marked deleted before it is purged. Undoing an archive REQUIRES HUMAN APPROVAL.',
+      parameters: {
+        type: 'object',
+        properties: {
+          projectId: {
+            type: 'string',
+            description: 'Project ID',
+          },
+        },
+        required: ['projectId'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'project_set_domain',
+      description: 'Attach a domain we already own to a project instead of registering a new one. Use registrar "external" for domains held at a registrar the bot does not manage.',
+      parameters: {
+        type: 'object',
+        properties: {
+          projectId: {
+            type: 'string',
+            description: 'The project ID',
+          },
+          domain: {
+            type: 'string',
+            description: 'The domain name (e.g., "example.com")',
+          },
+          registrar: {
+            type: 'string',
+            enum: [...listRegistrarIds(), 'external'],
+            description: 'Registrar that holds the domain',
+          },
+          expiresAt: {
+            type: 'string',
+            description: 'Optional: expiry date (ISO 8601) for external domains',
+          },
+          resourceKey: {
+            type: 'string',
+            description: 'Name of this domain in the project (e.g., "prod", "staging"; default: "main")',
+          },
+        },
+        required: ['projectId', 'domain', 'registrar'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'project_set_repo_variables',
+      description: 'Record environment-specific GitHub Actions variables for one of a project\'s repositories (e.g., staging vs prod). They override template and Discord values when the repo is scaffolded.',
+      parameters: {
+        type: 'object',
+        properties: {
+          projectId: {
+            type: 'string',
+            description: 'The project ID',
+          },
+          resourceKey: {
+            type: 'string',
+            description: 'Which repository in the project (e.g., "web", "infra", "main")',
+          },
+          variables: {
+            type: 'object',
+            description: 'Variable names and values to record',
+            additionalProperties: { type: 'string' },
+          },
+        },
+        required: ['projectId', 'resourceKey', 'variables'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'project_set_discord_blueprint',
+      description: 'Choose the Discord blueprint discord_setup_channels applies for this project, optionally with overrides. Overrides are merged onto the blueprint by name; an entry with remove: true drops it.',
+      parameters: {
+        type: 'object',
+        properties: {
+          projectId: {
+            type: 'string',
+            description: 'Project ID',
+          },
+          blueprint: {
+            type: 'string',
+            description: 'Blueprint name from discord_list_blueprints (default: standard)',
+          },
+          override: {
+            type: 'string',
+            description: 'Optional JSON or YAML with roles, channels and/or categories to add, change or remove, e.g. {"categories":[{"name":"Project","channels":[{"name":"design","topic":"Design reviews"},{"name":"standup","remove":true}]}]}',
+          },
+        },
+        required: ['projectId'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'project_export',
+      description: 'Export a project as a versioned JSON or YAML manifest (planning, ideas, research, business plan, resources, approvals and Stripe account references). Secrets are redacted.',
+      parameters: {
+        type: 'object',
+        properties: {
+          projectId: {
+            type: 'string',
+            description: 'The project ID',
+          },
+          format: {
+            type: 'string',
+            enum: ['json', 'yaml'],
+            description: 'Manifest format (default: json)',
+          },
+        },
+        required: ['projectId'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'project_import',
+      description: 'Recreate a project from a manifest produced by project_export. The manifest is validated first; nothing is written if it is invalid or its resources belong to another project. Overwriting an existing project REQUIRES HUMAN APPROVAL.',
+      parameters: {
+        type: 'object',
+        properties: {
+          manifest: {
+            type: 'string',
+            description: 'The manifest text (JSON or YAML)',
+          },
+          onConflict: {
+            type: 'string',
+            enum: ['fail', 'new_id', 'overwrite'],
+            description: 'What to do if the project ID already exists: fail (default), import under a new ID, or overwrite the existing project',
+          },
+        },
+        required: ['manifest'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'project_adopt',
+      description: 'Adopt infrastructure that already exists (a domain, a GitHub repo, a Discord server) into a project and mark it active. Validates each resource and discovers Discord channel IDs and webhooks, but never creates or changes anything outside the bot. Pass projectId to adopt into an existing project, or name to create one.',
+      parameters: {
+        type: 'object',
+        properties: {
+          projectId: {
+            type: 'string',
+            description: 'Existing project to adopt into',
+          },
+          name: {
+            type: 'string',
+            description: 'Name for a new project (when projectId is omitted)',
+          },
+          description: {
+            type: 'string',
+            description: 'Optional: description for a new project',
+          },
+          domain: {
+            type: 'string',
+            description: 'Domain we already own (e.g., "example.com")',
+          },
+          registrar: {
+            type: 'string',
+            enum: [...listRegistrarIds(), 'external'],
+            description: 'Registrar that holds the domain (default: the configured registrar)',
+          },
+          expiresAt: {
+            type: 'string',
+            description: 'Optional: expiry date (ISO 8601) for external domains',
+          },
+          repo: {
+            type: 'string',
+            description: 'Existing GitHub repository in owner/repo form',
+          },
+          serverId: {
+            type: 'string',
+            description: 'Existing Discord server (guild) ID the bot is a member of',
+          },
+          resourceKey: {
+            type: 'string',
+            description: 'Name to record the domain and repository under (e.g., "prod", "web"; default: "main")',
+          },
+        },
+        required: [],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'project_check_drift',
+      description: 'Compare recorded project resources with the live registrar, GitHub repository (including pipeline secrets and variables) and Discord server, and report drift with available repairs',
+      parameters: {
+        type: 'object',
+        properties: {
+          projectId: {
+            type: 'string',
+            description: 'Optional: project ID. Omit to check every project with resources.',
+          },
+        },
+        required: [],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'project_repair_drift',
+      description: 'Repair drift found by project_check_drift (requires approval). update_resource fixes our records, recreate_webhook recreates deleted Discord webhooks, sync_pipeline_config re-pushes webhook secrets and channel variables to the repo',
+      parameters: {
+        type: 'object',
+        properties: {
+          projectId: {
+            type: 'string',
+            description: 'Project ID',
+          },
+          repairs: {
+            type: 'array',
+            items: { type: 'string', enum: ['update_resource', 'recreate_webhook', 'sync_pipeline_config'] },
+            description: 'Optional: only run these repairs (default: every available repair)',
+          },
+        },
+        required: ['projectId'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'project_rotate_secrets',
+      description: 'Rotate a project\'s secrets (requires approval). Each Discord webhook is recreated, its new URL is pushed to the project\'s repositories (DISCORD_DEV/PRODUCT/PR_WEBHOOK_URL), then the old webhook is deleted. New values for other secrets, such as API keys the user has regenerated, are pushed to every repository. Rotation times are recorded for the reminder job.',
+      parameters: {
+        type: 'object',
+        properties: {
+          projectId: {
+            type: 'string',
+            description: 'Project ID',
+          },
+          channels: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Optional: only rotate the webhooks for these channels, e.g. ["dev"] (default: every recorded webhook; pass [] to rotate none)',
+          },
+          values: {
+            type: 'object',
+            additionalProperties: { type: 'string' },
+            description: 'Optional: new values for other repository secrets, e.g. {"ANTHROPIC_API_KEY": "sk-..."}',
+          },
+        },
+        required: ['projectId'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'project_get_costs',
+      description: 'Get spend to date, spend this month, and projected annual renewals for a project (or for every project if no ID is given)',
+      parameters: {
+        type: 'object',
+        properties: {
+          projectId: {
+            type: 'string',
+            description: 'Optional: project ID. Omit to summarize all projects.',
+          },
+        },
+        required: [],
+      },
+    },
+  },
   {
     type: 'function',
     function: {
@@ -1,7 +1,11 @@
-import type { ToolResult, Project } from '../../types';
+import type { ToolResult, Project, ProjectDomainResource, ProjectGitHubResource } from '../../types';
 import * as projectStore from '../../context/project-store';
+import * as costStore from '../../context/cost-store';
+import { formatSagaLog } from './saga';
+import { checkDiscordDrift, formatDriftFinding } from './drift';
 import * as github from '../../services/github';
-import * as namecheap from '../../services/namecheap';
+import { getRegistrar } from '../../services/registrar';
+import { config } from '../../config';
 
 export async function createProject(
   name: string,
@@ -50,23 +54,32 @@ export async function getProject(projectId: string): Promise<ToolResult> {
       updatedAt: new Date(project.updatedAt).toISOString(),
       createdBy: project.createdBy,
       resources: {
-        domain: project.resources.domain
-          ? {
-              name: project.resources.domain.name,
-              expiresAt: new Date(project.resources.domain.expiresAt).toISOString(),
-            }
-          : null,
-        github: project.resources.github
-          ? {
-              repo: `${project.resources.github.owner}/${project.resources.github.repo}`,
-              url: project.resources.github.url,
-            }
-          : null,
+        domains: Object.fromEntries(
+          projectStore.getDomainEntries(project).map(([key, domain]) => [
+            key,
+            {
+              name: domain.name,
+              registrar: domain.registrar,
+              expiresAt: domain.expiresAt ? new Date(domain.expiresAt).toISOString() : null,
+            },
+          ])
+        ),
+        github: Object.fromEntries(
+          projectStore.getRepoEntries(project).map(([key, repo]) => [
+            key,
+            {
+              repo: `${repo.owner}/${repo.repo}`,
+              url: repo.url,
+              variables: repo.variables ?? {},
+            },
+          ])
+        ),
         discord: project.resources.discord
           ? {
               serverName: project.resources.discord.serverName,
               serverId: project.resources.discord.serverId,
               channels: project.resources.discord.channels,
+              webhooks: Object.keys(project.resources.discord.webhookRefs ?? {}),
             }
           : null,
       },
@@ -75,6 +88,7 @@ export async function getProject(projectId: string): Promise<ToolResult> {
         researchCount: project.planning.research.length,
         hasBusinessPlan: Boolean(project.planning.businessPlan),
         approvals: project.planning.approvals,
+        provisioningPlanStatus: project.planning.provisioningPlan?.status ?? null,
       },
     },
   };
@@ -92,9 +106,7 @@ export async function listProjects(status?: Project['status']): Promise<ToolResu
         id: p.id,
         name: p.name,
         status: p.status,
-        hasResources: Boolean(
-          p.resources.domain || p.resources.github || p.resources.discord
-        ),
+        hasResources: projectStore.hasResources(p),
         updatedAt: new Date(p.updatedAt).toISOString(),
       })),
     },
@@ -160,27 +172,93 @@ export async function setBusinessPlan(projectId: string, businessPlan: string):
   };
 }
 
+// Only moves between planning and active. Archived and deleted projects are entered and left through the
+// approval-gated archive, cleanup and restore flows; a deleted project is purged once its retention runs out.
 export async function setStatus(projectId: string, status: Project['status']): Promise<ToolResult> {
-  const project = projectStore.setProjectStatus(projectId, status);
+  if (status === 'archived' || status === 'deleted') {
+    return {
+      success: false,
+      error: `Use ${status === 'archived' ? 'project_archive' : 'project_cleanup'} to mark a project ${status}; it needs approval`,
+    };
+  }
 
-  if (!project) {
+  const current = projectStore.getProject(projectId);
+  if (!current) {
     return {
       success: false,
       error: `Project ${projectId} not found`,
     };
   }
 
+  if (current.status === 'archived' || current.status === 'deleted') {
+    return {
+      success: false,
+      error: `Project ${current.name} is ${current.status}; bring it back with project_restore, which needs approval`,
+    };
+  }
+
+  projectStore.setProjectStatus(projectId, status);
+
   return {
     success: true,
     data: {
       projectId,
-      oldStatus: project.status,
+      oldStatus: current.status,
       newStatus: status,
       message: `Project status changed to ${status}`,
     },
   };
 }
 
+type ResourceHealth = Record<string, unknown> & { healthy?: boolean };
+
+async function getDomainStatus(domain: ProjectDomainResource): Promise<ResourceHealth> {
+  if (domain.registrar === 'external') {
+    return {
+      name: domain.name,
+      registrar: 'external',
+      status: 'unmanaged',
+    };
+  }
+
+  try {
+    const domainInfo = await getRegistrar(domain.registrar).getDomainInfo(domain.name);
+    return {
+      name: domain.name,
+      registrar: domain.registrar,
+      status: domainInfo.status,
+      expires: domainInfo.expires,
+      healthy: domainInfo.status === 'Ok',
+    };
+  } catch {
+    return {
+      name: domain.name,
+      status: 'unknown',
+      healthy: false,
+      error: 'Could not fetch domain status',
+    };
+  }
+}
+
+async function getRepoStatus(resource: ProjectGitHubResource): Promise<ResourceHealth> {
+  try {
+    const repo = await github.getRepository(resource.owner, resource.repo);
+    return {
+      repo: `${resource.owner}/${resource.repo}`,
+      url: resource.url,
+      healthy: true,
+      openIssues: repo.openIssuesCount,
+      stars: repo.stargazersCount,
+    };
+  } catch {
+    return {
+      repo: `${resource.owner}/${resource.repo}`,
+      healthy: false,
+      error: 'Could not fetch repository status',
+    };
+  }
+}
+
 export async function getProjectStatus(projectId: string): Promise<ToolResult> {
   const project = projectStore.getProject(projectId);
 
@@ -191,82 +269,134 @@ export async function getProjectStatus(projectId: string): Promise<ToolResult> {
     };
   }
 
-  const resourceStatus: Record<string, unknown> = {};
-
-  if (project.resources.domain) {
-    try {
-      const domainInfo = await namecheap.getDomainInfo(project.resources.domain.name);
-      resourceStatus.domain = {
-        name: project.resources.domain.name,
-        status: domainInfo.status,
-        expires: domainInfo.expires,
-        healthy: domainInfo.status === 'Ok',
-      };
-    } catch {
-      resourceStatus.domain = {
-        name: project.resources.domain.name,
-        status: 'unknown',
-        healthy: false,
-        error: 'Could not fetch domain status',
-      };
-    }
+  const domainStatus: Record<string, ResourceHealth> = {};
+  for (const [key, domain] of projectStore.getDomainEntries(project)) {
+    domainStatus[key] = await getDomainStatus(domain);
   }
 
-  if (project.resources.github) {
-    try {
-      const repo = await github.getRepository(
-        project.resources.github.owner,
-        project.resources.github.repo
-      );
-      resourceStatus.github = {
-        repo: `${project.resources.github.owner}/${project.resources.github.repo}`,
-        url: project.resources.github.url,
-        healthy: true,
-        openIssues: repo.openIssuesCount,
-        stars: repo.stargazersCount,
-      };
-    } catch {
-      resourceStatus.github = {
-        repo: `${project.resources.github.owner}/${project.resources.github.repo}`,
-        healthy: false,
-        error: 'Could not fetch repository status',
-      };
-    }
+  const repoStatus: Record<string, ResourceHealth> = {};
+  for (const [key, repo] of projectStore.getRepoEntries(project)) {
+    repoStatus[key] = await getRepoStatus(repo);
   }
 
+  const resourceStatus: Record<string, unknown> = {};
+  if (Object.keys(domainStatus).length > 0) resourceStatus.domains = domainStatus;
+  if (Object.keys(repoStatus).length > 0) resourceStatus.github = repoStatus;
+  let discordStatus: ResourceHealth | undefined;
+
   if (project.resources.discord) {
-    resourceStatus.discord = {
+    const drift = await checkDiscordDrift(project);
+    discordStatus = resourceStatus.discord = {
       serverName: project.resources.discord.serverName,
       serverId: project.resources.discord.serverId,
       channels: project.resources.discord.channels,
-      healthy: true,
+      healthy: drift.length === 0,
+      ...(drift.length > 0 ? { drift: drift.map(formatDriftFinding) } : {}),
     };
   }
 
+  const checked = [...Object.values(domainStatus), ...Object.values(repoStatus), ...(discordStatus ? [discordStatus] : [])];
+  const costs = costStore.summarizeProjectCosts(projectId);
+  const { provisioningLog, archiveLog, cleanup } = project.planning;
+
   return {
     success: true,
     data: {
       projectId,
       name: project.name,
       status: project.status,
+      ...(project.deletedAt
+        ? {
+            purgeAfter: new Date(
+              project.deletedAt + config.jobs.deletedProjectRetentionDays * 24 * 60 * 60 * 1000
+            ).toISOString(),
+          }
+        : {}),
       resources: resourceStatus,
+      provisioning: provisioningLog
+        ? {
+            status: provisioningLog.status,
+            startedAt: new Date(provisioningLog.startedAt).toISOString(),
+            stoppedAt: provisioningLog.steps.find((s) => s.status === 'failed')?.step ?? null,
+            steps: formatSagaLog(provisioningLog),
+          }
+        : null,
+      archive: archiveLog
+        ? {
+            status: archiveLog.status,
+            archivedAt: new Date(archiveLog.startedAt).toISOString(),
+            steps: formatSagaLog(archiveLog),
+          }
+        : null,
+      cleanup: cleanup
+        ? {
+            status: cleanup.log.status,
+            repoAction: cleanup.repoAction,
+            stoppedAt: cleanup.log.steps.find((s) => s.status === 'failed')?.step ?? null,
+            steps: formatSagaLog(cleanup.log),
+          }
+        : null,
+      costs: {
+        spentToDate: costs.spentToDate,
+        spentThisMonth: costs.spentThisMonth,
+        projectedAnnualRenewals: costs.projectedAnnualRenewals,
+        currency: costs.currency,
+      },
       planning: {
         ideas: project.planning.ideas.length,
         research: project.planning.research.length,
         hasBusinessPlan: Boolean(project.planning.businessPlan),
       },
-      health: Object.values(resourceStatus).every(
-        (r) => (r as { healthy?: boolean }).healthy !== false
-      )
-        ? 'healthy'
-        : 'issues',
+      health: checked.every((r) => r.healthy !== false) ? 'healthy' : 'issues',
     },
   };
 }
 
-export async function cleanupProject(projectId: string): Promise<ToolResult> {
-  const project = projectStore.getProject(projectId);
+// Looks the domain up in the registrar account so the project records real expiry and auto-renew values.
+export async function lookupDomainResource(
+  domain: string,
+  registrar: ProjectDomainResource['registrar'],
+  expiresAt?: string
+): Promise<{ resource: ProjectDomainResource } | { error: string }> {
+  let registeredAt = Date.now();
+  let expiry = expiresAt ? Date.parse(expiresAt) : NaN;
+  let autoRenew = false;
+
+  if (registrar !== 'external') {
+    try {
+      const registrarClient = getRegistrar(registrar);
+      const owned = (await registrarClient.listDomains()).find((d) => d.domain.toLowerCase() === domain.toLowerCase());
+      if (!owned) {
+        return { error: `${domain} isn't in the ${registrarClient.displayName} account` };
+      }
+
+      registeredAt = Date.parse(owned.created) || registeredAt;
+      expiry = Date.parse(owned.expires);
+      autoRenew = owned.autoRenew;
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : 'Failed to look up domain' };
+    }
+  }
+
+  return {
+    resource: {
+      name: domain,
+      registrar,
+      registeredAt,
+      expiresAt: Number.isNaN(expiry) ? 0 : expiry,
+      autoRenew,
+    },
+  };
+}
 
+export async function setProjectDomain(
+  projectId: string,
+  domain: string,
+  registrar: ProjectDomainResource['registrar'],
+  expiresAt?: string,
+  resourceKey = projectStore.DEFAULT_RESOURCE_KEY
+): Promise<ToolResult> {
+  const project = projectStore.getProject(projectId);
   if (!project) {
     return {
       success: false,
@@ -274,44 +404,121 @@ export async function cleanupProject(projectId: string): Promise<ToolResult> {
     };
   }
 
-  const resources: string[] = [];
-
-  if (project.resources.domain) {
-    resources.push(`Domain: ${project.resources.domain.name}`);
+  const current = project.resources.domains?.[resourceKey];
+  if (current && current.name !== domain) {
+    return {
+      success: false,
+      error: `Project ${projectId} already uses ${current.name} as "${resourceKey}"`,
+    };
   }
-  if (project.resources.github) {
-    resources.push(`Repository: ${project.resources.github.owner}/${project.resources.github.repo}`);
+
+  const lookup = await lookupDomainResource(domain, registrar, expiresAt);
+  if ('error' in lookup) {
+    return {
+      success: false,
+      error: lookup.error,
+    };
   }
-  if (project.resources.discord) {
-    resources.push(`Discord Server: ${project.resources.discord.serverName}`);
+
+  projectStore.setDomainResource(projectId, lookup.resource, resourceKey);
+
+  return {
+    success: true,
+    data: {
+      projectId,
+      domain,
+      resourceKey,
+      registrar,
+      expiresAt: lookup.resource.expiresAt ? new Date(lookup.resource.expiresAt).toISOString() : null,
+      message: registrar === 'external'
+        ? `Attached ${domain} to the project. It's held at an outside registrar, so I can't change its DNS.`
+        : `Attached ${domain} (${registrar}) to the project.`,
+    },
+  };
+}
+
+export async function setRepoVariables(
+  projectId: string,
+  resourceKey: string,
+  variables: Record<string, string>
+): Promise<ToolResult> {
+  const project = projectStore.getProject(projectId);
+  if (!project) {
+    return {
+      success: false,
+      error: `Project ${projectId} not found`,
+    };
   }
 
-  if (resources.length === 0) {
-    projectStore.setProjectStatus(projectId, 'deleted');
+  if (!project.resources.github?.[resourceKey]) {
+    const known = Object.keys(project.resources.github ?? {});
     return {
-      success: true,
-      data: {
-        projectId,
-        message: 'Project has no external resources. Marked as deleted.',
-      },
+      success: false,
+      error: `Project has no repository named "${resourceKey}"${known.length > 0 ? ` (has: ${known.join(', ')})` : ''}`,
     };
   }
 
+  const updated = projectStore.setRepoVariables(projectId, resourceKey, variables);
+  const repo = updated!.resources.github![resourceKey];
+
   return {
-    success: false,
-    requiresApproval: true,
-    approvalPrompt: `
-⚠️ **Project Cleanup: ${project.name}**
+    success: true,
+    data: {
+      projectId,
+      resourceKey,
+      variables: repo.variables,
+      message:
+        `Recorded ${Object.keys(variables).length} variable(s) for ${repo.owner}/${repo.repo} (${resourceKey}). ` +
+        'They are pushed to the repository the next time it is scaffolded.',
+    },
+  };
+}
 
-The following resources will be affected:
-${resources.map((r) => `- ${r}`).join('\n')}
+export async function getProjectCosts(projectId?: string): Promise<ToolResult> {
+  const projects = projectId
+    ? [projectStore.getProject(projectId)].filter((p): p is Project => p !== null)
+    : projectStore.listProjects().filter((p) => p.status !== 'deleted');
 
-**Note:**
-- Domains cannot be deleted but will be marked for non-renewal
-- GitHub repositories will be permanently deleted
-- Discord servers will be permanently deleted
+  if (projectId && projects.length === 0) {
+    return {
+      success: false,
+      error: `Project ${projectId} not found`,
+    };
+  }
+
+  const summaries = projects.map((project) => {
+    const summary = costStore.summarizeProjectCosts(project.id);
+    return {
+      projectId: project.id,
+      name: project.name,
+      spentToDate: summary.spentToDate,
+      spentThisMonth: summary.spentThisMonth,
+      projectedAnnualRenewals: summary.projectedAnnualRenewals,
+      currency: summary.currency,
+      upcomingRenewals: summary.upcomingRenewals.map((r) => ({
+        resource: r.resource,
+        renewsAt: new Date(r.renewsAt).toISOString(),
+        amount: r.amount,
+      })),
+    };
+  });
 
-Do you want to proceed with cleanup?`,
-    error: 'Project cleanup requires explicit approval for each resource',
+  const totalSpent = summaries.reduce((sum, s) => sum + s.spentToDate, 0);
+  const totalRenewals = summaries.reduce((sum, s) => sum + s.projectedAnnualRenewals, 0);
+
+  return {
+    success: true,
+    data: {
+      projects: summaries,
+      totals: {
+        spentToDate: totalSpent,
+        projectedAnnualRenewals: totalRenewals,
+      },
+      budgets: {
+        projectMonthlyLimit: config.budget.projectMonthlyLimit ?? null,
+        globalMonthlyLimit: config.budget.globalMonthlyLimit ?? null,
+      },
+      message: `Spent $${totalSpent.toFixed(2)} to date; projected renewals $${totalRenewals.toFixed(2)}/year`,
+    },
   };
 }
@@ -0,0 +1,429 @@
+import { v4 as uuidv4 } from 'uuid';
+import yaml from 'js-yaml';
+import type {
+  ToolResult,
+  Project,
+  ProjectManifest,
+  ProjectDiscordResource,
+  ManifestDiscordResource,
+  ManifestFormat,
+  ManifestConflictMode,
+} from '../../types';
+import * as projectStore from '../../context/project-store';
+import * as sqlite from '../../context/persistence/sqlite';
+import type { StripeAccountRecord } from '../../context/persistence/sqlite';
+import { type Schema, isRecord, checkSchema, checkEntries, parseStructuredText } from '../schema';
+import { DISCORD_BLUEPRINTS, validateBlueprintOverride } from '../discord/blueprints';
+
+export const MANIFEST_VERSION = 1;
+export const MANIFEST_REDACTED = '<redacted>';
+
+const PROJECT_STATUSES: readonly Project['status'][] = ['planning', 'active', 'archived', 'deleted'];
+
+const MANIFEST_SCHEMA: Schema = {
+  version: { type: 'number' },
+  exportedAt: { type: 'string', optional: true },
+  project: { type: 'object' },
+  stripeAccounts: { type: 'array', optional: true },
+};
+
+const PROJECT_SCHEMA: Schema = {
+  id: { type: 'string' },
+  name: { type: 'string' },
+  description: { type: 'string', optional: true },
+  status: { type: 'string', oneOf: PROJECT_STATUSES },
+  createdAt: { type: 'number' },
+  createdBy: { type: 'string' },
+  deletedAt: { type: 'number', optional: true },
+  resources: { type: 'object' },
+  planning: { type: 'object' },
+};
+
+const PLANNING_SCHEMA: Schema = {
+  ideas: { type: 'string[]' },
+  research: { type: 'string[]' },
+  businessPlan: { type: 'string', optional: true },
+  approvals: { type: 'object', optional: true },
+  discordBlueprint: { type: 'object', optional: true },
+};
+
+const BLUEPRINT_CHOICE_SCHEMA: Schema = {
+  name: { type: 'string' },
+  override: { type: 'object', optional: true },
+};
+
+const RESOURCES_SCHEMA: Schema = {
+  domains: { type: 'object', optional: true },
+  github: { type: 'object', optional: true },
+  discord: { type: 'object', optional: true },
+};
+
+const DOMAIN_SCHEMA: Schema = {
+  name: { type: 'string' },
+  registrar: { type: 'string' },
+  registeredAt: { type: 'number' },
+  expiresAt: { type: 'number' },
+  autoRenew: { type: 'boolean', optional: true },
+  dnsTemplates: { type: 'array', optional: true },
+};
+
+const REPO_SCHEMA: Schema = {
+  owner: { type: 'string' },
+  repo: { type: 'string' },
+  url: { type: 'string' },
+  isPrivate: { type: 'boolean' },
+  forkedFrom: { type: 'string', optional: true },
+  variables: { type: 'string map', optional: true },
+};
+
+const DISCORD_SCHEMA: Schema = {
+  serverId: { type: 'string' },
+  serverName: { type: 'string' },
+  inviteUrl: { type: 'string', optional: true },
+  channels: { type: 'string[]' },
+  channelIds: { type: 'string map', optional: true },
+  webhooks: { type: 'string map', optional: true },
+  roleIds: { type: 'string map', optional: true },
+  memberRoles: { type: 'string map', optional: true },
+};
+
+const STRIPE_ACCOUNT_SCHEMA: Schema = {
+  accountId: { type: 'string' },
+  businessName: { type: 'string' },
+  label: { type: 'string', optional: true },
+  isLive: { type: 'boolean' },
+  secretKey: { type: 'string' },
+  webhookSecrets: { type: 'string map' },
+};
+
+export function validateManifest(value: unknown): string[] {
+  const errors: string[] = [];
+  if (!checkSchema(value, MANIFEST_SCHEMA, 'manifest', errors)) return errors;
+
+  if (typeof value.version === 'number' && value.version !== MANIFEST_VERSION) {
+    return [`manifest.version ${value.version} is not supported (expected ${MANIFEST_VERSION})`];
+  }
+
+  const project = value.project;
+  if (isRecord(project) && checkSchema(project, PROJECT_SCHEMA, 'project', errors)) {
+    if (isRecord(project.planning) && checkSchema(project.planning, PLANNING_SCHEMA, 'project.planning', errors)) {
+      const choice = project.planning.discordBlueprint;
+      if (choice !== undefined && checkSchema(choice, BLUEPRINT_CHOICE_SCHEMA, 'project.planning.discordBlueprint', errors)) {
+        if (typeof choice.name === 'string' && !DISCORD_BLUEPRINTS[choice.name]) {
+          errors.push(`project.planning.discordBlueprint.name "${choice.name}" is not a known blueprint`);
+        }
+        if (choice.override !== undefined) {
+          errors.push(
+            ...validateBlueprintOverride(choice.override).map((error) => `project.planning.discordBlueprint.${error}`)
+          );
+        }
+      }
+    }
+
+    const resources = project.resources;
+    if (isRecord(resources) && checkSchema(resources, RESOURCES_SCHEMA, 'project.resources', errors)) {
+      checkEntries(resources.domains, DOMAIN_SCHEMA, 'project.resources.domains', errors);
+      checkEntries(resources.github, REPO_SCHEMA, 'project.resources.github', errors);
+      if (resources.discord !== undefined) {
+        checkSchema(resources.discord, DISCORD_SCHEMA, 'project.resources.discord', errors);
+      }
+    }
+  }
+
+  if (Array.isArray(value.stripeAccounts)) {
+    value.stripeAccounts.forEach((account, i) => checkSchema(account, STRIPE_ACCOUNT_SCHEMA, `stripeAccounts[${i}]`, errors));
+  }
+
+  return errors;
+}
+
+function redactValues(values: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.keys(values).map((key) => [key, MANIFEST_REDACTED]));
+}
+
+function manifestDiscord({ webhookRefs, ...discord }: ProjectDiscordResource): ManifestDiscordResource {
+  return webhookRefs ? { ...discord, webhooks: redactValues(webhookRefs) } : discord;
+}
+
+export function buildManifest(
+  project: Project,
+  stripeAccounts: StripeAccountRecord[],
+  now = Date.now()
+): ProjectManifest {
+  const { discord } = project.resources;
+
+  return {
+    version: MANIFEST_VERSION,
+    exportedAt: new Date(now).toISOString(),
+    project: {
+      id: project.id,
+      name: project.name,
+      description: project.description,
+      status: project.status,
+      createdAt: project.createdAt,
+      createdBy: project.createdBy,
+      deletedAt: project.deletedAt,
+      resources: {
+        ...project.resources,
+        ...(discord ? { discord: manifestDiscord(discord) } : {}),
+      },
+      planning: {
+        ideas: project.planning.ideas,
+        research: project.planning.research,
+        businessPlan: project.planning.businessPlan,
+        approvals: project.planning.approvals,
+        discordBlueprint: project.planning.discordBlueprint,
+      },
+    },
+    stripeAccounts: stripeAccounts.map((account) => ({
+      accountId: account.accountId,
+      businessName: account.businessName,
+      label: account.label,
+      isLive: account.isLive,
+      secretKey: MANIFEST_REDACTED,
+      webhookSecrets: redactValues(account.webhookSecrets),
+    })),
+  };
+}
+
+export function serializeManifest(manifest: ProjectManifest, format: ManifestFormat): string {
+  return format === 'yaml'
+    ? yaml.dump(manifest, { skipInvalid: true, noRefs: true, lineWidth: 120 })
+    : JSON.stringify(manifest, null, 2);
+}
+
+export function parseManifest(text: string): { manifest: ProjectManifest } | { errors: string[] } {
+  const parsed = parseStructuredText(text);
+  if ('error' in parsed) return { errors: [parsed.error] };
+
+  const value = parsed.value;
+  const errors = validateManifest(value);
+  if (errors.length > 0) return { errors };
+
+  const manifest = value as ProjectManifest;
+  return {
+    manifest: {
+      ...manifest,
+      stripeAccounts: manifest.stripeAccounts ?? [],
+      project: {
+        ...manifest.project,
+        planning: { ...manifest.project.planning, approvals: manifest.project.planning.approvals ?? {} },
+      },
+    },
+  };
+}
+
+function findResourceConflicts(resources: ProjectManifest['project']['resources'], projectId: string): string[] {
+  const conflicts: string[] = [];
+
+  for (const domain of Object.values(resources.domains ?? {})) {
+    const owner = projectStore.findProjectByDomain(domain.name);
+    if (owner && owner.project.id !== projectId) {
+      conflicts.push(`${domain.name} is already tracked by project ${owner.project.name} (${owner.project.id})`);
+    }
+  }
+
+  for (const repo of Object.values(resources.github ?? {})) {
+    const owner = projectStore.findProjectByRepo(`${repo.owner}/${repo.repo}`);
+    if (owner && owner.project.id !== projectId) {
+      conflicts.push(`${repo.owner}/${repo.repo} is already tracked by project ${owner.project.name} (${owner.project.id})`);
+    }
+  }
+
+  const serverId = resources.discord?.serverId;
+  const serverOwner = serverId
+    ? projectStore
+        .listProjects()
+        .find((p) => p.id !== projectId && p.status !== 'deleted' && p.resources.discord?.serverId === serverId)
+    : undefined;
+  if (serverOwner) {
+    conflicts.push(`Discord server ${resources.discord!.serverName} is already tracked by project ${serverOwner.name} (${serverOwner.id})`);
+  }
+
+  return conflicts;
+}
+
+// Redacted webhook URLs can't be used; keep the ones this instance already knows for the same server.
+// Webhook URLs come back separately so they can be stored as project secrets once the project is saved.
+function restoreResources(
+  resources: ProjectManifest['project']['resources'],
+  existing: Project | null,
+  warnings: string[]
+): { resources: Project['resources']; webhooks: Record<string, string> } {
+  const { discord: manifestDiscord, ...rest } = resources;
+  if (!manifestDiscord) return { resources: rest, webhooks: {} };
+
+  // Secret IDs only mean something on the instance that wrote them.
+  const { webhooks: manifestWebhooks, webhookRefs: _ignored, ...discord } = manifestDiscord as ManifestDiscordResource &
+    Pick<ProjectDiscordResource, 'webhookRefs'>;
+
+  const known =
+    existing?.resources.discord?.serverId === discord.serverId ? projectStore.getWebhookUrls(existing) : {};
+  const webhooks: Record<string, string> = {};
+  const missing: string[] = [];
+
+  for (const [channel, url] of Object.entries(manifestWebhooks ?? {})) {
+    if (url !== MANIFEST_REDACTED) {
+      webhooks[channel] = url;
+    } else if (known[channel]) {
+      webhooks[channel] = known[channel];
+    } else {
+      missing.push(channel);
+    }
+  }
+
+  if (missing.length > 0) {
+    warnings.push(
+      `Webhook URLs were redacted for ${missing.map((c) => `#${c}`).join(', ')}; recreate them with discord_create_webhook`
+    );
+  }
+
+  return { resources: { ...rest, discord }, webhooks };
+}
+
+export async function exportProject(projectId: string, format: ManifestFormat = 'json'): Promise<ToolResult> {
+  const project = projectStore.getProject(projectId);
+  if (!project) {
+    return {
+      success: false,
+      error: `Project ${projectId} not found`,
+    };
+  }
+
+  const stripeAccounts = sqlite.listStripeAccounts(projectId);
+  const manifest = buildManifest(project, stripeAccounts);
+  const text = serializeManifest(manifest, format);
+  const undecryptable = stripeAccounts.filter((account) => account.undecryptable);
+
+  return {
+    success: true,
+    data: {
+      projectId,
+      format,
+      version: MANIFEST_VERSION,
+      manifest: text,
+      message:
+        `Exported **${project.name}** as a ${format.toUpperCase()} manifest (version ${MANIFEST_VERSION}). ` +
+        'Secrets, Stripe keys and webhook URLs are redacted.' +
+        (undecryptable.length > 0
+          ? ` The Stripe key for ${undecryptable.map((a) => a.businessName).join(', ')} could not be decrypted; reconnect with stripe_connect_account.`
+          : '') +
+        '\n\n' +
+        '```' + format + '\n' + text + '\n```',
+    },
+  };
+}
+
+export async function importProject(
+  manifestText: string,
+  importedBy: string,
+  onConflict: ManifestConflictMode = 'fail',
+  hasApproval = false,
+  threadId?: string
+): Promise<ToolResult> {
+  const parsed = parseManifest(manifestText);
+  if ('errors' in parsed) {
+    return {
+      success: false,
+      data: { errors: parsed.errors },
+      error: `The manifest is invalid:\n- ${parsed.errors.join('\n- ')}`,
+    };
+  }
+
+  const source = parsed.manifest.project;
+  const existing = projectStore.getProject(source.id);
+
+  if (existing && onConflict === 'fail') {
+    return {
+      success: false,
+      error:
+        `A project with ID ${source.id} already exists (${existing.name}). ` +
+        'Import again with onConflict "new_id" to keep both, or "overwrite" to replace it.',
+    };
+  }
+
+  const overwrite = existing !== null && onConflict === 'overwrite';
+  const projectId = existing && onConflict === 'new_id' ? uuidv4() : source.id;
+
+  const conflicts = findResourceConflicts(source.resources, projectId);
+  if (conflicts.length > 0) {
+    return {
+      success: false,
+      data: { errors: conflicts },
+      error: `Nothing was imported:\n- ${conflicts.join('\n- ')}`,
+    };
+  }
+
+  if (overwrite && !hasApproval) {
+    return {
+      success: false,
+      requiresApproval: true,
+      approvalPrompt:
+        `I'd like to replace project **${existing!.name}** (\`${projectId}\`) with the imported manifest for **${source.name}**. ` +
+        'Its current planning notes and resource records will be overwritten. Do you approve?',
+      error: 'Overwriting a project requires human approval',
+    };
+  }
+
+  const warnings: string[] = [];
+  const { resources, webhooks } = restoreResources(source.resources, existing, warnings);
+  const project: Project = {
+    id: projectId,
+    name: source.name,
+    description: source.description,
+    status: source.status,
+    createdAt: source.createdAt,
+    updatedAt: Date.now(),
+    createdBy: source.createdBy,
+    // Restarts the retention clock when the manifest doesn't say when the project was deleted.
+    deletedAt: source.status === 'deleted' ? source.deletedAt ?? Date.now() : undefined,
+    resources,
+    planning: {
+      threadId: overwrite ? existing!.planning.threadId : threadId,
+      ideas: source.planning.ideas,
+      research: source.planning.research,
+      businessPlan: source.planning.businessPlan,
+      // Exported approvals are a record only; importing them would pre-approve domain, repo and server creation.
+      approvals: {},
+      discordBlueprint: source.planning.discordBlueprint,
+    },
+  };
+  // Clearing the old Discord record first drops the secrets it referenced.
+  if (overwrite) projectStore.clearResource(projectId, 'discord');
+  projectStore.saveProject(project);
+  if (resources.discord) projectStore.setWebhookUrls(projectId, webhooks);
+
+  const linkedAccounts: string[] = [];
+  for (const account of parsed.manifest.stripeAccounts) {
+    const local = sqlite.getStripeAccount(account.accountId);
+    if (!local) {
+      warnings.push(
+        `Stripe account ${account.businessName} (${account.accountId}) isn't connected here; reconnect it with stripe_connect_account`
+      );
+    } else if (local.projectId && local.projectId !== projectId) {
+      warnings.push(`Stripe account ${account.businessName} is linked to project ${local.projectId}; left as is`);
+    } else {
+      if (!local.projectId) sqlite.saveStripeAccount({ ...local, projectId });
+      linkedAccounts.push(account.accountId);
+    }
+  }
+
+  const action = overwrite ? 'Replaced' : 'Imported';
+  const renamed = projectId !== source.id ? ` under a new ID (the manifest's ${source.id} is taken)` : '';
+
+  return {
+    success: true,
+    data: {
+      projectId,
+      name: project.name,
+      status: project.status,
+      overwritten: overwrite,
+      importedBy,
+      linkedStripeAccounts: linkedAccounts,
+      warnings,
+      message:
+        `${action} **${project.name}** (\`${projectId}\`)${renamed}.` +
+        (warnings.length > 0 ? `\n\nHeads up:\n- ${warnings.join('\n- ')}` : ''),
+    },
+  };
+}
@@ -0,0 +1,458 @@
+import * as crypto from 'crypto';
+import type {
+  ToolResult,
+  Project,
+  ProvisioningPlan,
+  DnsRecord,
+  SagaLog,
+  SagaCompensation,
+  SagaFailurePolicy,
+} from '../../types';
+import * as projectStore from '../../context/project-store';
+import * as domains from '../domain/domains';
+import * as domainDns from '../domain/dns';
+import * as githubRepos from '../github/repos';
+import * as githubSecrets from '../github/secrets';
+import * as discordServers from '../discord/servers';
+import { resolveBlueprint, blueprintChannels } from '../discord/blueprints';
+import {
+  createSagaLog,
+  runSaga,
+  rollbackSaga,
+  executeCompensation,
+  describeCompensation,
+  formatSagaLog,
+  type SagaStep,
+  type SagaStepOutcome,
+  type SagaHooks,
+} from './saga';
+import { config } from '../../config';
+
+export interface ProvisioningPlanInput {
+  domain?: string;
+  domainYears?: number;
+  discordServerName?: string;
+  repoName?: string;
+  repoDescription?: string;
+  repoPrivate?: boolean;
+  useTemplate?: boolean;
+  configureSecrets?: boolean;
+  dnsRecords?: DnsRecord[];
+}
+
+export function formatPlanDiff(project: Project, plan: ProvisioningPlan): string {
+  const lines: string[] = [];
+  const { resources } = project;
+  const existingDomain = projectStore.getDomain(project, projectStore.DEFAULT_RESOURCE_KEY);
+  const existingRepo = projectStore.getRepo(project, projectStore.DEFAULT_RESOURCE_KEY);
+
+  if (plan.domain) {
+    lines.push(
+      existingDomain
+        ? `= domain ${existingDomain.name} (already registered, skipped)`
+        : `+ register domain ${plan.domain.name} for ${plan.domain.years} year(s)`
+    );
+  }
+
+  if (plan.discord) {
+    if (resources.discord) {
+      lines.push(`= Discord server ${resources.discord.serverName} (already exists, skipped)`);
+    } else {
+      lines.push(`+ create Discord server "${plan.discord.serverName}"`);
+      lines.push(`+   channels: ${plan.discord.channels.map((c) => `#${c}`).join(', ')}`);
+      lines.push(`+   webhooks: ${plan.discord.webhooks.map((c) => `#${c}`).join(', ')}`);
+    }
+  }
+
+  if (plan.github) {
+    if (existingRepo) {
+      lines.push(`= repository ${existingRepo.owner}/${existingRepo.repo} (already exists, skipped)`);
+    } else {
+      const visibility = plan.github.isPrivate ? 'private' : 'public';
+      const source = plan.github.fromTemplate ? ` from template ${config.github.templateRepo}` : '';
+      lines.push(`+ create ${visibility} repository ${config.github.org}/${plan.github.name}${source}`);
+    }
+  }
+
+  if (plan.secrets) {
+    const source = plan.secrets.fromTemplate ? `copied from ${config.github.templateRepo}` : 'pipeline defaults';
+    lines.push(`+ configure repository secrets/variables (${source})`);
+    if (plan.secrets.discordWebhooks) {
+      lines.push('+   Discord webhook URLs and channel IDs');
+    }
+  }
+
+  if (plan.dns && plan.dns.length > 0) {
+    const domain = plan.domain?.name ?? existingDomain?.name;
+    lines.push(`~ replace DNS records on ${domain}:`);
+    for (const record of plan.dns) {
+      lines.push(`+   ${record.type} ${record.hostName} → ${record.address} (TTL ${record.ttl})`);
+    }
+  }
+
+  if (lines.length === 0) {
+    return 'Nothing to provision.';
+  }
+
+  return '```diff\n' + lines.join('\n') + '\n```';
+}
+
+export async function planProvisioning(
+  projectId: string,
+  createdBy: string,
+  input: ProvisioningPlanInput
+): Promise<ToolResult> {
+  const project = projectStore.getProject(projectId);
+  if (!project) {
+    return {
+      success: false,
+      error: `Project ${projectId} not found`,
+    };
+  }
+
+  const plan: ProvisioningPlan = {
+    createdAt: Date.now(),
+    createdBy,
+    status: 'draft',
+  };
+
+  if (input.domain) {
+    plan.domain = { name: input.domain.toLowerCase(), years: input.domainYears ?? 1 };
+  }
+
+  if (input.discordServerName) {
+    const blueprint = resolveBlueprint(project);
+    plan.discord = {
+      serverName: input.discordServerName,
+      channels: blueprintChannels(blueprint).map(({ channel }) => channel.name),
+      webhooks: blueprintChannels(blueprint).filter(({ channel }) => channel.webhook).map(({ channel }) => channel.name),
+    };
+  }
+
+  if (input.repoName) {
+    plan.github = {
+      name: input.repoName,
+      description: input.repoDescription,
+      isPrivate: input.repoPrivate ?? true,
+      fromTemplate: input.useTemplate ?? true,
+    };
+  }
+
+  const hasRepo = Boolean(plan.github || projectStore.getRepo(project, projectStore.DEFAULT_RESOURCE_KEY));
+  if (input.configureSecrets ?? Boolean(plan.github)) {
+    if (!hasRepo) {
+      return {
+        success: false,
+        error: 'Cannot plan secret configuration without a repository. Add a repo to the plan first.',
+      };
+    }
+
+    plan.secrets = {
+      fromTemplate: plan.github?.fromTemplate ?? true,
+      discordWebhooks: Boolean(plan.discord || project.resources.discord?.webhookRefs),
+    };
+  }
+
+  if (input.dnsRecords && input.dnsRecords.length > 0) {
+    if (!plan.domain && !projectStore.getDomain(project, projectStore.DEFAULT_RESOURCE_KEY)) {
+      return {
+        success: false,
+        error: 'Cannot plan DNS records without a domain. Add a domain to the plan first.',
+      };
+    }
+    plan.dns = input.dnsRecords;
+  }
+
+  if (!plan.domain && !plan.discord && !plan.github && !plan.secrets && !plan.dns) {
+    return {
+      success: false,
+      error: 'The plan is empty. Specify at least one resource to provision.',
+    };
+  }
+
+  projectStore.setProvisioningPlan(projectId, plan);
+
+  const diff = formatPlanDiff(project, plan);
+
+  return {
+    success: true,
+    data: {
+      projectId,
+      plan,
+      diff,
+      message: `Provisioning plan for **${project.name}** (nothing has been created yet):\n\n${diff}\n\nUse project_apply_plan to run it after approval.`,
+    },
+  };
+}
+
+function toOutcome(result: ToolResult, compensation?: SagaCompensation): SagaStepOutcome {
+  return {
+    success: result.success,
+    message: (result.data as { message?: string } | undefined)?.message,
+    error: result.error,
+    compensation: result.success ? compensation : undefined,
+  };
+}
+
+function buildProvisioningSteps(projectId: string, plan: ProvisioningPlan): SagaStep[] {
+  // Steps read the project fresh so each one sees what the previous steps created.
+  // Plans only provision the default entry; named entries are added with the individual tools.
+  const current = () => projectStore.getProject(projectId)!;
+  const currentDomain = () => projectStore.getDomain(current(), projectStore.DEFAULT_RESOURCE_KEY);
+  const currentRepo = () => projectStore.getRepo(current(), projectStore.DEFAULT_RESOURCE_KEY);
+
+  return [
+    {
+      name: 'domain',
+      async run() {
+        if (!plan.domain) return { success: true, skipped: true };
+        const existing = currentDomain();
+        if (existing) return { success: true, skipped: true, message: `${existing.name} already registered` };
+
+        const result = await domains.registerDomain(plan.domain.name, projectId, plan.domain.years, true);
+        return toOutcome(result);
+      },
+    },
+    {
+      name: 'discord_server',
+      async run() {
+        if (!plan.discord) return { success: true, skipped: true };
+        const existing = current().resources.discord;
+        if (existing) return { success: true, skipped: true, message: `${existing.serverName} already exists` };
+
+        const result = await discordServers.createServer(plan.discord.serverName, projectId, true);
+        const serverId = (result.data as { id?: string } | undefined)?.id;
+        return toOutcome(result, serverId ? { kind: 'delete_server', serverId } : undefined);
+      },
+    },
+    {
+      name: 'discord_channels',
+      async run() {
+        if (!plan.discord) return { success: true, skipped: true };
+        const discord = current().resources.discord;
+        if (!discord) return { success: false, error: 'No Discord server to set up channels in' };
+
+        return toOutcome(await discordServers.setupChannels(discord.serverId));
+      },
+    },
+    {
+      name: 'github',
+      async run() {
+        if (!plan.github) return { success: true, skipped: true };
+        const existing = currentRepo();
+        if (existing) return { success: true, skipped: true, message: `${existing.owner}/${existing.repo} already exists` };
+
+        const options = { description: plan.github.description, isPrivate: plan.github.isPrivate };
+        const result = plan.github.fromTemplate
+          ? await githubRepos.createRepoFromTemplate(plan.github.name, projectId, options, true)
+          : await githubRepos.createRepo(plan.github.name, projectId, options, true);
+
+        const created = currentRepo();
+        return toOutcome(result, created ? { kind: 'delete_repo', owner: created.owner, repo: created.repo } : undefined);
+      },
+    },
+    {
+      name: 'secrets',
+      async run() {
+        if (!plan.secrets) return { success: true, skipped: true };
+        return toOutcome(
+          await githubSecrets.scaffoldRepoFromTemplate(projectId, {}, projectStore.DEFAULT_RESOURCE_KEY)
+        );
+      },
+    },
+    {
+      name: 'dns',
+      async run() {
+        if (!plan.dns || plan.dns.length === 0) return { success: true, skipped: true };
+        const domain = currentDomain()?.name ?? plan.domain?.name;
+        if (!domain) return { success: false, error: 'No domain available for DNS records' };
+
+        const previous = await domains.resolveRegistrar(domain).getDnsRecords(domain);
+        const result = await domainDns.setDnsRecords(domain, plan.dns, true);
+        return toOutcome(result, { kind: 'restore_dns', domain, records: previous });
+      },
+    },
+  ];
+}
+
+function sagaHooks(projectId: string): SagaHooks {
+  return {
+    persist: (log) => projectStore.setProvisioningLog(projectId, log),
+    compensate: (compensation) => executeCompensation(projectId, compensation),
+  };
+}
+
+function planStatusFor(log: SagaLog): ProvisioningPlan['status'] {
+  switch (log.status) {
+    case 'completed':
+      return 'applied';
+    case 'rolled_back':
+      return 'rolled_back';
+    default:
+      return 'paused';
+  }
+}
+
+function formatRunOutcome(projectId: string, log: SagaLog): ToolResult {
+  const stepLog = formatSagaLog(log);
+  const failedStep = log.steps.find((s) => s.status === 'failed')?.step;
+  const domainKept = log.steps.some((s) => s.step === 'domain' && s.status === 'completed');
+
+  switch (log.status) {
+    case 'completed':
+      return {
+        success: true,
+        data: { projectId, log, message: `Provisioning plan applied.\n${stepLog}` },
+      };
+
+    case 'paused':
+      return {
+        success: false,
+        data: { projectId, log },
+        error:
+          `Provisioning paused at the ${failedStep} step. Nothing has been undone.\n${stepLog}\n\n` +
+          'Ask me to resume (retry from the failed step) or roll back what was created.',
+      };
+
+    default:
+      return {
+        success: false,
+        data: { projectId, log },
+        error:
+          `Provisioning ${log.status === 'rolled_back' ? 'was rolled back' : 'could not be fully rolled back'}` +
+          `${failedStep ? ` after the ${failedStep} step failed` : ''}.\n${stepLog}` +
+          (domainKept ? '\n\nNote: registered domains cannot be deleted and remain on the project.' : ''),
+      };
+  }
+}
+
+// Identifies the exact draft shown in an approval, so a plan replaced while the approval waits isn't applied.
+function planFingerprint(plan: ProvisioningPlan): string {
+  return crypto.createHash('sha256').update(JSON.stringify(plan)).digest('hex');
+}
+
+export async function applyProvisioningPlan(
+  projectId: string,
+  hasApproval = false,
+  onFailure: SagaFailurePolicy = 'rollback',
+  approvedFingerprint?: string
+): Promise<ToolResult> {
+  const project = projectStore.getProject(projectId);
+  if (!project) {
+    return {
+      success: false,
+      error: `Project ${projectId} not found`,
+    };
+  }
+
+  const plan = project.planning.provisioningPlan;
+  if (!plan || plan.status !== 'draft') {
+    return {
+      success: false,
+      error: plan?.status === 'paused'
+        ? 'The last provisioning run is paused. Resume it or roll it back instead.'
+        : 'This project has no draft provisioning plan. Create one with project_plan_provisioning first.',
+    };
+  }
+
+  if (!hasApproval) {
+    return {
+      success: false,
+      requiresApproval: true,
+      approvalPrompt:
+        `I'd like to apply the provisioning plan for **${project.name}**:\n\n${formatPlanDiff(project, plan)}\n\n` +
+        `Everything above runs in one go. If a step fails I'll ${onFailure === 'rollback' ? 'roll back what was created' : 'pause and ask you what to do'}. ` +
+        'Any domain registration costs real money. Do you approve?',
+      error: 'Applying a provisioning plan requires human approval',
+      approvalArgs: { planFingerprint: planFingerprint(plan) },
+    };
+  }
+
+  if (approvedFingerprint !== planFingerprint(plan)) {
+    return {
+      success: false,
+      error:
+        'The provisioning plan changed after this approval was requested, so it was not applied. ' +
+        'Ask me to apply the current plan to get a fresh approval.',
+    };
+  }
+
+  projectStore.setProvisioningPlan(projectId, { ...plan, status: 'applying' });
+
+  const steps = buildProvisioningSteps(projectId, plan);
+  const log = await runSaga(
+    createSagaLog('provisioning', steps.map((s) => s.name), onFailure),
+    steps,
+    sagaHooks(projectId)
+  );
+
+  projectStore.setProvisioningPlan(projectId, { ...plan, status: planStatusFor(log), appliedAt: Date.now() });
+
+  return formatRunOutcome(projectId, log);
+}
+
+function getPausedRun(projectId: string): { plan: ProvisioningPlan; log: SagaLog } | { error: string } {
+  const project = projectStore.getProject(projectId);
+  if (!project) return { error: `Project ${projectId} not found` };
+
+  const { provisioningPlan: plan, provisioningLog: log } = project.planning;
+  if (!plan || !log || (log.status !== 'paused' && log.status !== 'rollback_failed')) {
+    return { error: 'There is no paused provisioning run for this project.' };
+  }
+
+  return { plan, log };
+}
+
+export async function resumeProvisioning(projectId: string, hasApproval = false): Promise<ToolResult> {
+  const run = getPausedRun(projectId);
+  if ('error' in run) return { success: false, error: run.error };
+
+  if (run.log.status !== 'paused') {
+    return { success: false, error: 'This run was partly rolled back and cannot be resumed. Roll it back again instead.' };
+  }
+
+  if (!hasApproval) {
+    return {
+      success: false,
+      requiresApproval: true,
+      approvalPrompt:
+        `I'd like to resume provisioning from the failed step:\n\n${formatSagaLog(run.log)}\n\nDo you approve?`,
+      error: 'Resuming provisioning requires human approval',
+    };
+  }
+
+  projectStore.setProvisioningPlan(projectId, { ...run.plan, status: 'applying' });
+
+  const log = await runSaga(run.log, buildProvisioningSteps(projectId, run.plan), sagaHooks(projectId));
+
+  projectStore.setProvisioningPlan(projectId, { ...run.plan, status: planStatusFor(log), appliedAt: Date.now() });
+
+  return formatRunOutcome(projectId, log);
+}
+
+export async function rollbackProvisioning(projectId: string, hasApproval = false): Promise<ToolResult> {
+  const run = getPausedRun(projectId);
+  if ('error' in run) return { success: false, error: run.error };
+
+  if (!hasApproval) {
+    const undo = run.log.steps
+      .filter((s) => (s.status === 'completed' || s.status === 'compensation_failed') && s.compensation)
+      .reverse()
+      .map((s) => `- ${describeCompensation(s.compensation!)}`);
+
+    return {
+      success: false,
+      requiresApproval: true,
+      approvalPrompt:
+        `⚠️ I'd like to roll back the paused provisioning run:\n\n${undo.join('\n') || '- nothing to undo'}\n\n` +
+        'This permanently deletes what was created. Do you approve?',
+      error: 'Rolling back provisioning requires human approval',
+    };
+  }
+
+  const log = await rollbackSaga(run.log, sagaHooks(projectId));
+
+  projectStore.setProvisioningPlan(projectId, { ...run.plan, status: planStatusFor(log) });
+
+  return formatRunOutcome(projectId, log);
+}
@@ -0,0 +1,175 @@
+import { SnowflakeUtil } from 'discord.js';
+import type { ToolResult, Project } from '../../types';
+import * as projectStore from '../../context/project-store';
+import * as github from '../../services/github';
+import * as discordServers from '../discord/servers';
+
+// Repository secret that carries each channel's webhook URL
+export const WEBHOOK_SECRET_NAMES: Record<string, string> = {
+  dev: 'DISCORD_DEV_WEBHOOK_URL',
+  product: 'DISCORD_PRODUCT_WEBHOOK_URL',
+  'pull-requests': 'DISCORD_PR_WEBHOOK_URL',
+};
+
+export interface SecretAge {
+  label: string;
+  setAt: number;
+}
+
+// Webhook IDs are snowflakes, so a webhook's age is known even if it predates rotation tracking.
+// Webhook URL secrets in repositories are left out; they are replaced along with their webhook.
+export function listSecretAges(project: Project): SecretAge[] {
+  const ages: SecretAge[] = [];
+
+  for (const [channel, url] of Object.entries(projectStore.getWebhookUrls(project))) {
+    const id = discordServers.webhookIdFromUrl(url);
+    if (id) ages.push({ label: `webhook #${channel}`, setAt: SnowflakeUtil.timestampFrom(id) });
+  }
+
+  const webhookSecrets = new Set(Object.values(WEBHOOK_SECRET_NAMES));
+  for (const [, repo] of projectStore.getRepoEntries(project)) {
+    for (const [name, setAt] of Object.entries(repo.secretsSetAt ?? {})) {
+      if (!webhookSecrets.has(name)) ages.push({ label: `${name} in ${repo.owner}/${repo.repo}`, setAt });
+    }
+  }
+
+  return ages;
+}
+
+async function pushSecret(project: Project, name: string, value: string): Promise<{ pushed: string[]; failed?: string }> {
+  const pushed: string[] = [];
+  for (const [key, repo] of projectStore.getRepoEntries(project)) {
+    if (!(await github.setRepositorySecret(repo.owner, repo.repo, name, value))) {
+      return { pushed, failed: `${repo.owner}/${repo.repo}` };
+    }
+    projectStore.recordSecretsSet(project.id, key, [name]);
+    pushed.push(key);
+  }
+  return { pushed };
+}
+
+// Each webhook is replaced in three moves: create the new one, push its URL to every repository,
+// then delete the old one. Until the last move the old URL keeps working, so a failed push is undone
+// by putting the old URL back and dropping the new webhook.
+async function rotateWebhook(project: Project, channel: string, warnings: string[]): Promise<string | null> {
+  const discord = project.resources.discord!;
+  const oldUrl = projectStore.getWebhookUrl(project, channel);
+  if (!oldUrl) return `The stored URL for #${channel} could not be read`;
+
+  const created = await discordServers.createWebhook(discord.serverId, channel);
+  if (!created.success) return created.error ?? `Failed to create a webhook for #${channel}`;
+  const { webhookId } = created.data as { webhookId: string };
+  const webhookUrl = projectStore.getWebhookUrl(projectStore.getProject(project.id)!, channel)!;
+
+  const secretName = WEBHOOK_SECRET_NAMES[channel];
+  if (secretName) {
+    const { pushed, failed } = await pushSecret(project, secretName, webhookUrl);
+    if (failed) {
+      for (const key of pushed) {
+        const repo = project.resources.github![key];
+        await github.setRepositorySecret(repo.owner, repo.repo, secretName, oldUrl);
+      }
+      await discordServers.deleteWebhook(discord.serverId, webhookId, 'Secret rotation failed');
+
+      projectStore.setWebhookUrls(project.id, { [channel]: oldUrl });
+      return `Could not set ${secretName} in ${failed}; the old webhook was kept`;
+    }
+  }
+
+  const oldId = discordServers.webhookIdFromUrl(oldUrl);
+  if (oldId && !(await discordServers.deleteWebhook(discord.serverId, oldId, 'Replaced by secret rotation'))) {
+    warnings.push(`The old webhook for #${channel} is still active; delete it under Channel Settings > Integrations`);
+  }
+
+  return null;
+}
+
+export async function rotateProjectSecrets(
+  projectId: string,
+  options: { channels?: string[]; values?: Record<string, string> } = {},
+  hasApproval = false
+): Promise<ToolResult> {
+  const project = projectStore.getProject(projectId);
+  if (!project) {
+    return {
+      success: false,
+      error: `Project ${projectId} not found`,
+    };
+  }
+
+  const recorded = Object.keys(project.resources.discord?.webhookRefs ?? {});
+  const channels = options.channels ?? recorded;
+  const unknown = channels.filter((channel) => !recorded.includes(channel));
+  if (unknown.length > 0) {
+    return {
+      success: false,
+      error: `No recorded webhook for ${unknown.map((c) => `#${c}`).join(', ')}`,
+    };
+  }
+
+  const repos = projectStore.getRepoEntries(project);
+  const values = Object.entries(options.values ?? {}).filter(([, value]) => value);
+  if (values.length > 0 && repos.length === 0) {
+    return {
+      success: false,
+      error: 'Project does not have a GitHub repository to push the new values to',
+    };
+  }
+
+  if (channels.length === 0 && values.length === 0) {
+    return {
+      success: false,
+      error: 'Nothing to rotate: the project has no recorded webhooks and no new secret values were given',
+    };
+  }
+
+  if (!hasApproval) {
+    const repoNames = repos.map(([, r]) => `${r.owner}/${r.repo}`).join(', ');
+    const lines = [
+      ...channels.map((channel) =>
+        WEBHOOK_SECRET_NAMES[channel] && repos.length > 0
+          ? `- Replace the #${channel} webhook, set ${WEBHOOK_SECRET_NAMES[channel]} in ${repoNames}, then delete the old webhook`
+          : `- Replace the #${channel} webhook and delete the old one`
+      ),
+      ...values.map(([name]) => `- Set ${name} in ${repoNames}`),
+    ];
+
+    return {
+      success: false,
+      requiresApproval: true,
+      approvalPrompt:
+        `I'd like to rotate secrets for **${project.name}**:\n\n${lines.join('\n')}\n\n` +
+        'Old webhook URLs stop working once they are replaced. Do you approve?',
+      error: 'Rotating secrets requires human approval',
+    };
+  }
+
+  const rotated: string[] = [];
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  for (const channel of channels) {
+    const error = await rotateWebhook(projectStore.getProject(projectId)!, channel, warnings);
+    if (error) errors.push(`#${channel}: ${error}`);
+    else rotated.push(`webhook #${channel}`);
+  }
+
+  for (const [name, value] of values) {
+    const { failed } = await pushSecret(projectStore.getProject(projectId)!, name, value);
+    if (failed) errors.push(`${name}: could not be set in ${failed}`);
+    else rotated.push(name);
+  }
+
+  return {
+    success: errors.length === 0,
+    data: {
+      projectId,
+      rotated,
+      ...(warnings.length > 0 ? { warnings } : {}),
+      message:
+        (rotated.length > 0 ? `Rotated ${rotated.join(', ')}.` : 'Nothing was rotated.') +
+        (warnings.length > 0 ? `\n${warnings.join('\n')}` : ''),
+    },
+    error: errors.length > 0 ? `Some secrets were not rotated: ${errors.join('; ')}` : undefined,
+  };
+}
@@ -0,0 +1,238 @@
+import type {
+  ToolResult,
+  SagaLog,
+  SagaStepLog,
+  SagaCompensation,
+  SagaFailurePolicy,
+} from '../../types';
+import * as projectStore from '../../context/project-store';
+import * as sqlite from '../../context/persistence/sqlite';
+import * as github from '../../services/github';
+import * as stripeService from '../../services/stripe';
+import * as githubRepos from '../github/repos';
+import * as discordServers from '../discord/servers';
+import * as domainDns from '../domain/dns';
+
+export interface SagaStepOutcome {
+  success: boolean;
+  skipped?: boolean;
+  message?: string;
+  error?: string;
+  compensation?: SagaCompensation;
+}
+
+export interface SagaStep {
+  name: string;
+  run(): Promise<SagaStepOutcome>;
+}
+
+export interface SagaHooks {
+  persist(log: SagaLog): void;
+  compensate(compensation: SagaCompensation): Promise<ToolResult>;
+}
+
+export function createSagaLog(
+  kind: string,
+  stepNames: string[],
+  onFailure: SagaFailurePolicy
+): SagaLog {
+  return {
+    kind,
+    status: 'running',
+    onFailure,
+    startedAt: Date.now(),
+    steps: stepNames.map((step) => ({ step, status: 'pending' })),
+  };
+}
+
+function updateStep(log: SagaLog, index: number, update: Partial<SagaStepLog>): SagaLog {
+  return {
+    ...log,
+    steps: log.steps.map((s, i) => (i === index ? { ...s, ...update } : s)),
+  };
+}
+
+export async function runSaga(
+  initial: SagaLog,
+  steps: SagaStep[],
+  hooks: SagaHooks
+): Promise<SagaLog> {
+  let log: SagaLog = { ...initial, status: 'running', finishedAt: undefined };
+  hooks.persist(log);
+
+  for (const step of steps) {
+    const index = log.steps.findIndex((s) => s.step === step.name);
+    if (index === -1) continue;
+
+    const entry = log.steps[index];
+    if (entry.status === 'completed' || entry.status === 'skipped') continue;
+
+    log = updateStep(log, index, { status: 'pending', startedAt: Date.now(), error: undefined });
+
+    let outcome: SagaStepOutcome;
+    try {
+      outcome = await step.run();
+    } catch (error) {
+      outcome = { success: false, error: error instanceof Error ? error.message : `Step ${step.name} failed` };
+    }
+
+    log = updateStep(log, index, {
+      status: outcome.success ? (outcome.skipped ? 'skipped' : 'completed') : 'failed',
+      finishedAt: Date.now(),
+      message: outcome.message,
+      error: outcome.error,
+      compensation: outcome.compensation,
+    });
+    hooks.persist(log);
+
+    if (!outcome.success) {
+      if (log.onFailure === 'rollback') {
+        return rollbackSaga(log, hooks);
+      }
+
+      log = { ...log, status: 'paused', finishedAt: Date.now() };
+      hooks.persist(log);
+      return log;
+    }
+  }
+
+  log = { ...log, status: 'completed', finishedAt: Date.now() };
+  hooks.persist(log);
+  return log;
+}
+
+export async function rollbackSaga(initial: SagaLog, hooks: SagaHooks): Promise<SagaLog> {
+  let log = initial;
+  let allCompensated = true;
+
+  for (let index = log.steps.length - 1; index >= 0; index--) {
+    const entry = log.steps[index];
+    if (entry.status !== 'completed' && entry.status !== 'compensation_failed') continue;
+    if (!entry.compensation) continue;
+
+    let result: ToolResult;
+    try {
+      result = await hooks.compensate(entry.compensation);
+    } catch (error) {
+      result = { success: false, error: error instanceof Error ? error.message : 'Compensation failed' };
+    }
+
+    if (!result.success) allCompensated = false;
+
+    log = updateStep(log, index, {
+      status: result.success ? 'compensated' : 'compensation_failed',
+      error: result.success ? entry.error : result.error,
+    });
+    hooks.persist(log);
+  }
+
+  log = { ...log, status: allCompensated ? 'rolled_back' : 'rollback_failed', finishedAt: Date.now() };
+  hooks.persist(log);
+  return log;
+}
+
+export async function executeCompensation(
+  projectId: string,
+  compensation: SagaCompensation
+): Promise<ToolResult> {
+  switch (compensation.kind) {
+    case 'delete_repo': {
+      const result = await githubRepos.deleteRepo(compensation.owner, compensation.repo, true);
+      const tracked = projectStore.findProjectByRepo(`${compensation.owner}/${compensation.repo}`);
+      if (result.success && tracked?.project.id === projectId) {
+        projectStore.clearResource(projectId, 'github', tracked.key);
+      }
+      return result;
+    }
+
+    case 'delete_server': {
+      const result = await discordServers.deleteServer(compensation.serverId, true);
+      if (result.success) projectStore.clearResource(projectId, 'discord');
+      return result;
+    }
+
+    case 'restore_dns':
+      if (compensation.records.length === 0) {
+        return {
+          success: false,
+          error: `${compensation.domain} had no DNS records before; remove the new records manually`,
+        };
+      }
+      return await domainDns.setDnsRecords(compensation.domain, compensation.records, true);
+
+    case 'unarchive_repo': {
+      const updated = await github.updateRepository(compensation.owner, compensation.repo, { archived: false });
+      return updated
+        ? { success: true, data: { message: `Unarchived ${compensation.owner}/${compensation.repo}` } }
+        : { success: false, error: `Failed to unarchive ${compensation.owner}/${compensation.repo}` };
+    }
+
+    case 'unlock_channels':
+      return await discordServers.unlockChannels(compensation.serverId, compensation.channels);
+
+    case 'enable_stripe_webhooks': {
+      const account = sqlite.getStripeAccount(compensation.accountId);
+      if (!account) {
+        return {
+          success: false,
+          error: `Stripe account ${compensation.accountId} is no longer connected`,
+        };
+      }
+      try {
+        for (const endpointId of compensation.endpointIds) {
+          await stripeService.setWebhookEndpointDisabled(account.secretKey, endpointId, false);
+        }
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to re-enable Stripe webhooks',
+        };
+      }
+      return {
+        success: true,
+        data: { message: `Re-enabled ${compensation.endpointIds.length} webhook endpoint(s) on ${account.businessName}` },
+      };
+    }
+
+    case 'restore_status':
+      projectStore.setProjectStatus(projectId, compensation.status);
+      return { success: true, data: { message: `Status set back to ${compensation.status}` } };
+  }
+}
+
+export function describeCompensation(compensation: SagaCompensation): string {
+  switch (compensation.kind) {
+    case 'delete_repo':
+      return `delete repository ${compensation.owner}/${compensation.repo}`;
+    case 'delete_server':
+      return `delete Discord server ${compensation.serverId}`;
+    case 'restore_dns':
+      return `restore ${compensation.records.length} previous DNS record(s) on ${compensation.domain}`;
+    case 'unarchive_repo':
+      return `unarchive repository ${compensation.owner}/${compensation.repo}`;
+    case 'unlock_channels':
+      return `unlock ${compensation.channels.length} channel(s) in Discord server ${compensation.serverId}`;
+    case 'enable_stripe_webhooks':
+      return `re-enable ${compensation.endpointIds.length} webhook endpoint(s) on Stripe account ${compensation.accountId}`;
+    case 'restore_status':
+      return `set project status back to ${compensation.status}`;
+  }
+}
+
+export function formatSagaLog(log: SagaLog): string {
+  const icons: Record<SagaStepLog['status'], string> = {
+    pending: '⏸️',
+    completed: '✅',
+    skipped: '⏭️',
+    failed: '❌',
+    compensated: '↩️',
+    compensation_failed: '⚠️',
+  };
+
+  return log.steps
+    .map((s) => {
+      const detail = s.error ?? s.message;
+      return `${icons[s.status]} ${s.step}: ${s.status}${detail ? ` — ${detail}` : ''}`;
+    })
+    .join('\n');
+}
@@ -0,0 +1,75 @@
+import yaml from 'js-yaml';
+
+// Field-table validation for structured input (manifests, blueprints). Every problem is collected
+// with its path instead of stopping at the first one.
+export type FieldType = 'string' | 'number' | 'boolean' | 'object' | 'array' | 'string[]' | 'string map';
+
+export interface FieldSpec {
+  type: FieldType;
+  optional?: boolean;
+  oneOf?: readonly string[];
+}
+
+export type Schema = Record<string, FieldSpec>;
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function matchesType(value: unknown, type: FieldType): boolean {
+  switch (type) {
+    case 'object':
+      return isRecord(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'string[]':
+      return Array.isArray(value) && value.every((v) => typeof v === 'string');
+    case 'string map':
+      return isRecord(value) && Object.values(value).every((v) => typeof v === 'string');
+    default:
+      return typeof value === type;
+  }
+}
+
+export function checkSchema(
+  value: unknown,
+  schema: Schema,
+  path: string,
+  errors: string[]
+): value is Record<string, unknown> {
+  if (!isRecord(value)) {
+    errors.push(`${path} must be an object`);
+    return false;
+  }
+
+  for (const [key, field] of Object.entries(schema)) {
+    const fieldValue = value[key];
+    if (fieldValue === undefined || fieldValue === null) {
+      if (!field.optional) errors.push(`${path}.${key} is required`);
+    } else if (!matchesType(fieldValue, field.type)) {
+      errors.push(`${path}.${key} must be ${field.type === 'object' || field.type === 'array' ? `an ${field.type}` : `a ${field.type}`}`);
+    } else if (field.oneOf && !field.oneOf.includes(fieldValue as string)) {
+      errors.push(`${path}.${key} must be one of: ${field.oneOf.join(', ')}`);
+    }
+  }
+
+  return true;
+}
+
+export function checkEntries(value: unknown, schema: Schema, path: string, errors: string[]): void {
+  if (!isRecord(value)) return;
+  for (const [key, entry] of Object.entries(value)) {
+    checkSchema(entry, schema, `${path}.${key}`, errors);
+  }
+}
+
+// Accepts JSON or YAML, optionally wrapped in a Markdown code fence as pasted from Discord.
+export function parseStructuredText(text: string): { value: unknown } | { error: string } {
+  const body = text.trim().replace(/^```[\w-]*\n([\s\S]*?)\n?```$/, '$1');
+
+  try {
+    return { value: body.startsWith('{') ? JSON.parse(body) : yaml.load(body, { schema: yaml.JSON_SCHEMA }) };
+  } catch (error) {
+    return { error: `Not valid JSON or YAML: ${error instanceof Error ? error.message : String(error)}` };
+  }
+}
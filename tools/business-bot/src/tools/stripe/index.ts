@@ -457,7 +457,7 @@ export const stripeTools: ChatCompletionTool[] = [
     function: {
       name: 'stripe_create_webhook',
       description:
-        'Create a new webhook endpoint. Returns the webhook signing secret which should be stored securely.',
+        'Create a new webhook endpoint. The signing secret is stored with the connected account and is not returned.',
       parameters: {
         type: 'object',
         properties: {
@@ -0,0 +1,28 @@
+import type { ToolResult } from '../../types';
+import * as sqlite from '../../context/persistence/sqlite';
+import * as stripeService from '../../services/stripe';
+
+export async function getRevenue(accountId: string, days?: number): Promise<ToolResult> {
+  try {
+    // Throws when the stored key can't be decrypted
+    const account = sqlite.getStripeAccount(accountId);
+    if (!account) {
+      return { success: false, error: 'Stripe account not found' };
+    }
+
+    const stats = await stripeService.getRevenueStats(account.secretKey, { days });
+
+    return {
+      success: true,
+      data: {
+        businessName: account.businessName,
+        ...stats,
+      },
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to get revenue',
+    };
+  }
+}
@@ -15,6 +15,24 @@ export interface StateTransition {
   trigger: string;
 }
 
+export interface StateTransitionDetails {
+  trigger: string;
+  confidence?: number;
+  reasoning?: string;
+  toolsUsed?: string[];
+  actorId?: string;
+}
+
+export interface StateTransitionRecord extends StateTransition {
+  id: number;
+  contextKey: string;
+  confidence?: number;
+  reasoning?: string;
+  toolsUsed: string[];
+  actorId?: string;
+  createdAt: number;
+}
+
 export interface ConversationMessage {
   role: 'user' | 'assistant' | 'system' | 'tool';
   content: string;
@@ -41,11 +59,29 @@ export interface ProjectResource {
   metadata: Record<string, unknown>;
 }
 
+export type RegistrarId = 'namecheap' | 'memory';
+
+export type DnsTemplateId =
+  | 'vercel'
+  | 'github_pages'
+  | 'google_workspace'
+  | 'cloudflare_proxy'
+  | 'ses_verification';
+
+export interface AppliedDnsTemplate {
+  template: DnsTemplateId;
+  params: Record<string, string>;
+  appliedAt: number;
+  appliedBy: string;
+}
+
 export interface ProjectDomainResource {
   name: string;
+  registrar: RegistrarId | 'external';
   registeredAt: number;
   expiresAt: number;
   autoRenew: boolean;
+  dnsTemplates?: AppliedDnsTemplate[];
 }
 
 export interface ProjectGitHubResource {
@@ -54,6 +90,10 @@ export interface ProjectGitHubResource {
   url: string;
   forkedFrom?: string;
   isPrivate: boolean;
+  // Environment-specific repository variables, applied on top of the template's when scaffolding.
+  variables?: Record<string, string>;
+  // When the bot last set each repository secret; used for rotation reminders.
+  secretsSetAt?: Record<string, number>;
 }
 
 export interface DiscordChannelInfo {
@@ -68,21 +108,204 @@ export interface ProjectDiscordResource {
   inviteUrl?: string;
   channels: string[];
   channelIds?: Record<string, string>;
-  webhooks?: Record<string, string>;
+  // Channel name -> project_secrets ID of the channel's webhook URL; the URLs themselves are never stored here
+  webhookRefs?: Record<string, string>;
+  // Role name -> ID for the blueprint's roles, and the role ID each kind of member gets on joining
+  roleIds?: Record<string, string>;
+  memberRoles?: Partial<Record<DiscordMemberGroup, string>>;
+}
+
+// Who a role is handed to: configured admins, configured team members, bots, or everyone else.
+export type DiscordMemberGroup = 'admins' | 'team' | 'bots' | 'others';
+
+// Versioned description of a Discord server's layout; applied by discord_setup_channels.
+// Roles in overwrites are referred to by name, with "@everyone" for the default role.
+export interface DiscordBlueprint {
+  version: number;
+  name: string;
+  description?: string;
+  roles?: DiscordBlueprintRole[];
+  // Channels outside any category
+  channels?: DiscordBlueprintChannel[];
+  categories?: DiscordBlueprintCategory[];
+}
+
+export interface DiscordBlueprintRole {
+  name: string;
+  color?: number;
+  hoist?: boolean;
+  mentionable?: boolean;
+  permissions?: string[];
+  assign?: DiscordMemberGroup;
+}
+
+export interface DiscordBlueprintOverwrite {
+  role: string;
+  allow?: string[];
+  deny?: string[];
+}
+
+export interface DiscordBlueprintCategory {
+  name: string;
+  overwrites?: DiscordBlueprintOverwrite[];
+  channels: DiscordBlueprintChannel[];
+}
+
+export interface DiscordBlueprintChannel {
+  name: string;
+  topic?: string;
+  webhook?: boolean;
+  overwrites?: DiscordBlueprintOverwrite[];
+  pins?: DiscordBlueprintMessage[];
 }
 
+// Text may use {{project.name}}, {{project.description}}, {{project.businessPlan}}, {{server.name}}
+// and {{productBotInviteUrl}}. A description or field whose placeholders are all empty is left out.
+export interface DiscordBlueprintMessage {
+  content?: string;
+  embed?: {
+    title: string;
+    description?: string;
+    color?: number;
+    fields?: Array<{ name: string; value: string }>;
+    footer?: string;
+  };
+}
+
+// Partial blueprint merged onto the chosen one by name; `remove: true` drops an entry.
+export interface DiscordBlueprintOverride {
+  roles?: Array<Partial<DiscordBlueprintRole> & { name: string; remove?: boolean }>;
+  channels?: Array<Partial<DiscordBlueprintChannel> & { name: string; remove?: boolean }>;
+  categories?: Array<{
+    name: string;
+    remove?: boolean;
+    overwrites?: DiscordBlueprintOverwrite[];
+    channels?: Array<Partial<DiscordBlueprintChannel> & { name: string; remove?: boolean }>;
+  }>;
+}
+
+export interface ProjectDiscordBlueprint {
+  name: string;
+  override?: DiscordBlueprintOverride;
+}
+
+// Sticky approvals for creating a project's repository or Discord server. A repo approval only covers the
+// resource key it was given for (`main` when unset). Domain registrations spend money and are approved each time;
+// `domain` is kept so older records still load.
 export interface ProjectApprovals {
   domain?: { approved: boolean; approvedBy?: string; approvedAt?: number };
-  repo?: { approved: boolean; approvedBy?: string; approvedAt?: number };
+  repo?: { approved: boolean; approvedBy?: string; approvedAt?: number; resourceKey?: string };
   discord?: { approved: boolean; approvedBy?: string; approvedAt?: number };
 }
 
+export interface ProvisioningPlanDomain {
+  name: string;
+  years: number;
+}
+
+export interface ProvisioningPlanDiscord {
+  serverName: string;
+  channels: string[];
+  webhooks: string[];
+}
+
+export interface ProvisioningPlanGitHub {
+  name: string;
+  description?: string;
+  isPrivate: boolean;
+  fromTemplate: boolean;
+}
+
+export interface ProvisioningPlanSecrets {
+  fromTemplate: boolean;
+  discordWebhooks: boolean;
+}
+
+export type ProvisioningStepName =
+  | 'domain'
+  | 'discord_server'
+  | 'discord_channels'
+  | 'github'
+  | 'secrets'
+  | 'dns';
+
+export interface ProvisioningPlan {
+  createdAt: number;
+  createdBy: string;
+  status: 'draft' | 'applying' | 'applied' | 'paused' | 'rolled_back';
+  domain?: ProvisioningPlanDomain;
+  discord?: ProvisioningPlanDiscord;
+  github?: ProvisioningPlanGitHub;
+  secrets?: ProvisioningPlanSecrets;
+  dns?: DnsRecord[];
+  appliedAt?: number;
+}
+
+export type SagaCompensation =
+  | { kind: 'delete_repo'; owner: string; repo: string }
+  | { kind: 'delete_server'; serverId: string }
+  | { kind: 'restore_dns'; domain: string; records: DnsRecord[] }
+  | { kind: 'unarchive_repo'; owner: string; repo: string }
+  | { kind: 'unlock_channels'; serverId: string; channels: LockedChannel[] }
+  | { kind: 'enable_stripe_webhooks'; accountId: string; endpointIds: string[] }
+  | { kind: 'restore_status'; status: Project['status'] };
+
+// Permission overwrites @everyone had before the channel was locked; null means inherited.
+export interface LockedChannel {
+  channelId: string;
+  sendMessages: boolean | null;
+  sendMessagesInThreads: boolean | null;
+  // Roles that had posting explicitly allowed on the channel, and their overwrites before the lock
+  roles?: Array<{ roleId: string; sendMessages: boolean | null; sendMessagesInThreads: boolean | null }>;
+}
+
+export type SagaStepStatus =
+  | 'pending'
+  | 'completed'
+  | 'skipped'
+  | 'failed'
+  | 'compensated'
+  | 'compensation_failed';
+
+export interface SagaStepLog {
+  step: string;
+  status: SagaStepStatus;
+  startedAt?: number;
+  finishedAt?: number;
+  message?: string;
+  error?: string;
+  compensation?: SagaCompensation;
+}
+
+export type SagaFailurePolicy = 'rollback' | 'pause';
+
+export interface SagaLog {
+  kind: string;
+  status: 'running' | 'completed' | 'paused' | 'rolled_back' | 'rollback_failed';
+  onFailure: SagaFailurePolicy;
+  startedAt: number;
+  finishedAt?: number;
+  steps: SagaStepLog[];
+}
+
+export type CleanupRepoAction = 'archive' | 'delete';
+
+export interface ProjectCleanupRun {
+  repoAction: CleanupRepoAction;
+  log: SagaLog;
+}
+
 export interface ProjectPlanning {
   threadId?: string;
   ideas: string[];
   research: string[];
   approvals: ProjectApprovals;
   businessPlan?: string;
+  provisioningPlan?: ProvisioningPlan;
+  provisioningLog?: SagaLog;
+  archiveLog?: SagaLog;
+  cleanup?: ProjectCleanupRun;
+  discordBlueprint?: ProjectDiscordBlueprint;
 }
 
 export interface Project {
@@ -93,16 +316,131 @@ export interface Project {
   createdAt: number;
   updatedAt: number;
   createdBy: string;
+  // Set when the project is marked deleted; it is purged once the retention period has passed.
+  deletedAt?: number;
 
+  // Domains and repositories are named collections, e.g. domains.prod / domains.staging, github.web / github.infra.
   resources: {
-    domain?: ProjectDomainResource;
-    github?: ProjectGitHubResource;
+    domains?: Record<string, ProjectDomainResource>;
+    github?: Record<string, ProjectGitHubResource>;
     discord?: ProjectDiscordResource;
   };
 
   planning: ProjectPlanning;
 }
 
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected' | 'expired';
+
+export interface ApprovalOutcome {
+  success: boolean;
+  message?: string;
+  error?: string;
+}
+
+export interface ApprovalSignoff {
+  userId: string;
+  approvedAt: number;
+}
+
+export interface PendingApproval {
+  id: string;
+  contextKey: string;
+  toolName: string;
+  args: Record<string, unknown>;
+  prompt: string;
+  requestedBy: string;
+  status: ApprovalStatus;
+  createdAt: number;
+  expiresAt: number;
+  signoffs: ApprovalSignoff[];
+  approverId?: string;
+  resolvedAt?: number;
+  outcome?: ApprovalOutcome;
+}
+
+export type DriftResource = 'domain' | 'github' | 'discord';
+
+export type DriftKind = 'missing' | 'renamed' | 'mismatch' | 'unreachable';
+
+export type DriftRepairAction = 'update_resource' | 'recreate_webhook' | 'sync_pipeline_config';
+
+export interface DriftFinding {
+  resource: DriftResource;
+  // Which entry of resources.domains / resources.github the finding is about
+  resourceKey?: string;
+  kind: DriftKind;
+  subject: string;
+  expected?: string;
+  actual?: string;
+  repair?: DriftRepairAction;
+}
+
+export interface DriftReport {
+  projectId: string;
+  projectName: string;
+  checkedAt: number;
+  findings: DriftFinding[];
+}
+
+// Manifests carry webhook URLs by channel instead of secret IDs, which mean nothing to another instance.
+export type ManifestDiscordResource = Omit<ProjectDiscordResource, 'webhookRefs'> & {
+  webhooks?: Record<string, string>;
+};
+
+// Portable copy of a project for moving between bot instances or keeping in version control.
+// Secrets (Stripe keys, webhook signing secrets, Discord webhook URLs) are replaced with MANIFEST_REDACTED.
+export interface ProjectManifest {
+  version: number;
+  exportedAt: string;
+  project: {
+    id: string;
+    name: string;
+    description?: string;
+    status: Project['status'];
+    createdAt: number;
+    createdBy: string;
+    deletedAt?: number;
+    resources: Omit<Project['resources'], 'discord'> & { discord?: ManifestDiscordResource };
+    planning: {
+      ideas: string[];
+      research: string[];
+      businessPlan?: string;
+      // Informational: not restored on import
+      approvals: ProjectApprovals;
+      discordBlueprint?: ProjectDiscordBlueprint;
+    };
+  };
+  stripeAccounts: ManifestStripeAccount[];
+}
+
+export interface ManifestStripeAccount {
+  accountId: string;
+  businessName: string;
+  label?: string;
+  isLive: boolean;
+  secretKey: string;
+  webhookSecrets: Record<string, string>;
+}
+
+export type ManifestFormat = 'json' | 'yaml';
+
+export type ManifestConflictMode = 'fail' | 'new_id' | 'overwrite';
+
+export type ProjectCostCategory = 'domain_registration' | 'domain_renewal';
+
+export interface ProjectCost {
+  id: number;
+  projectId: string;
+  category: ProjectCostCategory;
+  resource: string;
+  amount: number;
+  currency: string;
+  incurredAt: number;
+  renewsAt?: number;
+  renewalAmount?: number;
+  reference?: string;
+}
+
 export interface MessageContext {
   message: Message;
   channel: TextChannel | ThreadChannel;
@@ -123,6 +461,9 @@ export interface ToolResult {
   error?: string;
   requiresApproval?: boolean;
   approvalPrompt?: string;
+  approvalId?: string;
+  // Stored with the pending approval alongside the tool's arguments, to pin down exactly what was approved
+  approvalArgs?: Record<string, unknown>;
 }
 
 export interface AgentResult {
@@ -130,6 +471,7 @@ export interface AgentResult {
   toolsUsed: string[];
   iterations: number;
   newState?: BotState;
+  approvalIds?: string[];
 }
 
 export interface RouterResult {
@@ -138,7 +480,7 @@ export interface RouterResult {
   reasoning: string;
 }
 
-export interface NamecheapDomainInfo {
+export interface DomainAvailability {
   domain: string;
   available: boolean;
   price?: number;
@@ -146,17 +488,51 @@ export interface NamecheapDomainInfo {
   icannFee?: number;
 }
 
-export interface NamecheapOwnedDomain {
+export interface OwnedDomain {
   domain: string;
   created: string;
   expires: string;
   isExpired: boolean;
   isLocked: boolean;
   autoRenew: boolean;
-  whoisGuard: string;
+  whoisGuard?: string;
+}
+
+export interface DomainDetails {
+  domain: string;
+  created: string;
+  expires: string;
+  status: string;
+  nameservers: string[];
+}
+
+export interface DomainRegistrant {
+  firstName: string;
+  lastName: string;
+  address1: string;
+  city: string;
+  stateProvince: string;
+  postalCode: string;
+  country: string;
+  phone: string;
+  email: string;
+}
+
+export interface DomainRegistration {
+  success: boolean;
+  domain: string;
+  orderId?: string;
+  transactionId?: string;
+  chargedAmount?: number;
+}
+
+export interface RegistrarBalance {
+  availableBalance: number;
+  accountBalance: number;
+  currency: string;
 }
 
-export interface NamecheapDnsRecord {
+export interface DnsRecord {
   hostName: string;
   type: string;
   address: string;